@@ -0,0 +1,175 @@
+/**
+ * 文档树插件 - 备份模块
+ * 负责创建、列出、比较和读取数据快照
+ */
+
+import type { FolderTreeData, FolderItem } from "./folder-tree-persistence";
+import { SCHEMA_VERSION, upgradeData } from "./folder-tree-migrations";
+import { OrcaStorageAdapter, type StorageAdapter } from "./folder-tree-storage";
+
+/**
+ * 备份信息（不含数据本身）
+ */
+interface BackupInfo {
+  id: string;
+  createdAt: string;
+  reason: string; // 备份原因，如"自动备份"、"恢复前备份"
+  itemCount: number;
+  schemaVersion?: number; // 备份数据的结构版本，读取时会升级到当前版本
+}
+
+/**
+ * 备份与当前数据的差异
+ */
+interface BackupDiff {
+  added: FolderItem[]; // 备份中有、当前没有（恢复后会重新出现）
+  removed: FolderItem[]; // 当前有、备份中没有（恢复后会消失）
+  changed: Array<{ before: FolderItem; after: FolderItem }>; // 两边都有但内容不同（before 为当前，after 为备份）
+}
+
+class FolderTreeBackup {
+  private readonly BACKUP_KEY_PREFIX: string; // 带工作区前缀，每个工作区的备份互不影响
+  private readonly UNVERSIONED_SCHEMA = 2; // 加入版本号之前创建的备份均为版本 2
+  private storage: StorageAdapter;
+
+  /**
+   * @param keyPrefix - 工作区的键前缀（见 folder-tree-workspaces.ts）
+   */
+  constructor(keyPrefix: string = "", storage: StorageAdapter = new OrcaStorageAdapter()) {
+    this.BACKUP_KEY_PREFIX = `${keyPrefix}backup:`;
+    this.storage = storage;
+  }
+
+  /**
+   * 创建备份，并删除超出数量的旧备份
+   * @param schemaVersion - 数据的结构版本（迁移前备份旧版本数据时传入）
+   */
+  async createBackup(
+    data: FolderTreeData,
+    reason: string,
+    maxBackups: number,
+    schemaVersion: number = SCHEMA_VERSION
+  ): Promise<BackupInfo | null> {
+    try {
+      const createdAt = new Date().toISOString();
+      const info: BackupInfo = {
+        id: `${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
+        createdAt,
+        reason,
+        itemCount: Array.isArray(data.items) ? data.items.length : 0,
+        schemaVersion,
+      };
+
+      await this.storage.set(`${this.BACKUP_KEY_PREFIX}${info.id}`, JSON.stringify({ ...info, data }));
+      console.log("[Folder Tree] 已创建备份:", info.id, reason);
+
+      await this.pruneBackups(maxBackups);
+      return info;
+    } catch (error) {
+      console.error("[Folder Tree] 创建备份失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 列出所有备份（最新的在前）
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    try {
+      const keys: string[] = await this.storage.getKeys();
+      const backupKeys = keys.filter(key => key.startsWith(this.BACKUP_KEY_PREFIX));
+
+      const backups: BackupInfo[] = [];
+      for (const key of backupKeys) {
+        const backup = await this.readBackup(key.substring(this.BACKUP_KEY_PREFIX.length));
+        if (backup) {
+          backups.push(backup.info);
+        }
+      }
+
+      return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error("[Folder Tree] 读取备份列表失败:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 读取备份数据
+   */
+  async loadBackup(backupId: string): Promise<FolderTreeData | null> {
+    const backup = await this.readBackup(backupId);
+    return backup ? backup.data : null;
+  }
+
+  /**
+   * 删除备份
+   */
+  async deleteBackup(backupId: string): Promise<void> {
+    await this.storage.remove(`${this.BACKUP_KEY_PREFIX}${backupId}`);
+  }
+
+  /**
+   * 只保留最新的 maxBackups 个备份
+   */
+  private async pruneBackups(maxBackups: number): Promise<void> {
+    const backups = await this.listBackups();
+    for (const backup of backups.slice(Math.max(maxBackups, 1))) {
+      await this.deleteBackup(backup.id);
+      console.log("[Folder Tree] 已删除旧备份:", backup.id);
+    }
+  }
+
+  private async readBackup(backupId: string): Promise<{ info: BackupInfo; data: FolderTreeData } | null> {
+    try {
+      const backupStr = await this.storage.get(`${this.BACKUP_KEY_PREFIX}${backupId}`);
+      if (!backupStr) return null;
+
+      const { data: raw, ...info } = JSON.parse(backupStr);
+      if (!raw) return null;
+
+      const data = upgradeData(raw, info.schemaVersion ?? this.UNVERSIONED_SCHEMA);
+      if (!Array.isArray(data.items)) return null;
+
+      return { info: info as BackupInfo, data: data as FolderTreeData };
+    } catch (error) {
+      console.error("[Folder Tree] 读取备份失败:", backupId, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * 比较当前数据与备份数据
+ */
+function diffTreeData(current: FolderTreeData, backup: FolderTreeData): BackupDiff {
+  const currentItems = new Map(current.items.map(item => [item.id, item]));
+  const backupItems = new Map(backup.items.map(item => [item.id, item]));
+
+  const diff: BackupDiff = { added: [], removed: [], changed: [] };
+
+  backupItems.forEach((item, id) => {
+    const currentItem = currentItems.get(id);
+    if (!currentItem) {
+      diff.added.push(item);
+    } else if (
+      currentItem.name !== item.name ||
+      currentItem.parentId !== item.parentId ||
+      currentItem.order !== item.order ||
+      currentItem.blockId !== item.blockId ||
+      currentItem.type !== item.type
+    ) {
+      diff.changed.push({ before: currentItem, after: item });
+    }
+  });
+
+  currentItems.forEach((item, id) => {
+    if (!backupItems.has(id)) {
+      diff.removed.push(item);
+    }
+  });
+
+  return diff;
+}
+
+export { FolderTreeBackup, diffTreeData, type BackupInfo, type BackupDiff };
@@ -0,0 +1,36 @@
+/**
+ * 文档树插件 - 块查询工具
+ * 负责批量检查 Orca 中的块是否存在
+ */
+
+const GET_BLOCKS_BATCH_SIZE = 100;
+
+/**
+ * 分批查询块，返回仍然存在的块ID
+ * 后端调用失败时抛出错误（调用方不应把查询失败当作块已删除）
+ */
+async function fetchExistingBlockIds(blockIds: string[]): Promise<Set<string>> {
+  const uniqueIds = Array.from(new Set(blockIds)).filter(id => /^\d+$/.test(id));
+  const existingIds = new Set<string>();
+
+  for (let i = 0; i < uniqueIds.length; i += GET_BLOCKS_BATCH_SIZE) {
+    const batch = uniqueIds.slice(i, i + GET_BLOCKS_BATCH_SIZE);
+    const blocks = await orca.invokeBackend("get-blocks", batch.map(id => Number(id)));
+    (blocks || []).forEach((block: any) => {
+      if (block && block.id != null) existingIds.add(String(block.id));
+    });
+  }
+
+  return existingIds;
+}
+
+/**
+ * 通过别名查找块ID，找不到时返回 null
+ */
+async function findBlockIdByAlias(alias: string): Promise<string | null> {
+  const result = await orca.invokeBackend("get-blockid-by-alias", alias);
+  const blockId = typeof result === "number" ? result : result?.id;
+  return blockId != null ? String(blockId) : null;
+}
+
+export { fetchExistingBlockIds, findBlockIdByAlias };
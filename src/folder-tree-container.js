@@ -3,6 +3,8 @@
  * 负责创建和注入文档树管理器的UI外壳到Orca侧边栏中
  */
 
+import { t } from './libs/l10n';
+
 let folderTreeShell = null;
 
 /**
@@ -62,7 +64,7 @@ async function injectFolderTreeShell() {
     const hideableContainer = injectHideableContainer(sidebarTabsEl);
     const tabOptionEl = document.createElement('div');
     tabOptionEl.className = 'orca-segmented-item plugin-folder-tree-tab-option';
-    tabOptionEl.textContent = '文档树';
+    tabOptionEl.textContent = t('Folder Tree');
     sidebarTabOptionsEl.appendChild(tabOptionEl);
 
     // 监听点击tab-option事件
@@ -149,6 +151,15 @@ function cleanupFolderTreeShell() {
   }
 }
 
+/**
+ * 按当前语言更新侧边栏标签的文字
+ */
+function updateFolderTreeShellLabel() {
+  if (folderTreeShell?.tabOptionEl) {
+    folderTreeShell.tabOptionEl.textContent = t('Folder Tree');
+  }
+}
+
 /**
  * 获取文档树容器元素
  * @returns {Element|null} 文档树容器元素
@@ -200,6 +211,7 @@ function hideFolderTree() {
 export {
   injectFolderTreeShell,
   cleanupFolderTreeShell,
+  updateFolderTreeShellLabel,
   getFolderTreeContainer,
   isFolderTreeVisible,
   showFolderTree,
@@ -3,84 +3,1156 @@
  * 负责数据处理、状态管理和业务逻辑
  */
 
-import { FolderTreePersistence, type FolderTreeData, type FolderItem } from "./folder-tree-persistence";
+import { FolderTreePersistence, type FolderTreeData, type FolderItem, type TrashEntry, type StorageCommit, type RemoteMergeResult } from "./folder-tree-persistence";
+import { FolderTreeHistory, cloneItem, getChangedIds, mergeChanges, type TreeChange, type TreeSnapshot } from "./folder-tree-history";
+import { FolderTreeBackup, diffTreeData, type BackupInfo, type BackupDiff } from "./folder-tree-backup";
+import type { MigrationLogEntry } from "./folder-tree-migrations";
+import { checkIntegrity, repairIntegrity, type IntegrityIssue } from "./folder-tree-integrity";
+import { fetchExistingBlockIds } from "./folder-tree-blocks";
+import { FolderTreeQueue } from "./folder-tree-queue";
+import { FolderTreeIndex } from "./folder-tree-index";
+import { OrcaStorageAdapter, type StorageAdapter } from "./folder-tree-storage";
+import {
+  FolderTreeErrorLog,
+  ok,
+  fail,
+  describeError,
+  type FolderTreeError,
+  type FolderTreeErrorCode,
+  type OperationResult,
+  type ErrorLogEntry,
+} from "./folder-tree-errors";
+import { t } from "./libs/l10n";
+import { DEFAULT_SETTINGS, normalizeSettings, truncateName, type FolderTreeSettings } from "./folder-tree-settings";
+import { matchName } from "./folder-tree-search";
+import {
+  FolderTreeWorkspaces,
+  DEFAULT_WORKSPACE_ID,
+  getWorkspaceKeyPrefix,
+  type WorkspaceInfo,
+  type WorkspaceScope,
+} from "./folder-tree-workspaces";
+
+/**
+ * 跨窗口同步广播的内容
+ */
+interface SyncMessage extends StorageCommit {
+  source: string; // 发出广播的实例
+  workspaceId: string; // 提交所属的工作区
+}
+
+/**
+ * 批量操作中执行一步修改：operation 需同步完成修改（核心的修改方法都在调用时同步修改数据）
+ */
+type BatchStep = <R>(operation: () => R) => R;
+
+/**
+ * 执行中的批量操作
+ */
+interface BatchScope {
+  step: BatchStep;
+  changed: boolean; // 步骤中是否有修改（结束时统一通知和保存）
+}
 
 class FolderTreeCore {
   private persistence: FolderTreePersistence;
   private data: FolderTreeData | null = null;
   private listeners: Array<(data: FolderTreeData) => void> = [];
+  private flushPromise: Promise<OperationResult> | null = null; // 正在进行的保存
+  private flushRequested = false; // 保存期间是否又有新的修改
+  private history = new FolderTreeHistory();
+  private pendingChange: Map<string, FolderItem | null> | null = null; // 当前操作涉及项目的原始状态
+  private backup: FolderTreeBackup;
+  private storage: StorageAdapter;
+  private workspaces: FolderTreeWorkspaces;
+  private workspaceId = DEFAULT_WORKSPACE_ID; // 当前打开的工作区
+  private readonly AUTO_BACKUP_INTERVAL = 30 * 60 * 1000; // 自动备份间隔（毫秒）
+  private lastBackupAt = 0;
+  private missingBlocks: Map<string, string> = new Map(); // 项目ID -> 检查时已不存在的块ID（不保存）
+  // 跨越 await 的多步操作按顺序执行；单步修改是同步完成的，不需要排队
+  private queue = new FolderTreeQueue();
+  private activeBatch: BatchScope | null = null; // 正在执行步骤的批量操作：其中的修改只标记，不通知也不保存
+  // 按ID、父级和块ID的索引；每处修改 items 或项目的 parentId/order/blockId 后都要同步更新
+  private index = new FolderTreeIndex();
+  private readonly SYNC_BROADCAST = "folder-tree.changed";
+  private syncEnabled = false;
+  private errorLog = new FolderTreeErrorLog();
+  private errorListeners: Array<(entry: ErrorLogEntry, background: boolean) => void> = [];
+  private settings: FolderTreeSettings = { ...DEFAULT_SETTINGS };
+  private settingsListeners: Array<(settings: FolderTreeSettings) => void> = [];
+  private readonly MAX_RECENT_TARGETS = 5;
+  private readonly instanceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  /**
+   * @param options.storage - 存储位置，默认为 Orca 插件数据；传入内存或 JSON 文件存储时可以在没有 Orca 的环境中运行
+   * @param options.repo - 当前仓库（用于工作区范围），默认为 Orca 当前打开的仓库
+   */
+  constructor(options: { storage?: StorageAdapter; repo?: string } = {}) {
+    this.storage = options.storage ?? new OrcaStorageAdapter();
+    this.persistence = new FolderTreePersistence("", this.storage);
+    this.backup = new FolderTreeBackup("", this.storage);
+    this.workspaces = new FolderTreeWorkspaces(options.repo ?? orca.state.repo, this.storage);
+  }
+
+  /**
+   * 初始化核心模块
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      await this.workspaces.load();
+      await this.openWorkspace(this.workspaces.getActive());
+      this.startSync();
+      if (this.persistence.hasLoadError()) {
+        console.warn("[Folder Tree] 数据加载失败，已暂停保存，可从备份恢复");
+      } else {
+        if (this.purgeExpiredTrash() > 0) {
+          this.flush();
+        }
+        // 启动时静默检查数据完整性，只记录日志，由用户决定是否修复
+        const issues = this.checkIntegrity();
+        if (issues.length > 0) {
+          console.warn("[Folder Tree] 数据完整性检查发现问题:", issues);
+        }
+        // 启动时创建一次快照
+        this.maybeAutoBackup();
+      }
+      console.log("[Folder Tree] 核心模块初始化成功");
+      return true;
+    } catch (error) {
+      console.error("[Folder Tree] 核心模块初始化失败:", error);
+      return false;
+    }
+  }
+
+  /**
+   * 获取当前数据
+   */
+  getData(): FolderTreeData {
+    if (!this.data) {
+      throw new Error(t("The data has not been initialized"));
+    }
+    return this.data;
+  }
+
+  /**
+   * 添加数据变化监听器
+   */
+  addChangeListener(listener: (data: FolderTreeData) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * 移除数据变化监听器
+   */
+  removeChangeListener(listener: (data: FolderTreeData) => void): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * 通知数据变化
+   */
+  private notifyDataChange(): void {
+    if (this.data) {
+      this.listeners.forEach(listener => {
+        try {
+          listener(this.data!);
+        } catch (error) {
+          console.error("[Folder Tree] 监听器执行失败:", error);
+        }
+      });
+    }
+  }
+
+  /**
+   * 当前的插件设置
+   */
+  getSettings(): FolderTreeSettings {
+    return this.settings;
+  }
+
+  /**
+   * 应用 Orca 保存的插件设置，设置有变化时通知监听器
+   * @returns 设置是否有变化
+   */
+  applySettings(raw: Record<string, any> | null | undefined): boolean {
+    const settings = normalizeSettings(raw);
+    if (JSON.stringify(settings) === JSON.stringify(this.settings)) return false;
+
+    this.settings = settings;
+    this.settingsListeners.forEach(listener => {
+      try {
+        listener(settings);
+      } catch (error) {
+        console.error("[Folder Tree] 设置监听器执行失败:", error);
+      }
+    });
+    return true;
+  }
+
+  addSettingsListener(listener: (settings: FolderTreeSettings) => void): void {
+    this.settingsListeners.push(listener);
+  }
+
+  removeSettingsListener(listener: (settings: FolderTreeSettings) => void): void {
+    const index = this.settingsListeners.indexOf(listener);
+    if (index > -1) {
+      this.settingsListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * 用块文本作为名称（按设置的长度截断）
+   */
+  getBlockName(text: string | null | undefined, fallback: string = t("Untitled document")): string {
+    return text ? truncateName(text, this.settings.nameMaxLength) : fallback;
+  }
+
+  /**
+   * 添加块的默认笔记本：设置中指定名称的根级笔记本，未指定或找不到时为第一个笔记本
+   */
+  getDefaultNotebook(): FolderItem | null {
+    const notebooks = this.getRootNotebooks();
+    const name = this.settings.defaultNotebook;
+    return (name && notebooks.find(notebook => notebook.name === name)) || notebooks[0] || null;
+  }
+
+  /**
+   * 将多步操作加入操作队列，在之前的操作完成后执行
+   * 任务中读取的是前面所有操作完成后的数据；任务内部不能再调用 enqueue
+   */
+  enqueue<T>(task: () => Promise<T> | T): Promise<T> {
+    return this.queue.run(task);
+  }
+
+  /**
+   * 等待队列中的操作和未完成的保存全部结束
+   */
+  async idle(): Promise<OperationResult> {
+    await this.queue.idle();
+    return this.flush();
+  }
+
+  /**
+   * 将内存中的数据异步写入存储
+   * 多次修改会合并为一次保存；保存进行中的修改会在本次保存完成后再写入一次
+   */
+  flush(): Promise<OperationResult> {
+    this.flushRequested = true;
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush();
+    }
+    return this.flushPromise;
+  }
+
+  private async runFlush(): Promise<OperationResult> {
+    // 等待当前同步修改全部完成后再保存
+    await Promise.resolve();
+
+    let result: OperationResult = ok();
+    try {
+      while (this.flushRequested && this.data) {
+        this.flushRequested = false;
+        // 其他窗口已写入新版本：先合并再保存，避免覆盖对方的修改
+        if (await this.persistence.hasRemoteChanges()) {
+          this.afterRemoteMerge(await this.persistence.pullRemoteChanges(this.data));
+        }
+        result = await this.persistence.saveData(this.data);
+      }
+    } catch (error) {
+      console.error("[Folder Tree] 保存数据失败:", error);
+      result = fail("storage-failure", { reason: describeError(error) });
+    }
+    this.flushPromise = null;
+
+    if (result.ok) {
+      this.maybeAutoBackup();
+    } else if (result.error.code !== "load-failed") {
+      // 加载失败时的拒绝保存已在启动时提示，不再逐次记录
+      this.logError(t("Save"), result.error, true);
+    }
+    return result;
+  }
+
+  /**
+   * 数据已修改：通知界面并异步保存
+   */
+  private commit(): void {
+    if (this.activeBatch) {
+      this.activeBatch.changed = true;
+      return;
+    }
+    this.notifyDataChange();
+    this.flush();
+  }
+
+  // ========== 错误记录 ==========
+
+  /**
+   * 记录失败的操作并返回失败结果
+   */
+  private failure<T = never>(
+    operation: string,
+    code: FolderTreeErrorCode,
+    details: Record<string, string> = {}
+  ): OperationResult<T> {
+    const result = fail<T>(code, details);
+    if (!result.ok) {
+      this.logError(operation, result.error, false);
+    }
+    return result;
+  }
+
+  /**
+   * 写入错误记录并通知监听器
+   * @param background - 是否为后台操作（如自动保存）的错误，调用方不会自行提示
+   */
+  private logError(operation: string, error: FolderTreeError, background: boolean): void {
+    console.warn(`[Folder Tree] ${operation}失败:`, error.message);
+    const entry = this.errorLog.add(operation, error);
+    this.errorListeners.forEach(listener => {
+      try {
+        listener(entry, background);
+      } catch (listenerError) {
+        console.error("[Folder Tree] 错误监听器执行失败:", listenerError);
+      }
+    });
+  }
+
+  /**
+   * 本次运行中记录的错误（最新的在前）
+   */
+  getErrorLog(): ErrorLogEntry[] {
+    return this.errorLog.list();
+  }
+
+  clearErrorLog(): void {
+    this.errorLog.clear();
+  }
+
+  /**
+   * 添加错误监听器（每记录一条错误调用一次）
+   */
+  addErrorListener(listener: (entry: ErrorLogEntry, background: boolean) => void): void {
+    this.errorListeners.push(listener);
+  }
+
+  removeErrorListener(listener: (entry: ErrorLogEntry, background: boolean) => void): void {
+    const index = this.errorListeners.indexOf(listener);
+    if (index > -1) {
+      this.errorListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * 数据尚未加载时的失败结果
+   */
+  private notInitialized<T = never>(operation: string): OperationResult<T> {
+    return this.failure<T>(operation, "not-initialized");
+  }
+
+  /**
+   * 项目不存在时的失败结果
+   */
+  private itemNotFound<T = never>(operation: string, itemId: string): OperationResult<T> {
+    return this.failure<T>(operation, "not-found", { target: t("Item ${id}", { id: itemId }) });
+  }
+
+  // ========== 跨窗口同步 ==========
+
+  /**
+   * 开始与其他窗口同步：本窗口的提交会广播出去（见 openWorkspace），其他窗口的提交会合并到内存数据
+   */
+  private startSync(): void {
+    // 只有 Orca 插件数据会被多个窗口共享
+    if (!(this.storage instanceof OrcaStorageAdapter)) return;
+    this.syncEnabled = true;
+    orca.broadcasts.registerHandler(this.SYNC_BROADCAST, this.handleRemoteCommit);
+  }
+
+  private broadcastCommit(commit: StorageCommit): void {
+    if (!this.syncEnabled) return;
+    const message: SyncMessage = { source: this.instanceId, workspaceId: this.workspaceId, ...commit };
+    orca.broadcasts.broadcast(this.SYNC_BROADCAST, message);
+  }
+
+  /**
+   * 停止同步（插件卸载时调用）
+   */
+  dispose(): void {
+    if (this.syncEnabled) {
+      orca.broadcasts.unregisterHandler(this.SYNC_BROADCAST, this.handleRemoteCommit);
+      this.syncEnabled = false;
+    }
+    this.persistence.setCommitListener(null);
+  }
+
+  /**
+   * 处理其他窗口的提交
+   * 版本号紧接着本地版本时直接应用广播中的写入；否则说明错过了提交或发生了并发写入，重新读取存储后合并
+   */
+  private handleRemoteCommit = (message: SyncMessage): void => {
+    if (!message || message.source === this.instanceId || message.workspaceId !== this.workspaceId) return;
+
+    this.queue.run(async () => {
+      // 排队期间可能已切换到其他工作区
+      if (!this.data || message.workspaceId !== this.workspaceId) return;
+      // 等待进行中的保存完成，保证本地版本号和保存快照是最新的
+      if (this.flushPromise) {
+        await this.flushPromise;
+      }
+
+      const result = message.revision === this.persistence.getRevision() + 1
+        ? this.persistence.applyRemoteCommit(this.data, message)
+        : await this.persistence.pullRemoteChanges(this.data);
+      this.afterRemoteMerge(result);
+      // 合并时保留的本地未保存修改需要写回存储
+      this.flush();
+    });
+  };
+
+  /**
+   * 合并其他窗口的修改后更新索引、丢弃与之冲突的撤销记录并刷新界面
+   */
+  private afterRemoteMerge(result: RemoteMergeResult): void {
+    if (!result.changed || !this.data) return;
+    console.log("[Folder Tree] 已合并其他窗口的修改");
+    this.index.rebuild(this.data.items);
+    this.history.discard(result.changedIds);
+    this.notifyDataChange();
+  }
+
+  // ========== 工作区 ==========
+
+  /**
+   * 打开工作区：切换存储位置并读取其数据
+   */
+  private async openWorkspace(workspace: WorkspaceInfo): Promise<void> {
+    const keyPrefix = getWorkspaceKeyPrefix(workspace.id);
+    // 读取完成后再一起替换，读取期间的修改仍保存到原工作区
+    const persistence = new FolderTreePersistence(keyPrefix, this.storage);
+    const data = await persistence.loadData();
+
+    this.persistence.setCommitListener(null);
+    this.persistence = persistence;
+    this.persistence.setCommitListener(commit => this.broadcastCommit(commit));
+    this.backup = new FolderTreeBackup(keyPrefix, this.storage);
+    this.workspaceId = workspace.id;
+    this.data = data;
+    this.index.rebuild(data.items);
+    this.history.clear();
+    this.missingBlocks.clear();
+    this.lastBackupAt = 0;
+  }
+
+  /**
+   * 当前仓库可用的工作区（会重新读取，包含其他窗口创建的工作区）
+   */
+  async getWorkspaces(): Promise<WorkspaceInfo[]> {
+    await this.workspaces.load();
+    return this.workspaces.list();
+  }
+
+  /**
+   * 当前打开的工作区
+   */
+  getActiveWorkspace(): WorkspaceInfo {
+    return this.workspaces.get(this.workspaceId) || this.workspaces.getActive();
+  }
+
+  /**
+   * 切换到指定工作区（先保存当前工作区的修改，切换后撤销历史会被清空）
+   */
+  async switchWorkspace(workspaceId: string): Promise<OperationResult> {
+    return this.queue.run(async () => {
+      const workspace = this.workspaces.get(workspaceId);
+      if (!workspace) {
+        return this.failure(t("Switch workspace"), "not-found", { target: t("Workspace ${id}", { id: workspaceId }) });
+      }
+      if (workspace.id === this.workspaceId) return ok();
+
+      const saved = await this.flush();
+      if (!saved.ok && saved.error.code !== "load-failed") {
+        // 当前工作区的修改没有保存成功，切换会丢失这些修改
+        return saved;
+      }
+      try {
+        await this.openWorkspace(workspace);
+        await this.workspaces.setActive(workspace.id);
+      } catch (error) {
+        return this.failure(t("Switch workspace"), "storage-failure", { reason: describeError(error) });
+      }
+      console.log("[Folder Tree] 已切换到工作区:", workspace.name);
+
+      if (!this.persistence.hasLoadError()) {
+        if (this.purgeExpiredTrash() > 0) {
+          this.flush();
+        }
+        this.maybeAutoBackup();
+      }
+      this.notifyDataChange();
+      return ok();
+    });
+  }
+
+  /**
+   * 创建工作区并切换过去
+   */
+  async createWorkspace(name: string, scope: WorkspaceScope): Promise<OperationResult<WorkspaceInfo>> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return this.failure(t("Create workspace"), "invalid-input", { reason: t("the name cannot be empty") });
+    }
+
+    let workspace: WorkspaceInfo;
+    try {
+      workspace = await this.workspaces.create(trimmed, scope);
+    } catch (error) {
+      return this.failure(t("Create workspace"), "storage-failure", { reason: describeError(error) });
+    }
+    const switched = await this.switchWorkspace(workspace.id);
+    return switched.ok ? ok(workspace) : switched;
+  }
+
+  async renameWorkspace(workspaceId: string, name: string): Promise<OperationResult> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return this.failure(t("Rename workspace"), "invalid-input", { reason: t("the name cannot be empty") });
+    }
+    return this.updateWorkspace(t("Rename workspace"), workspaceId, () => this.workspaces.rename(workspaceId, trimmed));
+  }
+
+  /**
+   * 修改工作区范围：仅当前仓库或所有仓库共享（默认工作区始终共享）
+   */
+  async setWorkspaceScope(workspaceId: string, scope: WorkspaceScope): Promise<OperationResult> {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) {
+      return this.failure(t("Change workspace scope"), "invalid-input", { reason: t("the default workspace is always shared") });
+    }
+    return this.updateWorkspace(t("Change workspace scope"), workspaceId, () => this.workspaces.setScope(workspaceId, scope));
+  }
+
+  private async updateWorkspace(
+    operation: string,
+    workspaceId: string,
+    update: () => Promise<boolean>
+  ): Promise<OperationResult> {
+    try {
+      if (!(await update())) {
+        return this.failure(operation, "not-found", { target: t("Workspace ${id}", { id: workspaceId }) });
+      }
+    } catch (error) {
+      return this.failure(operation, "storage-failure", { reason: describeError(error) });
+    }
+    this.notifyDataChange();
+    return ok();
+  }
+
+  /**
+   * 删除工作区及其全部数据；删除当前工作区时先切换到默认工作区
+   */
+  async deleteWorkspace(workspaceId: string): Promise<OperationResult> {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) {
+      return this.failure(t("Delete workspace"), "invalid-input", { reason: t("the default workspace cannot be deleted") });
+    }
+    if (workspaceId === this.workspaceId) {
+      const switched = await this.switchWorkspace(DEFAULT_WORKSPACE_ID);
+      if (!switched.ok) return switched;
+    }
+    return this.updateWorkspace(t("Delete workspace"), workspaceId, () => this.queue.run(() => this.workspaces.remove(workspaceId)));
+  }
+
+  // ========== 完整性检查 ==========
+
+  /**
+   * 检查数据完整性
+   */
+  checkIntegrity(): IntegrityIssue[] {
+    if (!this.data) return [];
+    return checkIntegrity(this.data);
+  }
+
+  /**
+   * 修复数据完整性问题（可撤销）
+   * @returns 修复的问题数量
+   */
+  repairIntegrity(): number {
+    if (!this.data) return 0;
+    const data = this.data;
+
+    const fixed = this.record(t("Fix data integrity"), () => {
+      const count = repairIntegrity(data, itemId => this.track(itemId));
+      this.index.rebuild(data.items);
+      return count;
+    });
+    if (fixed > 0) {
+      console.log("[Folder Tree] 已修复数据完整性问题:", fixed);
+      this.commit();
+    }
+    return fixed;
+  }
+
+  // ========== 失效块检查 ==========
+
+  /**
+   * 检查项目对应的块是否仍然存在
+   * @returns 块已被删除的项目；查询失败时不改变已有标记
+   */
+  async checkBlockLinks(): Promise<OperationResult<FolderItem[]>> {
+    if (!this.data) return this.notInitialized(t("Check broken links"));
+
+    const linkedItems = this.data.items.filter(item => item.blockId);
+    let existingIds: Set<string>;
+    try {
+      existingIds = await fetchExistingBlockIds(linkedItems.map(item => item.blockId!));
+    } catch (error) {
+      console.error("[Folder Tree] 检查块是否存在失败:", error);
+      return this.failure(t("Check broken links"), "backend-failure", { reason: describeError(error) });
+    }
+
+    const missing = new Map<string, string>();
+    linkedItems.forEach(item => {
+      if (!existingIds.has(item.blockId!)) {
+        missing.set(item.id, item.blockId!);
+      }
+    });
+
+    const changed = missing.size !== this.missingBlocks.size
+      || Array.from(missing).some(([id, blockId]) => this.missingBlocks.get(id) !== blockId);
+    this.missingBlocks = missing;
+    if (changed) {
+      console.log("[Folder Tree] 对应块已被删除的项目:", missing.size);
+      this.notifyDataChange();
+    }
+
+    return ok(this.getBrokenItems());
+  }
+
+  /**
+   * 项目对应的块是否已被删除（以最近一次检查为准）
+   */
+  isBlockMissing(itemId: string): boolean {
+    const item = this.getItemById(itemId);
+    return !!item && !!item.blockId && this.missingBlocks.get(itemId) === item.blockId;
+  }
+
+  /**
+   * 对应块已被删除的项目
+   */
+  getBrokenItems(): FolderItem[] {
+    return Array.from(this.missingBlocks.keys())
+      .filter(id => this.isBlockMissing(id))
+      .map(id => this.getItemById(id)!);
+  }
+
+  /**
+   * 把项目重新链接到另一个块（可撤销）
+   */
+  async relinkItem(itemId: string, blockId: string): Promise<OperationResult> {
+    return this.queue.run(async () => {
+      try {
+        const existing = await fetchExistingBlockIds([blockId]);
+        if (!existing.has(blockId)) {
+          return this.failure(t("Relink"), "block-missing", { blockId });
+        }
+      } catch (error) {
+        console.error("[Folder Tree] 查询块失败:", error);
+        return this.failure(t("Relink"), "backend-failure", { reason: describeError(error) });
+      }
+
+      // 查询期间项目可能已被其他操作删除，查询后再读取
+      const item = this.getItemById(itemId);
+      if (!item) return this.itemNotFound(t("Relink"), itemId);
+      return this.applyItemUpdate(t("Relink \"${name}\"", { name: item.name }), item, { blockId });
+    });
+  }
+
+  /**
+   * 批量重新链接项目，作为一次可撤销的操作；块不存在的项目跳过
+   * @returns 重新链接的项目数量
+   */
+  async relinkItems(links: Array<{ itemId: string; blockId: string }>): Promise<OperationResult<number>> {
+    return this.queue.run(async () => {
+      let existing: Set<string>;
+      try {
+        existing = await fetchExistingBlockIds(links.map(link => link.blockId));
+      } catch (error) {
+        console.error("[Folder Tree] 查询块失败:", error);
+        return this.failure(t("Relink"), "backend-failure", { reason: describeError(error) });
+      }
+
+      // 查询期间项目可能已被其他操作删除，查询后再读取
+      const valid = links.filter(link => this.getItemById(link.itemId) && existing.has(link.blockId));
+      if (valid.length === 0) return ok(0);
+
+      this.record(t("Relink ${count} items", { count: String(valid.length) }), () => {
+        valid.forEach(link => {
+          const item = this.getItemById(link.itemId)!;
+          this.track(item.id);
+          item.blockId = link.blockId;
+          item.modified = new Date().toISOString();
+          this.index.update(item);
+        });
+      });
+
+      this.commit();
+      return ok(valid.length);
+    });
+  }
+
+  // ========== 备份 ==========
+
+  /**
+   * 数据是否加载失败（失败时不会保存任何修改）
+   */
+  hasLoadError(): boolean {
+    return this.persistence.hasLoadError();
+  }
+
+  /**
+   * 距离上次备份超过间隔时自动创建备份
+   */
+  private maybeAutoBackup(): void {
+    if (!this.data || this.data.items.length === 0 || this.persistence.hasLoadError()) return;
+    if (Date.now() - this.lastBackupAt < this.AUTO_BACKUP_INTERVAL) return;
+
+    this.lastBackupAt = Date.now();
+    this.createBackup(t("Automatic backup")).then(result => {
+      if (!result.ok) console.error("[Folder Tree] 自动备份失败:", result.error.message);
+    });
+  }
+
+  /**
+   * 创建备份
+   */
+  async createBackup(reason: string = t("Manual backup")): Promise<OperationResult<BackupInfo>> {
+    if (!this.data) return this.notInitialized(t("Create backup"));
+    // 深拷贝，避免备份写入期间数据被修改
+    const snapshot: FolderTreeData = JSON.parse(JSON.stringify(this.data));
+    const info = await this.backup.createBackup(snapshot, reason, this.getBackupCount());
+    return info ? ok(info) : this.failure(t("Create backup"), "storage-failure", { reason: t("the backup could not be written") });
+  }
+
+  /**
+   * 读取数据迁移日志
+   */
+  async getMigrationLog(): Promise<MigrationLogEntry[]> {
+    return this.persistence.getMigrationLog();
+  }
+
+  /**
+   * 列出所有备份
+   */
+  async listBackups(): Promise<BackupInfo[]> {
+    return this.backup.listBackups();
+  }
+
+  /**
+   * 比较备份与当前数据
+   */
+  async getBackupDiff(backupId: string): Promise<BackupDiff | null> {
+    if (!this.data) return null;
+    const backupData = await this.backup.loadBackup(backupId);
+    return backupData ? diffTreeData(this.data, backupData) : null;
+  }
+
+  /**
+   * 删除备份
+   */
+  async deleteBackup(backupId: string): Promise<OperationResult> {
+    try {
+      await this.backup.deleteBackup(backupId);
+      return ok();
+    } catch (error) {
+      console.error("[Folder Tree] 删除备份失败:", error);
+      return this.failure(t("Delete backup"), "storage-failure", { reason: describeError(error) });
+    }
+  }
+
+  /**
+   * 从备份恢复（恢复前会先备份当前数据）
+   * 恢复后撤销历史会被清空
+   */
+  async restoreBackup(backupId: string): Promise<OperationResult> {
+    return this.queue.run(async () => {
+      if (!this.data) return this.notInitialized(t("Restore from backup"));
+
+      const backupData = await this.backup.loadBackup(backupId);
+      if (!backupData) {
+        return this.failure(t("Restore from backup"), "not-found", { target: t("Backup ${id}", { id: backupId }) });
+      }
+
+      if (!this.persistence.hasLoadError() && this.data.items.length > 0) {
+        const saved = await this.createBackup(t("Backup before restore"));
+        // 无法保留当前数据时不覆盖
+        if (!saved.ok) return saved;
+      }
+
+      // 等待进行中的保存完成，避免旧数据在恢复后写入
+      if (this.flushPromise) {
+        await this.flushPromise;
+      }
+
+      this.data = {
+        items: backupData.items,
+        trash: backupData.trash || [],
+        settings: this.persistence.normalizeSettings(backupData.settings),
+      };
+      this.index.rebuild(this.data.items);
+      this.history.clear();
+
+      const result = await this.persistence.overwriteData(this.data);
+      if (!result.ok) {
+        this.logError(t("Restore from backup"), result.error, false);
+      }
+      this.notifyDataChange();
+      return result;
+    });
+  }
+
+  /**
+   * 获取保留的备份数量
+   */
+  getBackupCount(): number {
+    return this.data?.settings.backupCount ?? 10;
+  }
+
+  /**
+   * 设置保留的备份数量
+   */
+  async setBackupCount(count: number): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Set backup count"));
+    if (!Number.isFinite(count) || count < 1) {
+      return this.failure(t("Set backup count"), "invalid-input", { reason: t("the count must be at least 1") });
+    }
+
+    this.data.settings.backupCount = Math.floor(count);
+    this.flush();
+    return ok();
+  }
+
+  // ========== 撤销/重做 ==========
+
+  /**
+   * 在修改项目前记录其原始状态（每次操作只记录第一次）
+   */
+  private track(itemId: string): void {
+    if (!this.pendingChange || this.pendingChange.has(itemId)) return;
+    const item = this.getItemById(itemId);
+    this.pendingChange.set(itemId, item ? cloneItem(item) : null);
+  }
+
+  /**
+   * 以可撤销的方式执行修改，嵌套调用时归入外层操作
+   */
+  private record<T>(label: string, mutate: () => T): T {
+    const finish = this.beginRecording(label);
+    if (!finish) {
+      return mutate();
+    }
+
+    let succeeded = false;
+    try {
+      const result = mutate();
+      succeeded = true;
+      return result;
+    } finally {
+      finish(succeeded);
+    }
+  }
+
+  /**
+   * 开始记录一次操作，返回结束记录的函数；已在记录中时返回 null（归入外层操作）
+   */
+  private beginRecording(label: string): ((succeeded: boolean) => void) | null {
+    const capture = this.beginCapture();
+    if (!capture) return null;
+
+    return (succeeded: boolean) => {
+      const change = capture(succeeded);
+      if (change) {
+        this.history.push({ label, ...change });
+      }
+    };
+  }
+
+  /**
+   * 开始收集一次修改前后的状态，返回结束收集的函数（没有变化时结果为 null）；已在记录中时返回 null
+   */
+  private beginCapture(): ((succeeded: boolean) => TreeChange | null) | null {
+    if (!this.data || this.pendingChange) {
+      return null;
+    }
+
+    const data = this.data;
+    const closedBefore = new Set(data.settings.closedNotebooks);
+    const trashBefore = new Map(data.trash.map(entry => [entry.id, entry]));
+    const pendingChange = new Map<string, FolderItem | null>();
+    this.pendingChange = pendingChange;
+
+    return (succeeded: boolean) => {
+      this.pendingChange = null;
+      if (!succeeded) return null;
+
+      const before: TreeSnapshot = { items: pendingChange, closedNotebooks: new Map(), trash: new Map() };
+      const after: TreeSnapshot = { items: new Map(), closedNotebooks: new Map(), trash: new Map() };
+      const closedAfter = new Set(data.settings.closedNotebooks);
+      new Set([...closedBefore, ...closedAfter]).forEach(notebookId => {
+        if (closedBefore.has(notebookId) === closedAfter.has(notebookId)) return;
+        before.closedNotebooks.set(notebookId, closedBefore.has(notebookId));
+        after.closedNotebooks.set(notebookId, closedAfter.has(notebookId));
+      });
+      const trashAfter = new Map(data.trash.map(entry => [entry.id, entry]));
+      new Set([...trashBefore.keys(), ...trashAfter.keys()]).forEach(entryId => {
+        const entryBefore = trashBefore.get(entryId) ?? null;
+        const entryAfter = trashAfter.get(entryId) ?? null;
+        if (entryBefore === entryAfter) return;
+        before.trash.set(entryId, entryBefore);
+        after.trash.set(entryId, entryAfter);
+      });
+      let changed = before.closedNotebooks.size > 0 || before.trash.size > 0;
+      pendingChange.forEach((original, itemId) => {
+        const current = this.getItemById(itemId);
+        const currentClone = current ? cloneItem(current) : null;
+        after.items.set(itemId, currentClone);
+        if (JSON.stringify(original) !== JSON.stringify(currentClone)) {
+          changed = true;
+        }
+      });
+
+      return changed ? { before, after } : null;
+    };
+  }
+
+  /**
+   * 批量执行多个操作：只保存一次、只通知一次，并作为一次可撤销的操作
+   * 只有通过 step 执行的修改归入本次批量操作，批量操作 await 期间其他地方发起的操作照常单独记录和保存
+   * @param operations - 每个修改都放在 step 中同步调用，如 await step(() => core.moveItem(...))
+   * @param options.recordHistory - 是否记入撤销历史（自动同步不需要记录，涉及的旧撤销记录会被丢弃）
+   */
+  async batch<T>(
+    label: string,
+    operations: (step: BatchStep) => Promise<T> | T,
+    options: { recordHistory?: boolean } = {}
+  ): Promise<T> {
+    // 在其他批量操作的步骤中调用：归入外层批量操作
+    if (this.activeBatch) {
+      return operations(this.activeBatch.step);
+    }
+
+    const changes: TreeChange[] = [];
+    const scope: BatchScope = {
+      changed: false,
+      step: operation => {
+        if (this.activeBatch === scope) return operation();
+        const outer = this.activeBatch;
+        const capture = this.beginCapture();
+        this.activeBatch = scope;
+        try {
+          return operation();
+        } finally {
+          this.activeBatch = outer;
+          // 失败时已完成的部分修改同样记录，便于撤销
+          const change = capture?.(true);
+          if (change) changes.push(change);
+        }
+      },
+    };
+
+    try {
+      return await operations(scope.step);
+    } finally {
+      if (changes.length > 0) {
+        const change = mergeChanges(changes);
+        if (options.recordHistory === false) {
+          this.history.discard(getChangedIds(change));
+        } else {
+          this.history.push({ label, ...change });
+        }
+      }
+      if (scope.changed) {
+        this.commit();
+      }
+    }
+  }
+
+  /**
+   * 将记录的状态应用到当前数据
+   */
+  private applySnapshot(snapshot: TreeSnapshot): void {
+    if (!this.data) return;
+    const data = this.data;
+
+    snapshot.items.forEach((item, itemId) => {
+      const index = data.items.findIndex(i => i.id === itemId);
+      if (item === null) {
+        if (index > -1) data.items.splice(index, 1);
+      } else if (index > -1) {
+        data.items[index] = cloneItem(item);
+      } else {
+        data.items.push(cloneItem(item));
+      }
+    });
+    snapshot.closedNotebooks.forEach((closed, notebookId) => {
+      const closedNotebooks = data.settings.closedNotebooks.filter(id => id !== notebookId);
+      data.settings.closedNotebooks = closed ? [...closedNotebooks, notebookId] : closedNotebooks;
+    });
+    snapshot.trash.forEach((entry, entryId) => {
+      const trash = data.trash.filter(trashEntry => trashEntry.id !== entryId);
+      data.trash = entry ? [...trash, entry] : trash;
+    });
+    this.index.rebuild(data.items);
+  }
+
+  /**
+   * 撤销上一次操作
+   * @param entryId - 只在下一个可撤销的操作仍是该记录时撤销（见 getUndoEntryId）
+   * @returns 被撤销的操作名称，没有可撤销的操作或已不是指定的记录时返回 null
+   */
+  async undo(entryId?: number): Promise<string | null> {
+    if (entryId !== undefined && this.history.peekUndoId() !== entryId) return null;
+    const entry = this.history.popUndo();
+    if (!entry) return null;
+
+    this.applySnapshot(entry.before);
+    this.commit();
+    return entry.label;
+  }
+
+  /**
+   * 重做上一次撤销的操作
+   * @returns 被重做的操作名称，没有可重做的操作时返回 null
+   */
+  async redo(): Promise<string | null> {
+    const entry = this.history.popRedo();
+    if (!entry) return null;
+
+    this.applySnapshot(entry.after);
+    this.commit();
+    return entry.label;
+  }
 
-  constructor() {
-    this.persistence = new FolderTreePersistence();
+  canUndo(): boolean {
+    return this.history.canUndo();
   }
 
   /**
-   * 初始化核心模块
+   * 下一个可撤销操作的记录编号，没有时返回 null
    */
-  async initialize(): Promise<boolean> {
-    try {
-      this.data = await this.persistence.loadData();
-      console.log("[Folder Tree] 核心模块初始化成功");
-      return true;
-    } catch (error) {
-      console.error("[Folder Tree] 核心模块初始化失败:", error);
-      return false;
-    }
+  getUndoEntryId(): number | null {
+    return this.history.peekUndoId();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
   }
 
   /**
-   * 获取当前数据
+   * 生成唯一ID
    */
-  getData(): FolderTreeData {
-    if (!this.data) {
-      throw new Error("数据未初始化");
-    }
-    return this.data;
+  private generateId(type: "notebook" | "document" | "folder"): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 8);
+    return `${type}_${timestamp}_${random}`;
   }
 
   /**
-   * 添加数据变化监听器
+   * 获取下一个排序号
    */
-  addChangeListener(listener: (data: FolderTreeData) => void): void {
-    this.listeners.push(listener);
+  private getNextOrder(parentId: string | null): number {
+    if (!this.data) return 0;
+    const siblings = this.index.getChildren(parentId);
+    return siblings.length > 0 ? siblings[siblings.length - 1].order + 1 : 0;
   }
 
   /**
-   * 移除数据变化监听器
+   * 项目能否包含子项：笔记本、文件夹，或已有子项的文档
    */
-  removeChangeListener(listener: (data: FolderTreeData) => void): void {
-    const index = this.listeners.indexOf(listener);
-    if (index > -1) {
-      this.listeners.splice(index, 1);
+  canContainItems(item: FolderItem): boolean {
+    return item.type === "notebook" || item.type === "folder" || this.index.getChildren(item.id).length > 0;
+  }
+
+  /**
+   * 检查 type 类型的项目能否放在 parent 下（parent 为 null 表示根级），不能时返回原因
+   * @param convertDocument - 没有子项的文档是否允许（随后会被转换为文件夹）
+   */
+  private getPlacementError(
+    type: FolderItem["type"],
+    parent: FolderItem | null,
+    convertDocument: boolean = false
+  ): string | null {
+    if (!parent) return null;
+    if (type === "notebook") {
+      return t("notebooks can only be at the top level");
+    }
+    if (!this.canContainItems(parent) && !(convertDocument && parent.type === "document")) {
+      return t("\"${name}\" cannot contain items", { name: parent.name });
     }
+    return null;
   }
 
   /**
-   * 通知数据变化
+   * 检查 ancestorId 是否为 item 自身或其祖先
    */
-  private notifyDataChange(): void {
-    if (this.data) {
-      this.listeners.forEach(listener => {
-        try {
-          listener(this.data!);
-        } catch (error) {
-          console.error("[Folder Tree] 监听器执行失败:", error);
-        }
-      });
+  private isSelfOrAncestor(ancestorId: string, item: FolderItem): boolean {
+    const visited = new Set<string>();
+    let current: FolderItem | null = item;
+    while (current && !visited.has(current.id)) {
+      if (current.id === ancestorId) return true;
+      visited.add(current.id);
+      current = current.parentId ? this.getItemById(current.parentId) : null;
     }
+    return false;
   }
 
   /**
-   * 保存数据
+   * 把项目加入父级的 children 列表
+   * 父级还没有列表时（已有子项的文档）按索引中的子项顺序建立，避免列表与实际子项不一致
    */
-  private async saveData(): Promise<boolean> {
-    if (!this.data) return false;
+  private addToChildrenList(parent: FolderItem, itemId: string, insertIndex?: number): void {
+    this.track(parent.id);
+    if (!parent.children) {
+      parent.children = this.index.getChildren(parent.id)
+        .map(child => child.id)
+        .filter(id => id !== itemId);
+    }
+    if (insertIndex !== undefined && insertIndex >= 0 && insertIndex <= parent.children.length) {
+      parent.children.splice(insertIndex, 0, itemId);
+    } else {
+      parent.children.push(itemId);
+    }
+  }
 
-    const success = await this.persistence.saveData(this.data);
-    if (success) {
-      this.notifyDataChange();
+  /**
+   * 根据父级的 children 列表重新计算排序号
+   */
+  private updateItemOrder(parentId: string | null): void {
+    if (!this.data) return;
+
+    if (parentId) {
+      const parent = this.getItemById(parentId);
+      if (parent && parent.children) {
+        parent.children.forEach((childId, index) => {
+          const child = this.getItemById(childId);
+          if (child && child.order !== index) {
+            this.track(child.id);
+            child.order = index;
+            this.index.update(child);
+          }
+        });
+      }
+    } else {
+      // 根级项目排序
+      this.index.getChildren(null).forEach((item, index) => {
+        if (item.order !== index) {
+          this.track(item.id);
+          item.order = index;
+          this.index.update(item);
+        }
+      });
     }
-    return success;
   }
 
   // ========== 项目操作（统一接口） ==========
@@ -95,96 +1167,529 @@ class FolderTreeCore {
     parentId: string | null = null,
     icon?: string,
     color?: string
-  ): Promise<FolderItem | null> {
-    const item = await this.persistence.createItem(name, type, blockId, parentId, icon, color);
-    if (item && this.data) {
-      // 重新加载完整数据以保持同步
-      this.data = await this.persistence.loadData();
-      // 触发UI更新
-      this.notifyDataChange();
+  ): Promise<OperationResult<FolderItem>> {
+    if (!this.data) return this.notInitialized(t("Create item"));
+    const data = this.data;
+    const parent = parentId ? this.getItemById(parentId) : null;
+    if (parentId && !parent) {
+      return this.itemNotFound(t("Create item"), parentId);
+    }
+    const placementError = this.getPlacementError(type, parent);
+    if (placementError) {
+      return this.failure(t("Create item"), "invalid-input", { reason: placementError });
+    }
+
+    const now = new Date().toISOString();
+    const item: FolderItem = {
+      id: this.generateId(type),
+      name,
+      blockId,
+      parentId: parentId || null,
+      order: this.getNextOrder(parentId || null),
+      type,
+      children: type === "folder" || type === "notebook" ? [] : undefined,
+      icon: icon || (type === "notebook" ? "ti ti-notebook" : type === "folder" ? "ti ti-folder" : "ti ti-cube"),
+      color,
+      created: now,
+      modified: now,
+    };
+
+    this.record(t("Create \"${name}\"", { name }), () => {
+      this.track(item.id);
+      data.items.push(item);
+      this.index.add(item);
+
+      // 更新父级的children列表
+      if (parent) {
+        this.addToChildrenList(parent, item.id);
+      }
+    });
+
+    this.commit();
+    return ok(item);
+  }
+
+  /**
+   * 删除项目（包括所有子项）
+   * 默认移到回收站；permanent 为 true 时直接彻底删除
+   */
+  async deleteItem(itemId: string, options: { permanent?: boolean } = {}): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Delete item"));
+    const target = this.getItemById(itemId);
+    if (!target) return this.itemNotFound(t("Delete item"), itemId);
+
+    this.record(t("Delete \"${name}\"", { name: target.name }), () => this.removeSubtree(target, !!options.permanent));
+
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 删除多个项目，作为一次可撤销的操作
+   * @returns 删除的项目数量（不含随祖先一起删除的项目）
+   */
+  async deleteItems(
+    itemIds: string[],
+    options: { permanent?: boolean; label?: string } = {}
+  ): Promise<OperationResult<number>> {
+    if (!this.data) return this.notInitialized(t("Delete item"));
+
+    const removed = this.record(options.label || t("Delete ${count} items", { count: String(itemIds.length) }), () => {
+      let count = 0;
+      itemIds.forEach(itemId => {
+        // 祖先已被删除的项目会随祖先一起移除
+        const target = this.getItemById(itemId);
+        if (!target) return;
+        this.removeSubtree(target, !!options.permanent);
+        count++;
+      });
+      return count;
+    });
+
+    if (removed > 0) {
+      this.commit();
     }
-    return item;
+    return ok(removed);
   }
 
   /**
-   * 删除项目
+   * 移除项目及其子项（移到回收站或彻底删除），需在 record 中调用
    */
-  async deleteItem(itemId: string): Promise<boolean> {
-    const success = await this.persistence.deleteItem(itemId);
-    if (success && this.data) {
-      // 重新加载数据以保持同步
-      this.data = await this.persistence.loadData();
-      await this.saveData();
+  private removeSubtree(target: FolderItem, permanent: boolean): void {
+    const data = this.data!;
+    const itemId = target.id;
+    const removedIds = this.collectSubtreeIds(itemId);
+    const removedItems = removedIds
+      .map(id => this.getItemById(id))
+      .filter((item): item is FolderItem => item !== null);
+
+    if (!permanent) {
+      data.trash.push({
+        id: itemId,
+        parentId: target.parentId,
+        index: this.getSiblingIndex(target),
+        wasClosed: data.settings.closedNotebooks.includes(itemId),
+        deletedAt: new Date().toISOString(),
+        items: removedItems.map(item => cloneItem(item)),
+      });
+    }
+
+    // 从父级中移除
+    if (target.parentId) {
+      const parent = this.getItemById(target.parentId);
+      if (parent && parent.children) {
+        this.track(parent.id);
+        parent.children = parent.children.filter(childId => childId !== itemId);
+      }
     }
-    return success;
+
+    // 删除项目
+    const removedSet = new Set(removedIds);
+    removedIds.forEach(id => {
+      this.track(id);
+      this.index.remove(id);
+    });
+    data.items = data.items.filter(i => !removedSet.has(i.id));
+    data.settings.closedNotebooks = data.settings.closedNotebooks.filter(id => !removedSet.has(id));
   }
 
   /**
-   * 重命名项目
+   * 获取项目及其所有子项的ID（先父后子）
    */
-  async renameItem(itemId: string, newName: string): Promise<boolean> {
-    if (!this.data) return false;
+  private collectSubtreeIds(itemId: string): string[] {
+    const ids: string[] = [];
+    const visit = (id: string) => {
+      if (ids.includes(id)) return;
+      const item = this.getItemById(id);
+      if (!item) return;
+      ids.push(id);
+      (item.children || []).forEach(childId => visit(childId));
+    };
+    visit(itemId);
+    return ids;
+  }
 
-    const success = await this.persistence.renameItem(itemId, newName);
-    if (success) {
-      // 更新本地数据
-      const item = this.data.items.find(i => i.id === itemId);
-      if (item) {
-        item.name = newName;
-        item.modified = new Date().toISOString();
+  /**
+   * 获取项目在同级中的位置
+   */
+  private getSiblingIndex(item: FolderItem): number {
+    if (item.parentId) {
+      const parent = this.getItemById(item.parentId);
+      const index = parent?.children?.indexOf(item.id) ?? -1;
+      return index > -1 ? index : 0;
+    }
+    const rootIds = (this.data?.items || [])
+      .filter(i => i.parentId === null)
+      .sort((a, b) => a.order - b.order)
+      .map(i => i.id);
+    return Math.max(rootIds.indexOf(item.id), 0);
+  }
+
+  // ========== 回收站 ==========
+
+  /**
+   * 获取回收站记录（最近删除的在前）
+   */
+  getTrashEntries(): TrashEntry[] {
+    if (!this.data) return [];
+    return [...this.data.trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * 获取回收站记录对应的顶层项目
+   */
+  getTrashEntryItem(entry: TrashEntry): FolderItem | null {
+    return entry.items.find(item => item.id === entry.id) || null;
+  }
+
+  /**
+   * 从回收站恢复到原来的位置
+   * 原父级不存在时恢复到根级
+   */
+  async restoreFromTrash(entryId: string): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Restore from trash"));
+    const data = this.data;
+    const entry = data.trash.find(e => e.id === entryId);
+    const rootItem = entry ? this.getTrashEntryItem(entry) : null;
+    if (!entry || !rootItem) {
+      return this.failure(t("Restore from trash"), "not-found", { target: t("Trash entry ${id}", { id: entryId }) });
+    }
+
+    // 在恢复项目之前查找父级，避免恢复的项目影响父级能否容纳项目的判断
+    const parent = rootItem.type === "notebook" ? null : this.findRestoreParent(entry.parentId);
+
+    this.record(t("Restore \"${name}\"", { name: rootItem.name }), () => {
+      data.trash = data.trash.filter(e => e !== entry);
+
+      entry.items.forEach(item => {
+        if (this.getItemById(item.id)) return;
+        this.track(item.id);
+        const restoredItem = cloneItem(item);
+        data.items.push(restoredItem);
+        this.index.add(restoredItem);
+      });
+
+      const restored = this.getItemById(entry.id)!;
+
+      if (parent) {
+        this.track(parent.id);
+        if (!parent.children) parent.children = [];
+        // 恢复到原父级时回到原来的位置，恢复到上级时放在末尾
+        const index = parent.id === entry.parentId ? Math.min(entry.index, parent.children.length) : parent.children.length;
+        parent.children.splice(index, 0, restored.id);
+        restored.parentId = parent.id;
+        this.index.update(restored);
+        this.updateItemOrder(parent.id);
+      } else {
+        // 笔记本或找不到可用的祖先：恢复到根级原来的位置
+        restored.parentId = null;
+        this.index.update(restored);
+        const rootItems = this.index.getChildren(null).filter(i => i.id !== restored.id);
+        rootItems.splice(Math.min(entry.index, rootItems.length), 0, restored);
+        rootItems.forEach((item, index) => {
+          if (item.order !== index) {
+            this.track(item.id);
+            item.order = index;
+            this.index.update(item);
+          }
+        });
+      }
+
+      if (entry.wasClosed && restored.type === "notebook" && !data.settings.closedNotebooks.includes(restored.id)) {
+        data.settings.closedNotebooks.push(restored.id);
       }
-      await this.saveData();
+    });
+
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 查找恢复回收站项目时的父级：原父级不存在或不能容纳项目时逐级向上查找最近的可用祖先
+   * （已在回收站中的祖先按其删除前的父级继续查找）
+   * @returns 找不到时为 null，表示恢复到根级
+   */
+  private findRestoreParent(parentId: string | null): FolderItem | null {
+    const trashedItems = new Map<string, FolderItem>();
+    this.data?.trash.forEach(entry => entry.items.forEach(item => trashedItems.set(item.id, item)));
+
+    const visited = new Set<string>();
+    let currentId = parentId;
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const item = this.getItemById(currentId);
+      if (item && (item.type === "folder" || item.type === "notebook")) return item;
+      currentId = (item || trashedItems.get(currentId))?.parentId ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * 从回收站彻底删除
+   */
+  async deleteFromTrash(entryId: string): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Delete permanently"));
+    const data = this.data;
+    const entry = data.trash.find(e => e.id === entryId);
+    if (!entry) {
+      return this.failure(t("Delete permanently"), "not-found", { target: t("Trash entry ${id}", { id: entryId }) });
+    }
+
+    const name = this.getTrashEntryItem(entry)?.name ?? entryId;
+    this.record(t("Permanently delete \"${name}\"", { name }), () => {
+      data.trash = data.trash.filter(e => e !== entry);
+    });
+
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 清空回收站
+   */
+  async emptyTrash(): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Empty trash"));
+    const data = this.data;
+    if (data.trash.length === 0) return ok();
+
+    this.record(t("Empty trash"), () => {
+      data.trash = [];
+    });
+
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 获取回收站保留天数
+   */
+  getTrashRetentionDays(): number {
+    return this.data?.settings.trashRetentionDays ?? 30;
+  }
+
+  /**
+   * 设置回收站保留天数，并立即清理过期记录
+   */
+  async setTrashRetentionDays(days: number): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Set trash retention"));
+    if (!Number.isFinite(days) || days < 1) {
+      return this.failure(t("Set trash retention"), "invalid-input", { reason: t("the number of days must be at least 1") });
+    }
+
+    this.data.settings.trashRetentionDays = Math.floor(days);
+    // 清理记入撤销历史，否则撤销之前的操作时会从旧快照中恢复出已清理的回收站记录
+    this.record(t("Set trash retention"), () => this.purgeExpiredTrash());
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 清理超过保留期限的回收站记录（在 record 中调用时记入撤销历史）
+   * @returns 清理的记录数量
+   */
+  purgeExpiredTrash(): number {
+    if (!this.data) return 0;
+
+    const cutoff = Date.now() - this.getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+    const before = this.data.trash.length;
+    this.data.trash = this.data.trash.filter(entry => new Date(entry.deletedAt).getTime() >= cutoff);
+    const purged = before - this.data.trash.length;
+    if (purged > 0) {
+      console.log("[Folder Tree] 已清理过期的回收站记录:", purged);
+    }
+    return purged;
+  }
+
+  /**
+   * 重命名项目
+   */
+  async renameItem(itemId: string, newName: string): Promise<OperationResult> {
+    const item = this.getItemById(itemId);
+    if (!item) return this.itemNotFound(t("Rename"), itemId);
+    if (!newName.trim()) {
+      return this.failure(t("Rename"), "invalid-input", { reason: t("the name cannot be empty") });
+    }
+    return this.applyItemUpdate(t("Rename \"${name}\"", { name: item.name }), item, { name: newName });
+  }
+
+  /**
+   * 更新项目的部分属性
+   * @param options.recordHistory - 是否记入撤销历史（自动同步的属性不需要记录）
+   */
+  async updateItem(
+    itemId: string,
+    updates: Partial<FolderItem>,
+    options: { recordHistory?: boolean } = {}
+  ): Promise<OperationResult> {
+    const item = this.getItemById(itemId);
+    if (!item) return this.itemNotFound(t("Update item"), itemId);
+
+    if (options.recordHistory === false) {
+      Object.assign(item, updates);
+      item.modified = new Date().toISOString();
+      this.index.update(item);
+      this.commit();
+      return ok();
     }
-    return success;
+    return this.applyItemUpdate(t("Edit \"${name}\"", { name: item.name }), item, updates);
+  }
+
+  /**
+   * 以可撤销的方式更新项目属性
+   */
+  private applyItemUpdate(label: string, item: FolderItem, updates: Partial<FolderItem>): OperationResult {
+    this.record(label, () => {
+      this.track(item.id);
+      Object.assign(item, updates);
+      item.modified = new Date().toISOString();
+      this.index.update(item);
+    });
+
+    this.commit();
+    return ok();
   }
 
   /**
    * 移动项目
+   * 笔记本只能在根级，只有笔记本、文件夹和已有子项的文档可以包含项目，且不能移动到自身或其子项中
+   * @param options.convertTarget - 目标是没有子项的文档时，先将其转换为文件夹再移入
    */
   async moveItem(
     itemId: string,
     newParentId: string | null,
-    insertIndex?: number
-  ): Promise<boolean> {
-    const success = await this.persistence.moveItem(itemId, newParentId, insertIndex);
-    if (success && this.data) {
-      // 重新加载数据以保持同步
-      this.data = await this.persistence.loadData();
-      this.notifyDataChange();
+    insertIndex?: number,
+    options: { convertTarget?: boolean } = {}
+  ): Promise<OperationResult> {
+    const checked = this.checkMove(itemId, newParentId, options);
+    if (!checked.ok) return checked;
+    const item = this.getItemById(itemId)!;
+    const newParent = newParentId ? this.getItemById(newParentId) : null;
+    const convertParent = !!newParent && !this.canContainItems(newParent);
+
+    this.record(t("Move \"${name}\"", { name: item.name }), () => {
+      this.track(item.id);
+
+      // 从旧父级移除
+      if (item.parentId) {
+        const oldParent = this.getItemById(item.parentId);
+        if (oldParent && oldParent.children) {
+          this.track(oldParent.id);
+          oldParent.children = oldParent.children.filter(id => id !== itemId);
+        }
+      }
+
+      // 更新父级
+      item.parentId = newParentId;
+      this.index.update(item);
+
+      // 添加到新父级（没有子项的文档先转换为文件夹）
+      if (newParent) {
+        if (convertParent) {
+          this.track(newParent.id);
+          newParent.type = "folder";
+          newParent.modified = new Date().toISOString();
+        }
+        this.addToChildrenList(newParent, itemId, insertIndex);
+      }
+
+      // 重新计算排序
+      this.updateItemOrder(newParentId);
+    });
+
+    this.commit();
+    return ok();
+  }
+
+  /**
+   * 检查能否移动项目（规则同 moveItem，不修改数据），用于多个项目一起移动前先全部校验
+   */
+  checkMove(itemId: string, newParentId: string | null, options: { convertTarget?: boolean } = {}): OperationResult {
+    const item = this.getItemById(itemId);
+    if (!item) return this.itemNotFound(t("Move item"), itemId);
+    const newParent = newParentId ? this.getItemById(newParentId) : null;
+    if (newParentId && !newParent) {
+      return this.itemNotFound(t("Move item"), newParentId);
+    }
+    if (newParent && this.isSelfOrAncestor(item.id, newParent)) {
+      return this.failure(t("Move item"), "cycle", { name: item.name });
     }
-    return success;
+    const placementError = this.getPlacementError(item.type, newParent, !!options.convertTarget);
+    if (placementError) {
+      return this.failure(t("Move item"), "invalid-move", { name: item.name, reason: placementError });
+    }
+    return ok();
   }
 
   /**
    * 重新排序项目
+   * @param itemIds - 同级项目的新顺序，可以只包含部分同级项目
    */
-  async reorderItems(parentId: string | null, itemIds: string[]): Promise<boolean> {
-    if (!this.data) return false;
-
-    const success = await this.persistence.reorderItems(parentId, itemIds);
-    if (success) {
-      // 重新加载数据以保持同步
-      this.data = await this.persistence.loadData();
-      this.notifyDataChange();
+  async reorderItems(parentId: string | null, itemIds: string[], label: string = t("Sort")): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Sort"));
+    if (parentId && !this.getItemById(parentId)) {
+      return this.itemNotFound(t("Sort"), parentId);
     }
-    return success;
+    const missingId = itemIds.find(itemId => !this.getItemById(itemId));
+    if (missingId) {
+      return this.itemNotFound(t("Sort"), missingId);
+    }
+    // 排序只调整同一父级下的顺序，不能借此移动项目
+    const foreign = itemIds.map(itemId => this.getItemById(itemId)!).find(item => item.parentId !== parentId);
+    if (foreign) {
+      return this.failure(t("Sort"), "invalid-move", {
+        name: foreign.name,
+        reason: t("it is not in the folder being sorted"),
+      });
+    }
+
+    // 没有列出的同级项目（如根级中已关闭的笔记本）保持原来的位置，其余位置按 itemIds 的顺序填入，避免排序号重复
+    const listed = new Set(itemIds);
+    const remaining = [...listed];
+    const orderedIds = this.getItemChildren(parentId).map(sibling => listed.has(sibling.id) ? remaining.shift()! : sibling.id);
+
+    this.record(label, () => {
+      // 更新父级的子项目列表
+      if (parentId) {
+        const parent = this.getItemById(parentId);
+        if (parent) {
+          this.track(parent.id);
+          parent.children = [...orderedIds];
+        }
+      }
+
+      // 更新所有项目的排序字段
+      orderedIds.forEach((itemId, index) => {
+        const item = this.getItemById(itemId);
+        if (item && item.order !== index) {
+          this.track(item.id);
+          item.order = index;
+          this.index.update(item);
+        }
+      });
+    });
+
+    this.commit();
+    return ok();
   }
 
   /**
    * 确保指定项目为文件夹
    */
-  async ensureFolder(itemId: string): Promise<boolean> {
-    if (!this.data) return false;
-    const item = this.data.items.find(i => i.id === itemId);
-    if (!item) return false;
-
-    if (item.type !== "folder") {
-      item.type = "folder";
+  async ensureFolder(itemId: string): Promise<OperationResult> {
+    const item = this.getItemById(itemId);
+    if (!item) return this.itemNotFound(t("Convert to folder"), itemId);
+
+    this.record(t("Convert \"${name}\" to a folder", { name: item.name }), () => {
+      this.track(item.id);
+      if (item.type !== "folder") {
+        item.type = "folder";
+        item.modified = new Date().toISOString();
+      }
       if (!item.children) item.children = [];
-      return await this.saveData();
-    }
-    if (!item.children) item.children = [];
-    return await this.saveData();
+    });
+
+    this.commit();
+    return ok();
   }
 
   // ========== 兼容性方法（向后兼容） ==========
@@ -192,28 +1697,28 @@ class FolderTreeCore {
   /**
    * 创建笔记本（兼容性方法）
    */
-  async createNotebook(name: string): Promise<FolderItem | null> {
+  async createNotebook(name: string): Promise<OperationResult<FolderItem>> {
     return this.createItem(name, "notebook");
   }
 
   /**
    * 删除笔记本（兼容性方法）
    */
-  async deleteNotebook(notebookId: string): Promise<boolean> {
+  async deleteNotebook(notebookId: string): Promise<OperationResult> {
     return this.deleteItem(notebookId);
   }
 
   /**
    * 重命名笔记本（兼容性方法）
    */
-  async renameNotebook(notebookId: string, newName: string): Promise<boolean> {
+  async renameNotebook(notebookId: string, newName: string): Promise<OperationResult> {
     return this.renameItem(notebookId, newName);
   }
 
   /**
    * 重新排序笔记本（兼容性方法）
    */
-  async reorderNotebooks(notebookIds: string[]): Promise<boolean> {
+  async reorderNotebooks(notebookIds: string[]): Promise<OperationResult> {
     return this.reorderItems(null, notebookIds);
   }
 
@@ -227,47 +1732,38 @@ class FolderTreeCore {
     type: "document" | "folder" = "document",
     icon?: string,
     color?: string
-  ): Promise<FolderItem | null> {
+  ): Promise<OperationResult<FolderItem>> {
     return this.createItem(name, type, blockId, parentId, icon, color);
   }
 
   /**
    * 删除文档（兼容性方法）
    */
-  async deleteDocument(documentId: string): Promise<boolean> {
+  async deleteDocument(documentId: string): Promise<OperationResult> {
     return this.deleteItem(documentId);
   }
 
   /**
    * 重命名文档（兼容性方法）
    */
-  async renameDocument(documentId: string, newName: string): Promise<boolean> {
+  async renameDocument(documentId: string, newName: string): Promise<OperationResult> {
     return this.renameItem(documentId, newName);
   }
 
   /**
    * 更新文档图标
    */
-  async updateDocumentIcon(documentId: string, icon: string): Promise<boolean> {
-    if (!this.data) return false;
-    
-    const item = this.data.items.find(i => i.id === documentId);
-    if (!item) {
-      console.error('[Folder Tree] 文档不存在:', documentId);
-      return false;
-    }
-    
-    // 更新图标
-    item.icon = icon;
-    item.modified = new Date().toISOString();
-    
-    // 保存到持久化
-    const success = await this.persistence.updateItem(documentId, { icon });
-    if (success) {
-      this.notifyDataChange();
+  async updateDocumentIcon(
+    documentId: string,
+    icon: string,
+    options: { recordHistory?: boolean } = {}
+  ): Promise<OperationResult> {
+    const item = this.getItemById(documentId);
+    if (!item) return this.itemNotFound(t("Change icon"), documentId);
+    if (options.recordHistory === false) {
+      return this.updateItem(documentId, { icon }, options);
     }
-    
-    return success;
+    return this.applyItemUpdate(t("Change the icon of \"${name}\"", { name: item.name }), item, { icon });
   }
 
   /**
@@ -276,9 +1772,10 @@ class FolderTreeCore {
   async moveDocument(
     documentId: string,
     newParentId: string,
-    insertIndex?: number
-  ): Promise<boolean> {
-    return this.moveItem(documentId, newParentId, insertIndex);
+    insertIndex?: number,
+    options: { convertTarget?: boolean } = {}
+  ): Promise<OperationResult> {
+    return this.moveItem(documentId, newParentId, insertIndex, options);
   }
 
   // ========== 设置操作 ==========
@@ -290,7 +1787,8 @@ class FolderTreeCore {
     if (!this.data) return false;
 
     this.data.settings.expandedItems = ids;
-    return await this.persistence.saveSettings(this.data.settings);
+    this.flush();
+    return true;
   }
 
   /**
@@ -300,7 +1798,28 @@ class FolderTreeCore {
     if (!this.data) return false;
 
     this.data.settings.selectedItems = ids;
-    return await this.persistence.saveSettings(this.data.settings);
+    this.flush();
+    return true;
+  }
+
+  /**
+   * 最近添加块的目标（已不存在或不能包含子项的会被跳过）
+   */
+  getRecentTargets(): FolderItem[] {
+    return (this.data?.settings.recentTargets || [])
+      .map(id => this.getItemById(id))
+      .filter((item): item is FolderItem => !!item && this.canContainItems(item));
+  }
+
+  /**
+   * 记录最近添加块的目标
+   */
+  private addRecentTarget(itemId: string): void {
+    if (!this.data) return;
+    const recent = this.data.settings.recentTargets.filter(id => id !== itemId);
+    recent.unshift(itemId);
+    this.data.settings.recentTargets = recent.slice(0, this.MAX_RECENT_TARGETS);
+    this.flush();
   }
 
   /**
@@ -313,53 +1832,54 @@ class FolderTreeCore {
   /**
    * 关闭笔记本
    */
-  async closeNotebook(notebookId: string): Promise<boolean> {
-    if (!this.data) return false;
+  async closeNotebook(notebookId: string): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Close notebook"));
 
     const notebook = this.getItemById(notebookId);
-    if (!notebook || notebook.type !== 'notebook') {
-      console.error('[Folder Tree] 笔记本不存在或类型不正确:', notebookId);
-      return false;
+    if (!notebook) return this.itemNotFound(t("Close notebook"), notebookId);
+    if (notebook.type !== 'notebook') {
+      return this.failure(t("Close notebook"), "invalid-input", { reason: t("only notebooks can be closed") });
     }
 
     // 如果已经关闭，不重复添加
     if (this.data.settings.closedNotebooks.includes(notebookId)) {
-      return true;
+      return ok();
     }
 
-    this.data.settings.closedNotebooks.push(notebookId);
-    const success = await this.persistence.saveSettings(this.data.settings);
-    if (success) {
-      this.notifyDataChange();
-    }
-    return success;
+    const closedNotebooks = this.data.settings.closedNotebooks;
+    this.record(t("Close \"${name}\"", { name: notebook.name }), () => {
+      closedNotebooks.push(notebookId);
+    });
+    this.commit();
+    return ok();
   }
 
   /**
    * 恢复笔记本（取消关闭）
    */
-  async restoreNotebook(notebookId: string): Promise<boolean> {
-    if (!this.data) return false;
+  async restoreNotebook(notebookId: string): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Restore notebook"));
 
     const index = this.data.settings.closedNotebooks.indexOf(notebookId);
     if (index === -1) {
-      return true; // 如果不在关闭列表中，认为已经恢复
+      return ok(); // 如果不在关闭列表中，认为已经恢复
     }
 
-    this.data.settings.closedNotebooks.splice(index, 1);
-    const success = await this.persistence.saveSettings(this.data.settings);
-    if (success) {
-      this.notifyDataChange();
-    }
-    return success;
+    const closedNotebooks = this.data.settings.closedNotebooks;
+    const notebook = this.getItemById(notebookId);
+    this.record(t("Restore \"${name}\"", { name: notebook?.name ?? notebookId }), () => {
+      closedNotebooks.splice(index, 1);
+    });
+    this.commit();
+    return ok();
   }
 
   /**
    * 对指定项目的子项进行自然排序
    * @param parentId - 父项目ID，如果为null则对根级项目排序
    */
-  async naturalSortChildren(parentId: string | null): Promise<boolean> {
-    if (!this.data) return false;
+  async naturalSortChildren(parentId: string | null): Promise<OperationResult> {
+    if (!this.data) return this.notInitialized(t("Sort naturally"));
 
     // 获取所有子项
     // 如果 parentId 为 null，获取根级项目；否则获取指定项目的子项
@@ -368,7 +1888,7 @@ class FolderTreeCore {
       : this.getItemChildren(parentId);
     
     if (children.length === 0) {
-      return true; // 没有子项，无需排序
+      return ok(); // 没有子项，无需排序
     }
 
     // 自然排序函数：能够正确处理数字
@@ -411,7 +1931,7 @@ class FolderTreeCore {
     const sortedIds = sortedChildren.map(item => item.id);
 
     // 使用现有的reorderItems方法更新顺序
-    return await this.reorderItems(parentId, sortedIds);
+    return await this.reorderItems(parentId, sortedIds, t("Sort naturally"));
   }
 
   /**
@@ -442,7 +1962,7 @@ class FolderTreeCore {
       // 保留当前的非笔记本展开项，添加新的笔记本展开项
       newExpanded = [
         ...currentExpanded.filter(id => {
-          const item = this.data?.items.find(i => i.id === id);
+          const item = this.getItemById(id);
           return item?.type !== "notebook";
         }),
         ...ids
@@ -451,7 +1971,7 @@ class FolderTreeCore {
       // 保留当前的笔记本展开项，添加新的文件夹展开项
       newExpanded = [
         ...currentExpanded.filter(id => {
-          const item = this.data?.items.find(i => i.id === id);
+          const item = this.getItemById(id);
           return item?.type === "notebook";
         }),
         ...ids
@@ -467,7 +1987,7 @@ class FolderTreeCore {
   getExpandedNotebooks(): string[] {
     const expanded = this.getExpandedItems();
     return expanded.filter(id => {
-      const item = this.data?.items.find(i => i.id === id);
+      const item = this.getItemById(id);
       return item?.type === "notebook";
     });
   }
@@ -478,7 +1998,7 @@ class FolderTreeCore {
   getExpandedFolders(): string[] {
     const expanded = this.getExpandedItems();
     return expanded.filter(id => {
-      const item = this.data?.items.find(i => i.id === id);
+      const item = this.getItemById(id);
       return item?.type === "folder";
     });
   }
@@ -491,36 +2011,37 @@ class FolderTreeCore {
    * 根据ID获取项目
    */
   getItemById(id: string): FolderItem | null {
-    return this.data?.items.find(item => item.id === id) || null;
+    return this.data ? this.index.get(id) : null;
   }
 
   /**
-   * 获取项目的子项目
+   * 查找引用指定块的所有项目
    */
-  getItemChildren(itemId: string): FolderItem[] {
-    if (!this.data) return [];
+  findItemsByBlockId(blockId: string): FolderItem[] {
+    return this.data ? this.index.findByBlockId(blockId) : [];
+  }
 
-    const children = this.data.items.filter(item => item.parentId === itemId);
-    return children.sort((a, b) => a.order - b.order);
+  /**
+   * 获取项目的子项目（按 order 排序，itemId 为 null 时返回全部根级项目）
+   */
+  getItemChildren(itemId: string | null): FolderItem[] {
+    if (!this.data) return [];
+    return this.index.getChildren(itemId);
   }
 
   /** 根级项目（包括笔记本和文档，排除已关闭的笔记本） */
   getRootItems(): FolderItem[] {
     if (!this.data) return [];
     const closedNotebooks = new Set(this.getClosedNotebooks());
-    const items = this.data.items.filter(item => 
-      item.parentId === null && !closedNotebooks.has(item.id)
-    );
-    return items.sort((a, b) => a.order - b.order);
+    return this.index.getChildren(null).filter(item => !closedNotebooks.has(item.id));
   }
 
   /** 获取已关闭的笔记本列表 */
   getClosedNotebookItems(): FolderItem[] {
     if (!this.data) return [];
-    const closedNotebooks = this.getClosedNotebooks();
-    const items = this.data.items.filter(item => 
-      closedNotebooks.includes(item.id)
-    );
+    const items = this.getClosedNotebooks()
+      .map(id => this.index.get(id))
+      .filter((item): item is FolderItem => !!item);
     return items.sort((a, b) => a.order - b.order);
   }
 
@@ -578,15 +2099,12 @@ class FolderTreeCore {
   }
 
   /**
-   * 搜索项目
+   * 搜索项目（名称包含关键词，中文名称也可以用拼音首字母匹配）
    */
   searchItems(keyword: string): FolderItem[] {
     if (!this.data || !keyword.trim()) return [];
 
-    const lowerKeyword = keyword.toLowerCase();
-    return this.data.items.filter(item =>
-      item.name.toLowerCase().includes(lowerKeyword)
-    );
+    return this.data.items.filter(item => matchName(item.name, keyword) !== null);
   }
 
   /**
@@ -600,47 +2118,74 @@ class FolderTreeCore {
   /**
    * 从块ID添加文档到笔记本（兼容性方法）
    */
-  async addDocumentToNotebook(blockId: string, notebookId: string): Promise<boolean> {
-    if (!this.data) return false;
+  async addDocumentToNotebook(blockId: string, notebookId: string): Promise<OperationResult> {
+    const result = await this.addBlocksToNotebook([blockId], notebookId);
+    if (!result.ok) return result;
+    return result.value > 0 ? ok() : this.failure(t("Add to folder tree"), "block-missing", { blockId });
+  }
 
-    try {
-      // 获取块信息
-      const block = await (window as any).orca.invokeBackend('get-block', blockId);
-      if (!block) {
-        console.error('Block not found:', blockId);
-        return false;
-      }
-
-      const blockName = block.text
-        ? (block.text.length > 50 ? block.text.substring(0, 50) + '...' : block.text)
-        : '未命名文档';
-
-      // 创建文档
-      const document = await this.createDocument(blockName, blockId, notebookId, 'document');
-      if (document) {
-        // 确保笔记本展开
-        const expandedItems = this.getExpandedItems();
-        if (!expandedItems.includes(notebookId)) {
-          expandedItems.push(notebookId);
-          await this.setExpandedState(expandedItems);
+  /**
+   * 按顺序把多个块添加到笔记本或文件夹（一次查询、一次保存）
+   * @returns 成功添加的数量（已不存在的块会跳过）
+   */
+  async addBlocksToNotebook(blockIds: string[], notebookId: string): Promise<OperationResult<number>> {
+    return this.queue.run(async () => {
+      if (!this.data) return this.notInitialized(t("Add to folder tree"));
+      if (blockIds.length === 0) return ok(0);
+      if (!this.getItemById(notebookId)) return this.itemNotFound(t("Add to folder tree"), notebookId);
+
+      try {
+        // 获取块信息
+        const blocks = await (window as any).orca.invokeBackend('get-blocks', blockIds.map(id => Number(id)));
+        const blockMap = new Map<string, any>();
+        (blocks || []).forEach((block: any) => {
+          if (block && block.id != null) blockMap.set(String(block.id), block);
+        });
+
+        const added = await this.batch(t("Add ${count} blocks", { count: String(blockIds.length) }), async step => {
+          let count = 0;
+          for (const blockId of blockIds) {
+            const block = blockMap.get(blockId);
+            if (!block) {
+              console.error('Block not found:', blockId);
+              continue;
+            }
+
+            const blockName = this.getBlockName(block.text);
+
+            // 创建文档
+            if ((await step(() => this.createDocument(blockName, blockId, notebookId, 'document'))).ok) {
+              count++;
+            }
+          }
+          return count;
+        });
+
+        if (added > 0) {
+          this.addRecentTarget(notebookId);
+
+          // 确保笔记本展开
+          const expandedItems = this.getExpandedItems();
+          if (!expandedItems.includes(notebookId)) {
+            expandedItems.push(notebookId);
+            await this.setExpandedState(expandedItems);
+          }
         }
 
-        return true;
+        return ok(added);
+      } catch (error) {
+        console.error('Add document to notebook error:', error);
+        return this.failure<number>(t("Add to folder tree"), "backend-failure", { reason: describeError(error) });
       }
-
-      return false;
-    } catch (error) {
-      console.error('Add document to notebook error:', error);
-      return false;
-    }
+    });
   }
 
   /**
    * 重新排序文档（兼容性方法）
    */
-  async reorderDocuments(parentId: string, documentIds: string[]): Promise<boolean> {
+  async reorderDocuments(parentId: string, documentIds: string[]): Promise<OperationResult> {
     return this.reorderItems(parentId, documentIds);
   }
 }
 
-export { FolderTreeCore };
\ No newline at end of file
+export { FolderTreeCore, type BatchStep };
\ No newline at end of file
@@ -4,6 +4,8 @@
  */
 
 import { FolderTreeCore } from "./folder-tree-core";
+import { shouldNotify, type NotificationType } from "./folder-tree-settings";
+import { t } from "./libs/l10n";
 
 interface DragDropManager {
   core: FolderTreeCore;
@@ -36,6 +38,15 @@ class FolderTreeDragDrop {
     document.addEventListener("dragleave", this.handleGlobalDragLeave.bind(this));
   }
 
+  /**
+   * 按设置的提示级别显示提示
+   */
+  private notify(type: NotificationType, message: string): void {
+    if (shouldNotify(this.core.getSettings().notificationLevel, type)) {
+      orca.notify(type, message);
+    }
+  }
+
   /**
    * 全局拖拽悬停处理
    */
@@ -123,39 +134,41 @@ class FolderTreeDragDrop {
   /**
    * 处理块拖拽放置
    */
-  private async handleBlockDrop(blockId: string, targetId: string): Promise<void> {
-    try {
-      // 获取块信息
-      const block = await orca.invokeBackend("get-block", blockId);
-      if (!block) {
-        orca.notify("error", "无法获取块信息");
-        return;
-      }
-
-      // 获取块名称（使用文本内容的前50个字符）
-      const blockName = block.text
-        ? (block.text.length > 50 ? block.text.substring(0, 50) + "..." : block.text)
-        : "未命名文档";
-
-      // 创建文档
-      const document = await this.core.createDocument(blockName, blockId, targetId, "document");
-      if (document) {
-        orca.notify("success", "文档导入成功");
+  private handleBlockDrop(blockId: string, targetId: string): Promise<void> {
+    // 读取块信息和创建条目之间有 await，排队执行
+    return this.core.enqueue(async () => {
+      try {
+        // 获取块信息
+        const block = await orca.invokeBackend("get-block", blockId);
+        if (!block) {
+          this.notify("error", t("Failed to get the block"));
+          return;
+        }
 
-        // 展开目标笔记本/文件夹
-        const expandedItems = this.core.getExpandedItems();
-        if (!expandedItems.includes(targetId)) {
-          await this.core.setExpandedState([...expandedItems, targetId]);
+        // 获取块名称（按设置的长度截断文本内容）
+        const blockName = this.core.getBlockName(block.text);
+
+        // 创建文档
+        const result = await this.core.createDocument(blockName, blockId, targetId, "document");
+        if (result.ok) {
+          this.notify("success", t("Document added"));
+
+          // 展开目标笔记本/文件夹
+          const expandedItems = this.core.getExpandedItems();
+          if (!expandedItems.includes(targetId)) {
+            await this.core.setExpandedState([...expandedItems, targetId]);
+          }
+        } else {
+          this.notify("error", result.error.message);
         }
-      } else {
-        orca.notify("error", "文档导入失败");
+      } catch (error) {
+        console.error("[Folder Tree] 导入块失败:", error);
+        this.notify("error", t("Failed to add the document"));
       }
-    } catch (error) {
-      console.error("[Folder Tree] 导入块失败:", error);
-      orca.notify("error", "文档导入失败");
-    }
+    });
   }
 
+
   /**
    * 重置拖拽状态
    */
@@ -0,0 +1,116 @@
+/**
+ * 文档树插件 - 错误模块
+ * 负责操作结果和错误类型的定义、错误提示文本，以及收集错误记录
+ */
+
+import { t } from "./libs/l10n";
+
+type FolderTreeErrorCode =
+  | "not-initialized" // 数据尚未加载
+  | "not-found" // 项目、回收站记录、备份或工作区不存在
+  | "invalid-input" // 参数无效（空名称、非法数值等）
+  | "invalid-move" // 不允许的移动或排序
+  | "cycle" // 移动到自身或自己的子项中
+  | "load-failed" // 数据加载失败，保存已暂停
+  | "storage-failure" // 读写存储失败
+  | "block-missing" // 对应的块不存在
+  | "backend-failure"; // 调用 Orca 后端失败
+
+// 错误提示（英文原文，通过 t() 翻译；${...} 为 details 中的参数）
+const ERROR_MESSAGES: Record<FolderTreeErrorCode, string> = {
+  "not-initialized": "The folder tree data has not been loaded yet",
+  "not-found": "${target} does not exist",
+  "invalid-input": "Invalid input: ${reason}",
+  "invalid-move": "Cannot move \"${name}\": ${reason}",
+  "cycle": "Cannot move \"${name}\" into itself or one of its subfolders",
+  "load-failed": "Saving is paused because the folder tree data failed to load. Restore a backup first",
+  "storage-failure": "Failed to save the folder tree: ${reason}",
+  "block-missing": "Block ${blockId} does not exist",
+  "backend-failure": "Orca request failed: ${reason}",
+};
+
+/**
+ * 文档树操作的错误，message 为当前语言的提示文本
+ */
+class FolderTreeError extends Error {
+  readonly code: FolderTreeErrorCode;
+  readonly details: Record<string, string>;
+
+  constructor(code: FolderTreeErrorCode, details: Record<string, string> = {}) {
+    super(t(ERROR_MESSAGES[code], details));
+    this.name = "FolderTreeError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * 操作结果：成功时带返回值，失败时带错误
+ */
+type OperationResult<T = void> = { ok: true; value: T } | { ok: false; error: FolderTreeError };
+
+function ok(): OperationResult<void>;
+function ok<T>(value: T): OperationResult<T>;
+function ok<T>(value?: T): OperationResult<T | undefined> {
+  return { ok: true, value };
+}
+
+function fail<T = never>(code: FolderTreeErrorCode, details: Record<string, string> = {}): OperationResult<T> {
+  return { ok: false, error: new FolderTreeError(code, details) };
+}
+
+/**
+ * 把任意异常转换为错误说明文本
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 一条错误记录
+ */
+interface ErrorLogEntry {
+  time: string;
+  operation: string; // 出错的操作，如"移动项目"
+  code: FolderTreeErrorCode;
+  message: string;
+}
+
+/**
+ * 错误记录（只保存在内存中，最新的在前）
+ */
+class FolderTreeErrorLog {
+  private readonly MAX_ENTRIES = 100;
+  private entries: ErrorLogEntry[] = [];
+
+  add(operation: string, error: FolderTreeError): ErrorLogEntry {
+    const entry: ErrorLogEntry = {
+      time: new Date().toISOString(),
+      operation,
+      code: error.code,
+      message: error.message,
+    };
+    this.entries.unshift(entry);
+    this.entries.length = Math.min(this.entries.length, this.MAX_ENTRIES);
+    return entry;
+  }
+
+  list(): ErrorLogEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export {
+  FolderTreeError,
+  FolderTreeErrorLog,
+  ok,
+  fail,
+  describeError,
+  type FolderTreeErrorCode,
+  type OperationResult,
+  type ErrorLogEntry,
+};
@@ -0,0 +1,204 @@
+/**
+ * 文档树插件 - 导出模块
+ * 负责将文档树（或其中的子树）导出为 JSON、OPML 和 Markdown 大纲
+ */
+
+import type { FolderTreeCore } from "./folder-tree-core";
+import type { FolderItem } from "./folder-tree-persistence";
+import { t } from "./libs/l10n";
+
+type ExportFormat = "json" | "opml" | "markdown";
+
+/**
+ * 导出的大纲节点
+ */
+interface ExportNode {
+  name: string;
+  type: "notebook" | "folder" | "document";
+  blockId: string | null;
+  icon?: string;
+  color?: string;
+  closed?: boolean; // 已关闭的笔记本
+  isQueryBlock?: boolean;
+  children: ExportNode[];
+}
+
+/**
+ * JSON 导出文件结构
+ */
+interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  items: ExportNode[];
+}
+
+const EXPORT_FORMAT = "orca-folder-tree";
+const EXPORT_VERSION = 1;
+
+class FolderTreeExporter {
+  private core: FolderTreeCore;
+
+  constructor(core: FolderTreeCore) {
+    this.core = core;
+  }
+
+  /**
+   * 导出子树（rootId 为 null 时导出整个文档树）
+   */
+  export(rootId: string | null, format: ExportFormat): { filename: string; content: string; mimeType: string } | null {
+    const root = rootId ? this.core.getItemById(rootId) : null;
+    if (rootId && !root) return null;
+
+    const title = root ? root.name : t("Folder Tree");
+    const nodes = root ? [this.buildNode(root)] : this.getAllRootItems().map(item => this.buildNode(item));
+    const baseName = this.sanitizeFilename(title);
+
+    switch (format) {
+      case "json":
+        return { filename: `${baseName}.json`, content: toJson(nodes, title), mimeType: "application/json" };
+      case "opml":
+        return { filename: `${baseName}.opml`, content: toOpml(nodes, title), mimeType: "text/x-opml" };
+      case "markdown":
+        return { filename: `${baseName}.md`, content: toMarkdown(nodes, title), mimeType: "text/markdown" };
+    }
+  }
+
+  /**
+   * 所有根级项目（包括已关闭的笔记本）
+   */
+  private getAllRootItems(): FolderItem[] {
+    return this.core.getData().items
+      .filter(item => item.parentId === null)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  private buildNode(item: FolderItem): ExportNode {
+    const node: ExportNode = {
+      name: item.name,
+      type: item.type,
+      blockId: item.blockId,
+      children: this.core.getItemChildren(item.id).map(child => this.buildNode(child)),
+    };
+    if (item.icon) node.icon = item.icon;
+    if (item.color) node.color = item.color;
+    if (item.type === "notebook" && this.core.getClosedNotebooks().includes(item.id)) node.closed = true;
+    if (item.isQueryBlock) node.isQueryBlock = true;
+    return node;
+  }
+
+  private sanitizeFilename(name: string): string {
+    return name.replace(/[\\/:*?"<>|]/g, "_").trim() || "folder-tree";
+  }
+}
+
+/**
+ * 导出为带版本号的 JSON
+ */
+function toJson(nodes: ExportNode[], title: string): string {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    items: nodes,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 导出为 OPML 2.0
+ * 文档节点带有 blockId 属性
+ */
+function toOpml(nodes: ExportNode[], title: string): string {
+  const renderOutline = (node: ExportNode, depth: number): string => {
+    const indent = "  ".repeat(depth + 2);
+    const attrs = [`text="${escapeXml(node.name)}"`, `_type="${node.type}"`];
+    if (node.blockId) {
+      attrs.push(`blockId="${escapeXml(node.blockId)}"`);
+    }
+    if (node.icon) attrs.push(`icon="${escapeXml(node.icon)}"`);
+    if (node.color) attrs.push(`color="${escapeXml(node.color)}"`);
+    if (node.closed) attrs.push(`closed="true"`);
+
+    if (node.children.length === 0) {
+      return `${indent}<outline ${attrs.join(" ")}/>`;
+    }
+    return [
+      `${indent}<outline ${attrs.join(" ")}>`,
+      ...node.children.map(child => renderOutline(child, depth + 1)),
+      `${indent}</outline>`,
+    ].join("\n");
+  };
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    ...nodes.map(node => renderOutline(node, 0)),
+    `  </body>`,
+    `</opml>`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * 导出为 Markdown 嵌套列表
+ * 文档写成 Orca 块引用 ((ID))，粘贴回 Orca 后可直接跳转
+ */
+function toMarkdown(nodes: ExportNode[], title: string): string {
+  const lines: string[] = [`# ${title}`, ""];
+
+  const renderNode = (node: ExportNode, depth: number) => {
+    const indent = "  ".repeat(depth);
+    const text = node.blockId ? `((${node.blockId}))` : escapeMarkdownText(node.name);
+    lines.push(`${indent}- ${text}`);
+    node.children.forEach(child => renderNode(child, depth + 1));
+  };
+
+  nodes.forEach(node => renderNode(node, 0));
+  lines.push("");
+  return lines.join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeMarkdownText(text: string): string {
+  return text.replace(/([\[\]\\])/g, "\\$1").replace(/\n/g, " ");
+}
+
+/**
+ * 以文件形式下载文本内容
+ */
+function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export {
+  FolderTreeExporter,
+  downloadTextFile,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  type ExportFormat,
+  type ExportNode,
+  type ExportFile,
+};
@@ -0,0 +1,159 @@
+/**
+ * 文档树插件 - 操作历史模块
+ * 负责记录树操作的前后状态，支持撤销和重做
+ */
+
+import type { FolderItem, TrashEntry } from "./folder-tree-persistence";
+
+/**
+ * 一次操作涉及的项目状态（null 表示该项目不存在）
+ * 只记录本次操作改动过的条目，撤销时逐条还原，不影响其他窗口同时做的修改
+ */
+interface TreeSnapshot {
+  items: Map<string, FolderItem | null>;
+  closedNotebooks: Map<string, boolean>; // 笔记本ID -> 是否已关闭
+  trash: Map<string, TrashEntry | null>; // 回收站记录创建后不再修改，可以直接共享引用
+}
+
+/**
+ * 一次修改前后的状态
+ */
+interface TreeChange {
+  before: TreeSnapshot;
+  after: TreeSnapshot;
+}
+
+/**
+ * 一条历史记录
+ */
+interface HistoryEntry extends TreeChange {
+  id: number; // 记录编号，用于确认待撤销的仍是同一次操作
+  label: string; // 操作名称，用于提示
+}
+
+class FolderTreeHistory {
+  private readonly MAX_ENTRIES = 100;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private nextId = 1;
+
+  /**
+   * 记录一次操作，新的操作会清空重做栈
+   */
+  push(entry: Omit<HistoryEntry, "id">): void {
+    this.undoStack.push({ ...entry, id: this.nextId++ });
+    if (this.undoStack.length > this.MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * 取出待撤销的记录
+   */
+  popUndo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /**
+   * 取出待重做的记录
+   */
+  popRedo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 下一个可撤销操作的记录编号
+   */
+  peekUndoId(): number | null {
+    return this.undoStack[this.undoStack.length - 1]?.id ?? null;
+  }
+
+  /**
+   * 下一个可撤销操作的名称
+   */
+  peekUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * 下一个可重做操作的名称
+   */
+  peekRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  /**
+   * 丢弃涉及指定条目的记录（这些条目已被其他窗口修改，旧状态不能再安全地应用）
+   * 最近一条涉及的记录以及必须先经过它才能到达的记录一并丢弃
+   */
+  discard(ids: Set<string>): void {
+    const touches = (entry: HistoryEntry) => [...getChangedIds(entry)].some(id => ids.has(id));
+    const undoIndex = this.undoStack.findLastIndex(touches);
+    if (undoIndex > -1) this.undoStack = this.undoStack.slice(undoIndex + 1);
+    const redoIndex = this.redoStack.findLastIndex(touches);
+    if (redoIndex > -1) this.redoStack = this.redoStack.slice(redoIndex + 1);
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+/**
+ * 一次修改涉及的项目、笔记本和回收站记录ID
+ */
+function getChangedIds(change: TreeChange): Set<string> {
+  const { items, closedNotebooks, trash } = change.before;
+  return new Set([...items.keys(), ...closedNotebooks.keys(), ...trash.keys()]);
+}
+
+/**
+ * 把依次发生的多次修改合并为一次：每个条目取第一次修改前和最后一次修改后的状态
+ */
+function mergeChanges(changes: TreeChange[]): TreeChange {
+  const merged: TreeChange = {
+    before: { items: new Map(), closedNotebooks: new Map(), trash: new Map() },
+    after: { items: new Map(), closedNotebooks: new Map(), trash: new Map() },
+  };
+  const mergeInto = <V>(before: Map<string, V>, after: Map<string, V>, change: { before: Map<string, V>; after: Map<string, V> }) => {
+    change.before.forEach((value, id) => {
+      if (!before.has(id)) before.set(id, value);
+    });
+    change.after.forEach((value, id) => after.set(id, value));
+  };
+
+  changes.forEach(({ before, after }) => {
+    mergeInto(merged.before.items, merged.after.items, { before: before.items, after: after.items });
+    mergeInto(merged.before.closedNotebooks, merged.after.closedNotebooks, { before: before.closedNotebooks, after: after.closedNotebooks });
+    mergeInto(merged.before.trash, merged.after.trash, { before: before.trash, after: after.trash });
+  });
+  return merged;
+}
+
+/**
+ * 复制项目（children 数组单独复制，避免共享引用）
+ */
+function cloneItem(item: FolderItem): FolderItem {
+  return {
+    ...item,
+    children: item.children ? [...item.children] : undefined,
+  };
+}
+
+export { FolderTreeHistory, cloneItem, getChangedIds, mergeChanges, type HistoryEntry, type TreeChange, type TreeSnapshot };
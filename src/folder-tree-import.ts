@@ -0,0 +1,445 @@
+/**
+ * 文档树插件 - 导入模块
+ * 负责解析 JSON、OPML 和 Markdown 大纲，并在文档树中创建对应的笔记本、文件夹和文档
+ */
+
+import type { FolderTreeCore, BatchStep } from "./folder-tree-core";
+import type { FolderItem } from "./folder-tree-persistence";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "./folder-tree-export";
+import { fetchExistingBlockIds, findBlockIdByAlias } from "./folder-tree-blocks";
+import { t } from "./libs/l10n";
+
+/**
+ * 解析后的大纲节点
+ */
+interface ImportNode {
+  name: string;
+  type?: "notebook" | "folder" | "document";
+  blockId?: string | null;
+  alias?: string; // 通过别名引用的块，导入时解析为块ID
+  unresolved?: boolean; // 引用了块但未解析到，仍按引用块的节点推断类型
+  icon?: string;
+  color?: string;
+  closed?: boolean;
+  children: ImportNode[];
+}
+
+/**
+ * 导入模式：合并到同名笔记本，或替换同名笔记本
+ */
+type ImportMode = "merge" | "replace";
+
+/**
+ * 导入结果摘要
+ */
+interface ImportSummary {
+  created: number;
+  skipped: number; // 合并时已存在而跳过的项目
+  unresolved: string[]; // 无法解析到块的条目名称
+  failed: Array<{ name: string; reason: string }>; // 创建失败的条目（其子项也未导入）
+}
+
+/**
+ * 根据文件名或内容解析导入文件
+ */
+function parseImportFile(filename: string, content: string): { title: string; nodes: ImportNode[] } {
+  const lowerName = filename.toLowerCase();
+  const trimmed = content.trim();
+
+  if (lowerName.endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return parseJson(trimmed);
+  }
+  if (lowerName.endsWith(".opml") || lowerName.endsWith(".xml") || trimmed.startsWith("<")) {
+    return parseOpml(trimmed);
+  }
+  return parseMarkdown(content);
+}
+
+/**
+ * 解析导出的 JSON 文件（也接受节点数组）
+ */
+function parseJson(content: string): { title: string; nodes: ImportNode[] } {
+  const raw = JSON.parse(content);
+
+  if (Array.isArray(raw)) {
+    return { title: "", nodes: raw.map(normalizeJsonNode) };
+  }
+  if (raw.format !== EXPORT_FORMAT || !Array.isArray(raw.items)) {
+    throw new Error(t("Not a JSON file exported from the folder tree"));
+  }
+  if (typeof raw.version === "number" && raw.version > EXPORT_VERSION) {
+    throw new Error(t("The import file version ${version} is newer than the supported version ${supported}", {
+      version: String(raw.version),
+      supported: String(EXPORT_VERSION),
+    }));
+  }
+  return { title: raw.title || "", nodes: raw.items.map(normalizeJsonNode) };
+}
+
+function normalizeJsonNode(raw: any): ImportNode {
+  return {
+    name: String(raw.name ?? ""),
+    type: raw.type === "notebook" || raw.type === "folder" || raw.type === "document" ? raw.type : undefined,
+    blockId: raw.blockId != null ? String(raw.blockId) : null,
+    alias: raw.alias,
+    icon: raw.icon,
+    color: raw.color,
+    closed: !!raw.closed,
+    children: Array.isArray(raw.children) ? raw.children.map(normalizeJsonNode) : [],
+  };
+}
+
+/**
+ * 解析 OPML 文件
+ */
+function parseOpml(content: string): { title: string; nodes: ImportNode[] } {
+  const doc = new DOMParser().parseFromString(content, "text/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new Error(t("Malformed OPML file"));
+  }
+
+  const body = doc.querySelector("opml > body");
+  if (!body) {
+    throw new Error(t("The OPML file has no body"));
+  }
+
+  const parseOutline = (el: Element): ImportNode => {
+    const text = el.getAttribute("text") ?? el.getAttribute("title") ?? "";
+    const ref = parseReference(text);
+    const url = el.getAttribute("url") || el.getAttribute("htmlUrl") || "";
+    const urlMatch = url.match(/^orca-block:(\d+)$/);
+    const type = el.getAttribute("_type");
+
+    return {
+      name: ref.name,
+      type: type === "notebook" || type === "folder" || type === "document" ? type : undefined,
+      blockId: el.getAttribute("blockId") || (urlMatch ? urlMatch[1] : null) || ref.blockId || null,
+      alias: ref.alias,
+      icon: el.getAttribute("icon") || undefined,
+      color: el.getAttribute("color") || undefined,
+      closed: el.getAttribute("closed") === "true",
+      children: Array.from(el.children)
+        .filter(child => child.tagName === "outline")
+        .map(parseOutline),
+    };
+  };
+
+  return {
+    title: doc.querySelector("opml > head > title")?.textContent || "",
+    nodes: Array.from(body.children)
+      .filter(child => child.tagName === "outline")
+      .map(parseOutline),
+  };
+}
+
+/**
+ * 解析 Markdown 嵌套列表
+ */
+function parseMarkdown(content: string): { title: string; nodes: ImportNode[] } {
+  let title = "";
+  const roots: ImportNode[] = [];
+  // 缩进宽度与节点的栈，用于确定层级
+  const stack: Array<{ indent: number; node: ImportNode }> = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\t/g, "  ");
+
+    const heading = line.match(/^#\s+(.+)$/);
+    if (heading && !title && roots.length === 0) {
+      title = heading[1].trim();
+      continue;
+    }
+
+    const listItem = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (!listItem) continue;
+
+    const indent = listItem[1].length;
+    const node: ImportNode = { ...parseReference(listItem[2].trim()), children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    if (stack.length === 0) {
+      roots.push(node);
+    } else {
+      stack[stack.length - 1].node.children.push(node);
+    }
+    stack.push({ indent, node });
+  }
+
+  return { title, nodes: roots };
+}
+
+/**
+ * 解析条目文本中的块引用
+ * 支持 ((ID))、[[别名]]，以及旧版导出的 [名称](orca-block:ID)
+ */
+function parseReference(text: string): { name: string; blockId?: string; alias?: string } {
+  const link = text.match(/^\[(.*)\]\(orca-block:(\d+)\)$/);
+  if (link) {
+    return { name: unescapeMarkdownText(link[1]), blockId: link[2] };
+  }
+
+  const blockRef = text.match(/^\(\((\d+)\)\)$/);
+  if (blockRef) {
+    return { name: "", blockId: blockRef[1] };
+  }
+
+  const aliasRef = text.match(/^\[\[(.+)\]\]$/);
+  if (aliasRef) {
+    return { name: aliasRef[1], alias: aliasRef[1] };
+  }
+
+  return { name: unescapeMarkdownText(text) };
+}
+
+/**
+ * 还原导出时转义的方括号和反斜杠
+ */
+function unescapeMarkdownText(text: string): string {
+  return text.replace(/\\([\[\]\\])/g, "$1");
+}
+
+class FolderTreeImporter {
+  private core: FolderTreeCore;
+
+  constructor(core: FolderTreeCore) {
+    this.core = core;
+  }
+
+  /**
+   * 找出与导入节点同名的已有根级笔记本
+   */
+  findConflictingNotebooks(nodes: ImportNode[]): FolderItem[] {
+    const notebooks = this.core.getItemChildren(null).filter(item => item.type === "notebook");
+    return nodes
+      .filter(node => this.inferType(node, null) === "notebook")
+      .map(node => notebooks.find(notebook => notebook.name === node.name))
+      .filter((notebook): notebook is FolderItem => !!notebook);
+  }
+
+  /**
+   * 导入大纲节点
+   * @param targetParentId - 导入到的父级，为 null 时导入到根级
+   * @param mode - 已存在同名笔记本时的处理方式
+   */
+  async import(nodes: ImportNode[], targetParentId: string | null, mode: ImportMode): Promise<ImportSummary> {
+    return this.core.enqueue(() => this.core.batch(t("Import"), step => this.runImport(nodes, targetParentId, mode, step)));
+  }
+
+  private async runImport(
+    nodes: ImportNode[],
+    targetParentId: string | null,
+    mode: ImportMode,
+    step: BatchStep
+  ): Promise<ImportSummary> {
+    const summary: ImportSummary = { created: 0, skipped: 0, unresolved: [], failed: [] };
+
+    await this.resolveBlocks(nodes, summary);
+
+    for (const node of nodes) {
+      let existing: FolderItem | null = null;
+      if (targetParentId === null && this.inferType(node, null) === "notebook") {
+        existing = this.core.getItemChildren(null).find(
+          item => item.type === "notebook" && item.name === node.name
+        ) || null;
+      }
+
+      if (existing && mode === "replace") {
+        const replacedId = existing.id;
+        await step(() => this.core.deleteItem(replacedId));
+        existing = null;
+      }
+
+      if (existing) {
+        await this.mergeChildren(node.children, existing.id, summary, step);
+      } else {
+        await this.createNode(node, targetParentId, summary, step);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * 解析节点引用的块：校验块ID是否存在，通过别名查找块ID
+   */
+  private async resolveBlocks(nodes: ImportNode[], summary: ImportSummary): Promise<void> {
+    const all: ImportNode[] = [];
+    const collect = (list: ImportNode[]) => list.forEach(node => {
+      all.push(node);
+      collect(node.children);
+    });
+    collect(nodes);
+
+    // 通过别名查找块ID
+    for (const node of all) {
+      if (node.blockId || !node.alias) continue;
+      try {
+        node.blockId = await findBlockIdByAlias(node.alias);
+      } catch (error) {
+        console.warn("[Folder Tree] 通过别名查找块失败:", node.alias, error);
+      }
+    }
+
+    // 批量校验块ID是否存在
+    let existingIds = new Set<string>();
+    try {
+      existingIds = await fetchExistingBlockIds(all.map(node => node.blockId).filter((id): id is string => !!id));
+    } catch (error) {
+      console.error("[Folder Tree] 批量获取块失败:", error);
+    }
+
+    for (const node of all) {
+      const wantsBlock = !!node.blockId || !!node.alias || node.type === "document";
+      if (node.blockId && existingIds.has(node.blockId)) continue;
+      if (wantsBlock) {
+        summary.unresolved.push(node.name || node.alias || node.blockId || "");
+        node.unresolved = true;
+      }
+      node.blockId = null;
+    }
+
+    // 只有块引用没有名称的节点（如 Markdown 中的 ((ID))）使用块的别名或文本作为名称
+    for (const node of all) {
+      if (node.name || !node.blockId) continue;
+      try {
+        const block = await orca.invokeBackend("get-block", Number(node.blockId));
+        if (block) {
+          node.name = block.aliases?.[0] || this.core.getBlockName(block.text);
+        }
+      } catch (error) {
+        console.warn("[Folder Tree] 获取块名称失败:", node.blockId, error);
+      }
+    }
+  }
+
+  /**
+   * 推断节点在文档树中的类型
+   */
+  private inferType(node: ImportNode, parentId: string | null): "notebook" | "folder" | "document" {
+    const refersToBlock = !!node.blockId || !!node.alias || !!node.unresolved;
+    // 笔记本只能在根级
+    if (parentId !== null) {
+      if (refersToBlock && node.children.length === 0 && node.type !== "folder") return "document";
+      return "folder";
+    }
+    if (node.type) return node.type === "document" && node.children.length > 0 ? "folder" : node.type;
+    if (refersToBlock) return node.children.length > 0 ? "folder" : "document";
+    return "notebook";
+  }
+
+  /**
+   * 创建节点及其所有子节点
+   */
+  private async createNode(node: ImportNode, parentId: string | null, summary: ImportSummary, step: BatchStep): Promise<void> {
+    const type = this.inferType(node, parentId);
+    // 未解析到块的文档没有子项时不创建
+    if (type === "document" && !node.blockId) return;
+
+    const name = node.name || t("Block ${id}", { id: String(node.blockId) });
+    const result = await step(() => this.core.createItem(
+      name,
+      type,
+      node.blockId || null,
+      parentId,
+      node.icon,
+      node.color
+    ));
+    if (!result.ok) {
+      summary.failed.push({ name, reason: result.error.message });
+      return;
+    }
+    const item = result.value;
+    summary.created++;
+
+    if (type === "notebook" && node.closed) {
+      await step(() => this.core.closeNotebook(item.id));
+    }
+
+    for (const child of node.children) {
+      await this.createNode(child, item.id, summary, step);
+    }
+  }
+
+  /**
+   * 合并子节点：同名文件夹合并，同一块的文档跳过
+   */
+  private async mergeChildren(nodes: ImportNode[], parentId: string, summary: ImportSummary, step: BatchStep): Promise<void> {
+    for (const node of nodes) {
+      const siblings = this.core.getItemChildren(parentId);
+      const existing = siblings.find(sibling =>
+        node.blockId ? sibling.blockId === node.blockId : !sibling.blockId && sibling.name === node.name
+      );
+
+      if (existing) {
+        summary.skipped++;
+        if (node.children.length > 0) {
+          if (existing.type === "document") {
+            await step(() => this.core.ensureFolder(existing.id));
+          }
+          await this.mergeChildren(node.children, existing.id, summary, step);
+        }
+      } else {
+        await this.createNode(node, parentId, summary, step);
+      }
+    }
+  }
+}
+
+/**
+ * 打开文件选择框并读取文本内容
+ * @returns 取消选择时为 null
+ */
+function pickTextFile(accept: string): Promise<{ name: string; content: string } | null> {
+  return new Promise(resolve => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.style.display = "none";
+
+    let settled = false;
+    const settle = (result: { name: string; content: string } | null) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener("focus", handleFocus);
+      input.remove();
+      resolve(result);
+    };
+
+    // 不支持 cancel 事件的环境中，文件选择框关闭后窗口重新获得焦点；稍后仍未选择文件则视为取消
+    const handleFocus = () => {
+      setTimeout(() => {
+        if (!input.files || input.files.length === 0) settle(null);
+      }, 500);
+    };
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        settle(null);
+        return;
+      }
+      try {
+        settle({ name: file.name, content: await file.text() });
+      } catch (error) {
+        console.error("[Folder Tree] 读取文件失败:", error);
+        settle(null);
+      }
+    };
+    input.addEventListener("cancel", () => settle(null));
+    window.addEventListener("focus", handleFocus);
+
+    document.body.appendChild(input);
+    input.click();
+  });
+}
+
+export {
+  FolderTreeImporter,
+  parseImportFile,
+  pickTextFile,
+  type ImportNode,
+  type ImportMode,
+  type ImportSummary,
+};
@@ -0,0 +1,121 @@
+/**
+ * 文档树插件 - 索引模块
+ * 负责按ID、父级（有序子项）和块ID索引项目，避免每次查找都遍历整个项目列表
+ *
+ * 索引不会自动感知项目属性的变化：修改 parentId、order 或 blockId 后需调用 update()
+ */
+
+import type { FolderItem } from "./folder-tree-persistence";
+
+class FolderTreeIndex {
+  private byId: Map<string, FolderItem> = new Map();
+  private byParent: Map<string | null, FolderItem[]> = new Map();
+  private byBlockId: Map<string, FolderItem[]> = new Map();
+  private unsortedParents: Set<string | null> = new Set(); // 子项顺序可能已变化、读取前需重新排序的父级
+  // 项目被索引时的 parentId 和 blockId，属性被直接修改后用来找到旧位置
+  private indexed: Map<string, { parentId: string | null; blockId: string | null }> = new Map();
+
+  /**
+   * 根据项目列表重建全部索引
+   */
+  rebuild(items: FolderItem[]): void {
+    this.byId = new Map();
+    this.byParent = new Map();
+    this.byBlockId = new Map();
+    this.unsortedParents = new Set();
+    this.indexed = new Map();
+    items.forEach(item => this.add(item));
+  }
+
+  add(item: FolderItem): void {
+    if (this.byId.has(item.id)) {
+      this.remove(item.id);
+    }
+    this.byId.set(item.id, item);
+    this.indexed.set(item.id, { parentId: item.parentId, blockId: item.blockId });
+    this.addTo(this.byParent, item.parentId, item);
+    this.unsortedParents.add(item.parentId);
+    if (item.blockId) {
+      this.addTo(this.byBlockId, item.blockId, item);
+    }
+  }
+
+  remove(itemId: string): void {
+    const item = this.byId.get(itemId);
+    const indexed = this.indexed.get(itemId);
+    if (!item || !indexed) return;
+
+    this.byId.delete(itemId);
+    this.indexed.delete(itemId);
+    this.removeFrom(this.byParent, indexed.parentId, item);
+    if (indexed.blockId) {
+      this.removeFrom(this.byBlockId, indexed.blockId, item);
+    }
+  }
+
+  /**
+   * 项目的 parentId、order 或 blockId 被修改后更新索引
+   */
+  update(item: FolderItem): void {
+    const indexed = this.indexed.get(item.id);
+    if (!indexed || this.byId.get(item.id) !== item) {
+      this.add(item);
+      return;
+    }
+
+    if (indexed.parentId !== item.parentId) {
+      this.removeFrom(this.byParent, indexed.parentId, item);
+      this.addTo(this.byParent, item.parentId, item);
+      indexed.parentId = item.parentId;
+    }
+    if (indexed.blockId !== item.blockId) {
+      if (indexed.blockId) this.removeFrom(this.byBlockId, indexed.blockId, item);
+      if (item.blockId) this.addTo(this.byBlockId, item.blockId, item);
+      indexed.blockId = item.blockId;
+    }
+    this.unsortedParents.add(item.parentId);
+  }
+
+  get(itemId: string): FolderItem | null {
+    return this.byId.get(itemId) || null;
+  }
+
+  /**
+   * 按 order 排序的子项（返回副本）
+   */
+  getChildren(parentId: string | null): FolderItem[] {
+    const children = this.byParent.get(parentId);
+    if (!children) return [];
+    if (this.unsortedParents.has(parentId)) {
+      children.sort((a, b) => a.order - b.order);
+      this.unsortedParents.delete(parentId);
+    }
+    return [...children];
+  }
+
+  /**
+   * 引用指定块的所有项目
+   */
+  findByBlockId(blockId: string): FolderItem[] {
+    return [...(this.byBlockId.get(blockId) || [])];
+  }
+
+  private addTo<K>(map: Map<K, FolderItem[]>, key: K, item: FolderItem): void {
+    const list = map.get(key);
+    if (list) {
+      list.push(item);
+    } else {
+      map.set(key, [item]);
+    }
+  }
+
+  private removeFrom<K>(map: Map<K, FolderItem[]>, key: K, item: FolderItem): void {
+    const list = map.get(key);
+    if (!list) return;
+    const index = list.indexOf(item);
+    if (index > -1) list.splice(index, 1);
+    if (list.length === 0) map.delete(key);
+  }
+}
+
+export { FolderTreeIndex };
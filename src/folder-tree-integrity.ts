@@ -0,0 +1,201 @@
+/**
+ * 文档树插件 - 数据完整性检查模块
+ * 负责检查 parentId、children、order 和设置中的ID引用是否一致，并修复发现的问题
+ */
+
+import type { FolderTreeData, FolderItem } from "./folder-tree-persistence";
+import { t } from "./libs/l10n";
+
+type IntegrityIssueType =
+  | "orphan" // 父级不存在
+  | "cycle" // 父级链形成循环
+  | "children-mismatch" // children 列表与 parentId 不一致
+  | "duplicate-order" // 同级项目的 order 重复
+  | "dangling-reference"; // 设置中引用了不存在的项目
+
+/**
+ * 检查发现的一个问题
+ */
+interface IntegrityIssue {
+  type: IntegrityIssueType;
+  itemId: string;
+  message: string;
+}
+
+/**
+ * 检查数据完整性（不修改数据）
+ */
+function checkIntegrity(data: FolderTreeData): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const itemMap = new Map(data.items.map(item => [item.id, item]));
+  const label = (item: FolderItem) => `"${item.name}"`;
+
+  // 父级不存在
+  data.items.forEach(item => {
+    if (item.parentId !== null && !itemMap.has(item.parentId)) {
+      issues.push({ type: "orphan", itemId: item.id, message: t("${item}'s parent ${parent} does not exist", { item: label(item), parent: String(item.parentId) }) });
+    }
+  });
+
+  // 父级链循环（每个循环只报告一次）
+  findCycleItems(data.items, itemMap).forEach(item => {
+    issues.push({ type: "cycle", itemId: item.id, message: t("${item}'s parent chain forms a cycle", { item: label(item) }) });
+  });
+
+  // children 列表与 parentId 不一致
+  data.items.forEach(parent => {
+    if (!parent.children) return;
+    const expected = data.items.filter(item => item.parentId === parent.id).map(item => item.id);
+    const actual = parent.children;
+    const missing = expected.filter(id => !actual.includes(id));
+    const extra = actual.filter(id => !expected.includes(id));
+    const duplicated = actual.length !== new Set(actual).size;
+    if (missing.length > 0 || extra.length > 0 || duplicated) {
+      issues.push({
+        type: "children-mismatch",
+        itemId: parent.id,
+        message: t(
+          duplicated
+            ? "${item}'s child list is inconsistent (${missing} missing, ${extra} extra, with duplicates)"
+            : "${item}'s child list is inconsistent (${missing} missing, ${extra} extra)",
+          { item: label(parent), missing: String(missing.length), extra: String(extra.length) }
+        ),
+      });
+    }
+  });
+
+  // 同级 order 重复
+  groupByParent(data.items).forEach((siblings, parentId) => {
+    const orders = siblings.map(item => item.order);
+    if (orders.some(order => typeof order !== "number" || !Number.isFinite(order)) || new Set(orders).size !== orders.length) {
+      const parent = parentId ? itemMap.get(parentId) : null;
+      issues.push({
+        type: "duplicate-order",
+        itemId: parentId ?? "",
+        message: t("Items under ${parent} have duplicate or invalid sort values", { parent: parent ? label(parent) : t("the top level") }),
+      });
+    }
+  });
+
+  // 设置中引用了不存在的项目
+  const { expandedItems, selectedItems, closedNotebooks } = data.settings;
+  const dangling = [
+    ...expandedItems.filter(id => !itemMap.has(id)),
+    ...selectedItems.filter(id => !itemMap.has(id)),
+    ...closedNotebooks.filter(id => {
+      const item = itemMap.get(id);
+      return !item || item.type !== "notebook" || item.parentId !== null;
+    }),
+  ];
+  new Set(dangling).forEach(id => {
+    issues.push({ type: "dangling-reference", itemId: id, message: t("The settings reference a missing or invalid item ${id}", { id }) });
+  });
+
+  return issues;
+}
+
+/**
+ * 修复数据完整性问题（直接修改传入的数据）
+ * @param onChange - 项目即将被修改时调用（用于记录撤销历史）
+ * @returns 修复的问题数量
+ */
+function repairIntegrity(data: FolderTreeData, onChange: (itemId: string) => void = () => {}): number {
+  const issueCount = checkIntegrity(data).length;
+  if (issueCount === 0) return 0;
+
+  const itemMap = new Map(data.items.map(item => [item.id, item]));
+
+  // 父级不存在的项目移到根级
+  data.items.forEach(item => {
+    if (item.parentId !== null && !itemMap.has(item.parentId)) {
+      onChange(item.id);
+      item.parentId = null;
+    }
+  });
+
+  // 打断循环：把循环中的一个项目移到根级
+  let cycleItems = findCycleItems(data.items, itemMap);
+  while (cycleItems.length > 0) {
+    const item = cycleItems[0];
+    onChange(item.id);
+    item.parentId = null;
+    cycleItems = findCycleItems(data.items, itemMap);
+  }
+
+  // 重新编号同级 order（保持原有顺序）
+  groupByParent(data.items).forEach(siblings => {
+    siblings
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => (a.item.order ?? 0) - (b.item.order ?? 0) || a.index - b.index)
+      .forEach(({ item }, order) => {
+        if (item.order !== order) {
+          onChange(item.id);
+          item.order = order;
+        }
+      });
+  });
+
+  // 按 parentId 重建 children 列表
+  data.items.forEach(parent => {
+    const childIds = data.items
+      .filter(item => item.parentId === parent.id)
+      .sort((a, b) => a.order - b.order)
+      .map(item => item.id);
+    if (!parent.children && childIds.length === 0) return;
+    if (JSON.stringify(parent.children || []) !== JSON.stringify(childIds)) {
+      onChange(parent.id);
+      parent.children = childIds;
+    }
+  });
+
+  // 清理设置中的无效引用
+  const settings = data.settings;
+  settings.expandedItems = settings.expandedItems.filter(id => itemMap.has(id));
+  settings.selectedItems = settings.selectedItems.filter(id => itemMap.has(id));
+  settings.closedNotebooks = settings.closedNotebooks.filter(id => {
+    const item = itemMap.get(id);
+    return !!item && item.type === "notebook" && item.parentId === null;
+  });
+
+  return issueCount;
+}
+
+/**
+ * 找出父级链形成循环的项目（每个循环返回一个项目）
+ */
+function findCycleItems(items: FolderItem[], itemMap: Map<string, FolderItem>): FolderItem[] {
+  const result: FolderItem[] = [];
+  const checked = new Set<string>(); // 已确认能到达根级或已报告的项目
+
+  for (const start of items) {
+    const path: string[] = [];
+    const onPath = new Set<string>();
+    let current: FolderItem | undefined = start;
+
+    while (current && !checked.has(current.id)) {
+      if (onPath.has(current.id)) {
+        result.push(current);
+        break;
+      }
+      onPath.add(current.id);
+      path.push(current.id);
+      current = current.parentId !== null ? itemMap.get(current.parentId) : undefined;
+    }
+
+    path.forEach(id => checked.add(id));
+  }
+
+  return result;
+}
+
+function groupByParent(items: FolderItem[]): Map<string | null, FolderItem[]> {
+  const groups = new Map<string | null, FolderItem[]>();
+  items.forEach(item => {
+    const siblings = groups.get(item.parentId) || [];
+    siblings.push(item);
+    groups.set(item.parentId, siblings);
+  });
+  return groups;
+}
+
+export { checkIntegrity, repairIntegrity, type IntegrityIssue, type IntegrityIssueType };
@@ -0,0 +1,224 @@
+/**
+ * 文档树插件 - 数据迁移模块
+ * 负责数据结构版本号和按顺序执行的迁移步骤
+ *
+ * 新增迁移时：在 MIGRATIONS 末尾追加一个步骤（from 为上一步的 to），SCHEMA_VERSION 会自动更新
+ */
+
+import type { FolderTreeBackup } from "./folder-tree-backup";
+import { OrcaStorageAdapter, type StorageAdapter } from "./folder-tree-storage";
+import type { FolderItem } from "./folder-tree-persistence";
+import { t } from "./libs/l10n";
+
+/**
+ * 一个迁移步骤：把版本 from 的数据转换为版本 to
+ * migrate 接收并返回未经校验的原始数据，不能依赖当前的类型定义
+ */
+interface Migration {
+  from: number;
+  to: number;
+  description: string; // 英文原文，显示时通过 t() 翻译
+  migrate: (raw: any) => any;
+}
+
+/**
+ * 迁移日志中的一条记录
+ */
+interface MigrationLogEntry {
+  from: number;
+  to: number;
+  description: string;
+  migratedAt: string;
+  itemCount: number;
+  backupId: string | null; // 迁移前备份的ID，备份失败时为 null
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 数据结构版本：
+ * 0 - 最早的 notebooks/documents 格式
+ * 1 - 统一的 items 列表，整体存储在 data 键下
+ * 2 - 增加回收站，按项目存储（meta 中未写入版本号的数据也属于此版本）
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: "Convert notebooks/documents into a single item list",
+    migrate: (raw) => {
+      const items: FolderItem[] = [];
+
+      (raw.notebooks || []).forEach((notebook: any) => {
+        items.push({
+          id: notebook.id,
+          name: notebook.name,
+          blockId: null,
+          parentId: null,
+          order: notebook.order,
+          type: "notebook",
+          children: notebook.documents || [],
+          icon: "ti ti-notebook",
+          created: notebook.created,
+          modified: notebook.modified,
+        });
+      });
+
+      (raw.documents || []).forEach((doc: any) => {
+        items.push({
+          ...doc,
+          type: doc.type || "document", // 确保类型正确
+        });
+      });
+
+      return {
+        items,
+        settings: {
+          expandedItems: [
+            ...(raw.settings?.expandedNotebooks || []),
+            ...(raw.settings?.expandedFolders || []),
+          ],
+          selectedItems: raw.settings?.selectedItems || [],
+          closedNotebooks: raw.settings?.closedNotebooks || [],
+        },
+      };
+    },
+  },
+  {
+    from: 1,
+    to: 2,
+    description: "Add the trash",
+    migrate: (raw) => ({
+      ...raw,
+      items: raw.items || [],
+      trash: raw.trash || [],
+    }),
+  },
+];
+
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/**
+ * 判断整体存储的旧数据的版本（旧数据没有写入版本号）
+ */
+function detectLegacyVersion(raw: any): number {
+  if (typeof raw.version === "number") return raw.version;
+  return raw.notebooks && raw.documents ? 0 : 1;
+}
+
+/**
+ * 依次执行迁移步骤，把数据升级到当前版本（不备份、不记录日志，用于读取旧备份）
+ */
+function upgradeData(raw: any, version: number): any {
+  let data = raw;
+  for (const step of getPendingMigrations(version)) {
+    data = step.migrate(data);
+  }
+  return data;
+}
+
+function getPendingMigrations(version: number): Migration[] {
+  if (version > SCHEMA_VERSION) {
+    throw new Error(t("Data version ${version} is newer than the version ${supported} supported by the plugin. Please update the plugin", {
+      version: String(version),
+      supported: String(SCHEMA_VERSION),
+    }));
+  }
+  return MIGRATIONS.filter(step => step.from >= version);
+}
+
+class FolderTreeMigrator {
+  private readonly LOG_KEY = "migration-log";
+  private readonly MAX_LOG_ENTRIES = 50;
+  private backup: FolderTreeBackup;
+  private storage: StorageAdapter;
+
+  constructor(backup: FolderTreeBackup, storage: StorageAdapter = new OrcaStorageAdapter()) {
+    this.backup = backup;
+    this.storage = storage;
+  }
+
+  /**
+   * 是否需要迁移
+   */
+  needsMigration(version: number): boolean {
+    return getPendingMigrations(version).length > 0;
+  }
+
+  /**
+   * 把数据从 version 迁移到当前版本
+   * 每一步执行前先备份该步骤的输入数据，执行后写入迁移日志；任一步失败则抛出错误
+   */
+  async migrate(raw: any, version: number): Promise<any> {
+    let data = raw;
+
+    for (const step of getPendingMigrations(version)) {
+      console.log(`[Folder Tree] 开始数据迁移 v${step.from} → v${step.to}：${step.description}`);
+
+      const backupInfo = await this.backup.createBackup(
+        data,
+        t("Backup before migration (v${from} → v${to})", { from: String(step.from), to: String(step.to) }),
+        data.settings?.backupCount ?? 10,
+        step.from
+      );
+
+      const entry: MigrationLogEntry = {
+        from: step.from,
+        to: step.to,
+        description: step.description,
+        migratedAt: new Date().toISOString(),
+        itemCount: 0,
+        backupId: backupInfo ? backupInfo.id : null,
+        success: false,
+      };
+
+      try {
+        data = step.migrate(data);
+        entry.itemCount = Array.isArray(data.items) ? data.items.length : 0;
+        entry.success = true;
+        await this.appendLog(entry);
+        console.log(`[Folder Tree] 数据迁移 v${step.from} → v${step.to} 完成`);
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+        await this.appendLog(entry);
+        throw error;
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * 读取迁移日志（最新的在前）
+   */
+  async getLog(): Promise<MigrationLogEntry[]> {
+    try {
+      const logStr = await this.storage.get(this.LOG_KEY);
+      const log: MigrationLogEntry[] = logStr ? JSON.parse(logStr) : [];
+      return log.slice().reverse();
+    } catch (error) {
+      console.error("[Folder Tree] 读取迁移日志失败:", error);
+      return [];
+    }
+  }
+
+  private async appendLog(entry: MigrationLogEntry): Promise<void> {
+    try {
+      const logStr = await this.storage.get(this.LOG_KEY);
+      const log: MigrationLogEntry[] = logStr ? JSON.parse(logStr) : [];
+      log.push(entry);
+      await this.storage.set(this.LOG_KEY, JSON.stringify(log.slice(-this.MAX_LOG_ENTRIES)));
+    } catch (error) {
+      console.error("[Folder Tree] 写入迁移日志失败:", error);
+    }
+  }
+}
+
+export {
+  FolderTreeMigrator,
+  SCHEMA_VERSION,
+  detectLegacyVersion,
+  upgradeData,
+  type Migration,
+  type MigrationLogEntry,
+};
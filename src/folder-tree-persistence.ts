@@ -1,8 +1,14 @@
 /**
  * 文档树插件 - 数据持久化模块
- * 负责数据的存储、读取、备份和恢复
+ * 负责数据的存储和读取（备份见 folder-tree-backup.ts，版本迁移见 folder-tree-migrations.ts）
  */
 
+import { FolderTreeBackup } from "./folder-tree-backup";
+import { FolderTreeMigrator, SCHEMA_VERSION, detectLegacyVersion, type MigrationLogEntry } from "./folder-tree-migrations";
+import { OrcaStorageAdapter, type StorageAdapter } from "./folder-tree-storage";
+import { ok, fail, describeError, type OperationResult } from "./folder-tree-errors";
+import { t } from "./libs/l10n";
+
 interface FolderItem {
   id: string;
   name: string;
@@ -19,18 +25,141 @@ interface FolderItem {
   isQueryBlock?: boolean; // 标识是否为查询块
 }
 
+/**
+ * 回收站中的一条记录（一次删除操作移除的整个子树）
+ */
+interface TrashEntry {
+  id: string; // 被删除的顶层项目ID
+  parentId: string | null; // 删除前的父级
+  index: number; // 删除前在同级中的位置
+  wasClosed: boolean; // 删除前是否为已关闭的笔记本
+  deletedAt: string;
+  items: FolderItem[]; // 顶层项目及其所有子项
+}
+
 interface FolderTreeData {
   items: FolderItem[];
+  trash: TrashEntry[];
   settings: {
     expandedItems: string[];
     selectedItems: string[];
     closedNotebooks: string[]; // 已关闭的笔记本ID列表
+    trashRetentionDays: number; // 回收站保留天数
+    backupCount: number; // 保留的备份数量
+    recentTargets: string[]; // 最近添加块的目标ID（最新的在前）
   };
 }
 
+/**
+ * 一次写入操作（value 为 null 表示删除该键）
+ */
+interface StorageOp {
+  key: string;
+  value: string | null;
+}
+
+/**
+ * 一次已完成的提交（用于通知其他窗口）
+ */
+interface StorageCommit {
+  revision: number; // 提交后存储中的版本号
+  ops: StorageOp[];
+}
+
+/**
+ * 合并其他窗口修改的结果
+ */
+interface RemoteMergeResult {
+  changed: boolean; // 内存数据是否发生变化
+  changedIds: Set<string>; // 被修改的项目、回收站记录和打开/关闭状态变化的笔记本ID
+}
+
+/**
+ * 以 base 为基准三方合并两个版本的对象
+ * 只有一边修改的字段采用修改后的值；两边都修改的 ID 列表（如 children）合并双方的增删，
+ * 修改时间取较晚的一个，其余字段保留 local 的值
+ */
+function mergeFields<T extends object>(base: T, local: T, remote: T): T {
+  const baseRecord = base as Record<string, unknown>;
+  const localRecord = local as Record<string, unknown>;
+  const remoteRecord = remote as Record<string, unknown>;
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(baseRecord), ...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+
+  keys.forEach(key => {
+    const baseValue = baseRecord[key];
+    const localValue = localRecord[key];
+    const remoteValue = remoteRecord[key];
+    let value: unknown;
+    if (JSON.stringify(localValue) === JSON.stringify(baseValue)) {
+      value = remoteValue;
+    } else if (JSON.stringify(remoteValue) === JSON.stringify(baseValue)) {
+      value = localValue;
+    } else if (key === "modified" && typeof localValue === "string" && typeof remoteValue === "string") {
+      value = localValue > remoteValue ? localValue : remoteValue;
+    } else if (isIdList(baseValue) && isIdList(localValue) && isIdList(remoteValue)) {
+      value = mergeIdLists(baseValue, localValue, remoteValue);
+    } else {
+      value = localValue;
+    }
+    if (value !== undefined) merged[key] = value;
+  });
+
+  return merged as T;
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(entry => typeof entry === "string");
+}
+
+/**
+ * 合并两边对同一 ID 列表的增删：保持本地顺序，去掉其他窗口删除的 ID，在末尾追加其他窗口新增的 ID
+ */
+function mergeIdLists(base: string[], local: string[], remote: string[]): string[] {
+  const merged = local.filter(id => !base.includes(id) || remote.includes(id));
+  remote.forEach(id => {
+    if (!base.includes(id) && !merged.includes(id)) merged.push(id);
+  });
+  return merged;
+}
+
 class FolderTreePersistence {
-  private readonly PLUGIN_KEY = "folder-tree";
-  private readonly DATA_VERSION = "1.0.0";
+  private readonly UNVERSIONED_SCHEMA = 2; // meta 中没有版本号的按项目存储数据
+  // 以下键都带有工作区前缀（默认工作区没有前缀）
+  private readonly META_KEY: string; // 存储设置等元信息
+  private readonly ITEM_KEY_PREFIX: string; // 每个项目单独存储在 item:<id> 下
+  private readonly TRASH_KEY_PREFIX: string; // 回收站记录存储在 trash:<id> 下
+  private readonly LEGACY_DATA_KEY: string; // 旧版整体存储的键
+  private readonly JOURNAL_KEY: string; // 进行中的批量写入，写完后删除
+  private readonly REVISION_KEY: string; // 每次提交加一，用于发现其他窗口的写入
+  private readonly DEFAULT_TRASH_RETENTION_DAYS = 30;
+  private readonly DEFAULT_BACKUP_COUNT = 10;
+
+  // 上一次写入存储的内容快照，用于增量保存时对比
+  private savedItems: Map<string, string> = new Map();
+  private savedTrash: Map<string, string> = new Map();
+  private savedMeta: string | null = null;
+  private revision = 0; // 内存数据对应的存储版本号
+  private commitListener: ((commit: StorageCommit) => void) | null = null;
+  // 加载失败时为 true：此时内存中的数据不完整，禁止写入以免覆盖存储中的数据
+  private loadFailed = false;
+  private migrator: FolderTreeMigrator;
+  private storage: StorageAdapter;
+
+  /**
+   * @param keyPrefix - 工作区的键前缀（见 folder-tree-workspaces.ts）
+   * @param storage - 存储位置，默认为 Orca 插件数据
+   */
+  constructor(keyPrefix: string = "", storage: StorageAdapter = new OrcaStorageAdapter()) {
+    this.storage = storage;
+    this.META_KEY = `${keyPrefix}meta`;
+    this.ITEM_KEY_PREFIX = `${keyPrefix}item:`;
+    this.TRASH_KEY_PREFIX = `${keyPrefix}trash:`;
+    this.LEGACY_DATA_KEY = `${keyPrefix}data`;
+    this.JOURNAL_KEY = `${keyPrefix}journal`;
+    this.REVISION_KEY = `${keyPrefix}revision`;
+    this.migrator = new FolderTreeMigrator(new FolderTreeBackup(keyPrefix, storage), storage);
+  }
 
   /**
    * 获取默认数据结构
@@ -38,395 +167,496 @@ class FolderTreePersistence {
   private getDefaultData(): FolderTreeData {
     return {
       items: [],
+      trash: [],
       settings: {
         expandedItems: [],
         selectedItems: [],
         closedNotebooks: [],
+        trashRetentionDays: this.DEFAULT_TRASH_RETENTION_DAYS,
+        backupCount: this.DEFAULT_BACKUP_COUNT,
+        recentTargets: [],
       },
     };
   }
 
-  /**
-   * 生成唯一ID
-   */
-  private generateId(type: "notebook" | "document" | "folder"): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `${type}_${timestamp}_${random}`;
-  }
-
   /**
    * 读取数据
    */
   async loadData(): Promise<FolderTreeData> {
+    this.loadFailed = false;
     try {
-      const dataStr = await orca.plugins.getData(this.PLUGIN_KEY, "data");
-      if (!dataStr) {
-        return this.getDefaultData();
+      let keys: string[] = await this.storage.getKeys();
+
+      // 上次批量写入未完成：先补完，保证读到的是完整的一次提交
+      if (keys.includes(this.JOURNAL_KEY)) {
+        await this.replayJournal();
+        keys = await this.storage.getKeys();
       }
+      this.revision = await this.readRevision();
 
-      const data = JSON.parse(dataStr);
+      // 旧版整体存储：迁移到按项目存储
+      if (!keys.includes(this.META_KEY) && keys.includes(this.LEGACY_DATA_KEY)) {
+        return await this.migrateFromSingleBlob();
+      }
 
-      // 数据迁移：从旧格式迁移到新格式
-      if (data.notebooks && data.documents) {
-        return this.migrateFromOldFormat(data);
+      if (!keys.includes(this.META_KEY)) {
+        this.savedItems = new Map();
+        this.savedTrash = new Map();
+        this.savedMeta = null;
+        return this.getDefaultData();
       }
 
-      // 新格式数据
-      const newData = data as FolderTreeData;
+      const metaStr = await this.storage.get(this.META_KEY);
+      const meta = metaStr ? JSON.parse(metaStr) : {};
 
-      // 确保设置存在
-      if (!newData.settings) {
-        newData.settings = {
-          expandedItems: [],
-          selectedItems: [],
-          closedNotebooks: [],
-        };
-      }
-      // 如果缺少 closedNotebooks 字段，添加它（向后兼容）
-      if (!newData.settings.closedNotebooks) {
-        newData.settings.closedNotebooks = [];
+      const items = await this.loadRecords<FolderItem>(keys, this.ITEM_KEY_PREFIX);
+      const trash = await this.loadRecords<TrashEntry>(keys, this.TRASH_KEY_PREFIX);
+
+      this.savedItems = items.saved;
+      this.savedTrash = trash.saved;
+      this.savedMeta = metaStr;
+
+      const raw = { items: items.records, trash: trash.records, settings: meta.settings };
+      const version = typeof meta.version === "number" ? meta.version : this.UNVERSIONED_SCHEMA;
+      if (!this.migrator.needsMigration(version)) {
+        return { ...raw, settings: this.normalizeSettings(raw.settings) };
       }
 
-      return newData;
+      // 迁移后只写入发生变化的记录，并保留原有的修改时间
+      const data = this.toFolderTreeData(await this.migrator.migrate(raw, version));
+      await this.writeChanges(data, false);
+      return data;
     } catch (error) {
-      console.error("[Folder Tree] 加载数据失败:", error);
+      // 数据损坏：返回空数据供界面显示，但禁止保存，避免覆盖存储中的数据
+      console.error("[Folder Tree] 加载数据失败，已暂停保存:", error);
+      this.loadFailed = true;
       return this.getDefaultData();
     }
   }
 
   /**
-   * 从旧格式迁移数据到新格式
+   * 把迁移后的原始数据转换为当前结构
    */
-  private migrateFromOldFormat(oldData: any): FolderTreeData {
-    console.log("[Folder Tree] 开始迁移旧格式数据");
-
-    const items: FolderItem[] = [];
-
-    // 迁移笔记本
-    if (oldData.notebooks) {
-      oldData.notebooks.forEach((notebook: any) => {
-        items.push({
-          id: notebook.id,
-          name: notebook.name,
-          blockId: null,
-          parentId: null,
-          order: notebook.order,
-          type: "notebook",
-          children: notebook.documents || [],
-          icon: "ti ti-notebook",
-          created: notebook.created,
-          modified: notebook.modified
-        });
-      });
+  private toFolderTreeData(raw: any): FolderTreeData {
+    if (!raw || !Array.isArray(raw.items)) {
+      throw new Error(t("The migrated data has an invalid format"));
     }
-
-    // 迁移文档和文件夹
-    if (oldData.documents) {
-      oldData.documents.forEach((doc: any) => {
-        items.push({
-          ...doc,
-          type: doc.type || "document" // 确保类型正确
-        });
-      });
-    }
-
-    // 迁移设置
-    const settings = {
-      expandedItems: [
-        ...(oldData.settings?.expandedNotebooks || []),
-        ...(oldData.settings?.expandedFolders || [])
-      ],
-      selectedItems: oldData.settings?.selectedItems || [],
-      closedNotebooks: oldData.settings?.closedNotebooks || []
+    return {
+      items: raw.items,
+      trash: Array.isArray(raw.trash) ? raw.trash : [],
+      settings: this.normalizeSettings(raw.settings),
     };
+  }
 
-    console.log("[Folder Tree] 数据迁移完成，共迁移", items.length, "个项目");
+  /**
+   * 读取数据迁移日志
+   */
+  async getMigrationLog(): Promise<MigrationLogEntry[]> {
+    return this.migrator.getLog();
+  }
 
-    // 保存新格式
-    const newData = { items, settings };
-    this.saveData(newData).catch(err =>
-      console.error("[Folder Tree] 保存迁移后数据失败:", err)
-    );
+  /**
+   * 重新执行未完成的批量写入
+   */
+  private async replayJournal(): Promise<void> {
+    const journalStr = await this.storage.get(this.JOURNAL_KEY);
+    const ops: StorageOp[] = journalStr ? JSON.parse(journalStr) : [];
+    console.warn("[Folder Tree] 发现未完成的写入，重新执行", ops.length, "项");
+    await Promise.all(ops.map(op => this.applyOp(op)));
+    await this.storage.remove(this.JOURNAL_KEY);
+  }
 
-    return newData;
+  /**
+   * 读取存储中的版本号
+   */
+  private async readRevision(): Promise<number> {
+    const revisionStr = await this.storage.get(this.REVISION_KEY);
+    const revision = Number(revisionStr);
+    return Number.isFinite(revision) ? revision : 0;
   }
 
   /**
-   * 保存数据
+   * 内存数据对应的存储版本号
    */
-  async saveData(data: FolderTreeData): Promise<boolean> {
-    try {
-      // 更新修改时间
-      const now = new Date().toISOString();
+  getRevision(): number {
+    return this.revision;
+  }
 
-      // 更新所有项目的修改时间
-      data.items.forEach(item => {
-        item.modified = now;
-      });
+  /**
+   * 设置提交完成后的回调
+   */
+  setCommitListener(listener: ((commit: StorageCommit) => void) | null): void {
+    this.commitListener = listener;
+  }
 
-      const dataStr = JSON.stringify(data, null, 2);
-      await orca.plugins.setData(this.PLUGIN_KEY, "data", dataStr);
+  /**
+   * 存储是否已被其他窗口写入（版本号与内存数据不一致）
+   */
+  async hasRemoteChanges(): Promise<boolean> {
+    if (this.loadFailed) return false;
+    return (await this.readRevision()) !== this.revision;
+  }
 
-      console.log("[Folder Tree] 数据保存成功");
-      return true;
-    } catch (error) {
-      console.error("[Folder Tree] 保存数据失败:", error);
-      orca.notify("error", "文档树数据保存失败");
-      return false;
-    }
+  /**
+   * 把其他窗口广播的提交合并到内存数据
+   */
+  applyRemoteCommit(data: FolderTreeData, commit: StorageCommit): RemoteMergeResult {
+    if (this.loadFailed) return { changed: false, changedIds: new Set() };
+    const result = this.mergeRemote(data, new Map(commit.ops.map(op => [op.key, op.value])));
+    this.revision = commit.revision;
+    return result;
   }
 
   /**
-   * 创建项目（笔记本、文件夹或文档）
+   * 重新读取存储，把其他窗口写入的记录合并到内存数据（错过了中间的提交时使用）
    */
-  async createItem(
-    name: string,
-    type: "notebook" | "folder" | "document",
-    blockId: string | null = null,
-    parentId: string | null = null,
-    icon?: string,
-    color?: string
-  ): Promise<FolderItem | null> {
-    try {
-      const data = await this.loadData();
-
-      // 获取下一个排序号
-      const order = this.getNextOrder(data, parentId);
-
-      const item: FolderItem = {
-        id: this.generateId(type),
-        name,
-        blockId,
-        parentId: parentId || null,
-        order,
-        type,
-        children: type === "folder" || type === "notebook" ? [] : undefined,
-        icon: icon || (type === "notebook" ? "ti ti-notebook" : type === "folder" ? "ti ti-folder" : "ti ti-cube"),
-        color,
-        created: new Date().toISOString(),
-        modified: new Date().toISOString(),
-      };
-
-      data.items.push(item);
-
-      // 更新父级的children列表
-      if (parentId) {
-        const parent = data.items.find(i => i.id === parentId);
-        if (parent && (parent.type === "folder" || parent.type === "notebook")) {
-          if (!parent.children) parent.children = [];
-          parent.children.push(item.id);
+  async pullRemoteChanges(data: FolderTreeData): Promise<RemoteMergeResult> {
+    if (this.loadFailed) return { changed: false, changedIds: new Set() };
+
+    const keys: string[] = await this.storage.getKeys();
+    const keySet = new Set(keys);
+    const revision = await this.readRevision();
+    const remote = new Map<string, string | null>();
+
+    const collect = async (prefix: string, saved: Map<string, string>) => {
+      const recordKeys = keys.filter(key => key.startsWith(prefix));
+      const values: Array<string | null> = await Promise.all(
+        recordKeys.map(key => this.storage.get(key))
+      );
+      recordKeys.forEach((key, index) => {
+        const value = values[index];
+        if (value && value !== saved.get(key.slice(prefix.length))) {
+          remote.set(key, value);
         }
-      }
+      });
+      saved.forEach((_, id) => {
+        if (!keySet.has(`${prefix}${id}`)) {
+          remote.set(`${prefix}${id}`, null);
+        }
+      });
+    };
+    await collect(this.ITEM_KEY_PREFIX, this.savedItems);
+    await collect(this.TRASH_KEY_PREFIX, this.savedTrash);
 
-      const success = await this.saveData(data);
-      return success ? item : null;
-    } catch (error) {
-      console.error("[Folder Tree] 创建项目失败:", error);
-      return null;
+    const metaStr = await this.storage.get(this.META_KEY);
+    if (metaStr && metaStr !== this.savedMeta) {
+      remote.set(this.META_KEY, metaStr);
     }
+
+    const result = this.mergeRemote(data, remote);
+    this.revision = revision;
+    return result;
   }
 
   /**
-   * 删除项目
+   * 合并其他窗口写入的记录
+   * 本窗口没有修改的记录采用存储中的新值；两边都修改了的记录以上次同步的内容为基准逐个字段合并（合并结果下次保存时写回）
+   * @param remote - 发生变化的键及其新值（null 表示已删除）
    */
-  async deleteItem(itemId: string): Promise<boolean> {
-    try {
-      const data = await this.loadData();
+  private mergeRemote(data: FolderTreeData, remote: Map<string, string | null>): RemoteMergeResult {
+    let changed = false;
+    const changedIds = new Set<string>();
+
+    remote.forEach((value, key) => {
+      if (key.startsWith(this.ITEM_KEY_PREFIX)) {
+        const id = key.slice(this.ITEM_KEY_PREFIX.length);
+        if (this.mergeRecord(data.items, this.savedItems, id, value)) {
+          changed = true;
+          changedIds.add(id);
+        }
+      } else if (key.startsWith(this.TRASH_KEY_PREFIX)) {
+        const id = key.slice(this.TRASH_KEY_PREFIX.length);
+        if (this.mergeRecord(data.trash, this.savedTrash, id, value)) {
+          changed = true;
+          changedIds.add(id);
+        }
+      } else if (key === this.META_KEY && value !== null) {
+        const localMeta = JSON.stringify({ version: SCHEMA_VERSION, settings: data.settings });
+        if (localMeta !== value) {
+          // 还没有保存过设置时以默认设置为基准
+          const baseSettings = this.normalizeSettings(this.savedMeta ? JSON.parse(this.savedMeta).settings : undefined);
+          const remoteSettings = this.normalizeSettings(JSON.parse(value).settings);
+          const closedBefore = data.settings.closedNotebooks;
+          data.settings = mergeFields(baseSettings, data.settings, remoteSettings);
+          const closedAfter = data.settings.closedNotebooks;
+          closedBefore.filter(id => !closedAfter.includes(id)).forEach(id => changedIds.add(id));
+          closedAfter.filter(id => !closedBefore.includes(id)).forEach(id => changedIds.add(id));
+          changed = true;
+        }
+        this.savedMeta = value;
+      }
+    });
 
-      // 递归删除
-      const deleteRecursively = (id: string) => {
-        const item = data.items.find(i => i.id === id);
-        if (!item) return;
+    return { changed, changedIds };
+  }
 
-        // 如果是文件夹或笔记本，递归删除子项
-        if (item.children && item.children.length > 0) {
-          item.children.forEach(childId => deleteRecursively(childId));
-        }
+  private mergeRecord<T extends { id: string }>(
+    records: T[],
+    saved: Map<string, string>,
+    id: string,
+    value: string | null
+  ): boolean {
+    const index = records.findIndex(record => record.id === id);
+    const localStr = index > -1 ? JSON.stringify(records[index]) : null;
+    const savedStr = saved.get(id) ?? null;
+
+    if (value === null) {
+      saved.delete(id);
+    } else {
+      saved.set(id, value);
+    }
 
-        // 从父级中移除
-        if (item.parentId) {
-          const parent = data.items.find(i => i.id === item.parentId);
-          if (parent && parent.children) {
-            parent.children = parent.children.filter(childId => childId !== id);
-          }
-        }
+    if (localStr === value) return false;
 
-        // 删除项目
-        data.items = data.items.filter(i => i.id !== id);
-      };
+    // 本地没有未保存的修改：直接采用存储中的新值
+    if (localStr === savedStr) {
+      if (value === null) {
+        records.splice(index, 1);
+      } else if (index > -1) {
+        records[index] = JSON.parse(value);
+      } else {
+        records.push(JSON.parse(value));
+      }
+      return true;
+    }
 
-      deleteRecursively(itemId);
+    // 本地新建或删除的记录保留本地版本
+    if (localStr === null || savedStr === null) return false;
 
-      return await this.saveData(data);
-    } catch (error) {
-      console.error("[Folder Tree] 删除项目失败:", error);
-      return false;
+    // 本地修改了、其他窗口删除了：删除已经保存，以存储为准
+    if (value === null) {
+      console.warn("[Folder Tree] 记录已被其他窗口删除，放弃本地修改:", id);
+      records.splice(index, 1);
+      return true;
     }
+
+    // 两边都修改了：逐个字段合并，本地修改过的字段保留本地值，其余字段采用其他窗口的值
+    console.warn("[Folder Tree] 合并其他窗口同时修改的记录:", id);
+    records[index] = mergeFields(JSON.parse(savedStr), records[index], JSON.parse(value));
+    return true;
   }
 
   /**
-   * 重命名项目
+   * 上次加载是否失败（失败时保存会被拒绝）
    */
-  async renameItem(itemId: string, newName: string): Promise<boolean> {
-    try {
-      const data = await this.loadData();
-      const item = data.items.find(i => i.id === itemId);
-      if (!item) return false;
-
-      item.name = newName;
-      item.modified = new Date().toISOString();
-
-      return await this.saveData(data);
-    } catch (error) {
-      console.error("[Folder Tree] 重命名项目失败:", error);
-      return false;
-    }
+  hasLoadError(): boolean {
+    return this.loadFailed;
   }
 
   /**
-   * 更新项目的部分属性
+   * 读取指定前缀下的所有记录
    */
-  async updateItem(itemId: string, updates: Partial<FolderItem>): Promise<boolean> {
-    try {
-      const data = await this.loadData();
-      const item = data.items.find(i => i.id === itemId);
-      if (!item) return false;
+  private async loadRecords<T extends { id: string }>(
+    keys: string[],
+    prefix: string
+  ): Promise<{ records: T[]; saved: Map<string, string> }> {
+    const recordKeys = keys.filter(key => key.startsWith(prefix));
+    const recordStrs: Array<string | null> = await Promise.all(
+      recordKeys.map(key => this.storage.get(key))
+    );
 
-      // 更新属性
-      Object.assign(item, updates);
-      item.modified = new Date().toISOString();
+    const records: T[] = [];
+    const saved = new Map<string, string>();
+    recordStrs.forEach((recordStr, index) => {
+      if (!recordStr) return;
+      try {
+        const record = JSON.parse(recordStr) as T;
+        records.push(record);
+        saved.set(record.id, recordStr);
+      } catch (error) {
+        console.error("[Folder Tree] 解析数据失败:", recordKeys[index], error);
+      }
+    });
 
-      return await this.saveData(data);
-    } catch (error) {
-      console.error("[Folder Tree] 更新项目失败:", error);
-      return false;
-    }
+    return { records, saved };
   }
 
   /**
-   * 移动项目
+   * 补全缺失的设置字段（向后兼容）
    */
-  async moveItem(
-    itemId: string,
-    newParentId: string | null,
-    insertIndex?: number
-  ): Promise<boolean> {
-    try {
-      const data = await this.loadData();
-      const item = data.items.find(i => i.id === itemId);
-      if (!item) return false;
+  normalizeSettings(settings: any): FolderTreeData["settings"] {
+    return {
+      expandedItems: settings?.expandedItems || [],
+      selectedItems: settings?.selectedItems || [],
+      closedNotebooks: settings?.closedNotebooks || [],
+      trashRetentionDays: settings?.trashRetentionDays ?? this.DEFAULT_TRASH_RETENTION_DAYS,
+      backupCount: settings?.backupCount ?? this.DEFAULT_BACKUP_COUNT,
+      recentTargets: settings?.recentTargets || [],
+    };
+  }
 
-      const oldParentId = item.parentId;
+  /**
+   * 从整体存储的旧数据迁移到按项目存储
+   */
+  private async migrateFromSingleBlob(): Promise<FolderTreeData> {
+    const dataStr = await this.storage.get(this.LEGACY_DATA_KEY);
+    if (!dataStr) {
+      return this.getDefaultData();
+    }
 
-      // 从旧父级移除
-      if (oldParentId) {
-        const oldParent = data.items.find(i => i.id === oldParentId);
-        if (oldParent && oldParent.children) {
-          oldParent.children = oldParent.children.filter(id => id !== itemId);
-        }
-      }
+    const raw = JSON.parse(dataStr);
+    const data = this.toFolderTreeData(await this.migrator.migrate(raw, detectLegacyVersion(raw)));
 
-      // 更新父级
-      item.parentId = newParentId;
-
-      // 添加到新父级
-      if (newParentId) {
-        const newParent = data.items.find(i => i.id === newParentId);
-        if (newParent && (newParent.type === "folder" || newParent.type === "notebook")) {
-          if (!newParent.children) newParent.children = [];
-          if (insertIndex !== undefined && insertIndex >= 0 && insertIndex <= newParent.children.length) {
-            newParent.children.splice(insertIndex, 0, itemId);
-          } else {
-            newParent.children.push(itemId);
-          }
-        }
-      }
+    console.log("[Folder Tree] 开始迁移到按项目存储，共", data.items.length, "个项目");
+
+    this.savedItems = new Map();
+    this.savedTrash = new Map();
+    this.savedMeta = null;
+    // 迁移时保留原有的修改时间；写入新记录和删除旧数据在同一次提交中完成
+    const success = await this.writeChanges(data, false, [{ key: this.LEGACY_DATA_KEY, value: null }]);
+    if (success) {
+      console.log("[Folder Tree] 按项目存储迁移完成");
+    }
+
+    return data;
+  }
 
-      // 重新计算排序
-      this.updateItemOrder(data, newParentId);
+  /**
+   * 保存数据（只写入发生变化的项目）
+   */
+  async saveData(data: FolderTreeData): Promise<OperationResult> {
+    if (this.loadFailed) {
+      console.warn("[Folder Tree] 数据加载失败，已拒绝保存以保护现有数据");
+      return fail("load-failed");
+    }
 
-      return await this.saveData(data);
+    try {
+      await this.writeChanges(data, true);
+      console.log("[Folder Tree] 数据保存成功");
+      return ok();
     } catch (error) {
-      console.error("[Folder Tree] 移动项目失败:", error);
-      return false;
+      console.error("[Folder Tree] 保存数据失败:", error);
+      return fail("storage-failure", { reason: describeError(error) });
     }
   }
 
   /**
-   * 重新排序项目
+   * 用给定数据完整覆盖存储（用于从备份恢复）
+   * 会删除存储中所有不属于该数据的项目和回收站记录，并解除加载失败的保存限制
    */
-  async reorderItems(parentId: string | null, itemIds: string[]): Promise<boolean> {
+  async overwriteData(data: FolderTreeData): Promise<OperationResult> {
     try {
-      const data = await this.loadData();
+      const keys: string[] = await this.storage.getKeys();
+      const keep = new Set([
+        ...data.items.map(item => `${this.ITEM_KEY_PREFIX}${item.id}`),
+        ...data.trash.map(entry => `${this.TRASH_KEY_PREFIX}${entry.id}`),
+      ]);
+      // 删除多余记录与写入新数据在同一次提交中完成
+      const removals: StorageOp[] = keys
+        .filter(key => key.startsWith(this.ITEM_KEY_PREFIX) || key.startsWith(this.TRASH_KEY_PREFIX))
+        .filter(key => !keep.has(key))
+        .map(key => ({ key, value: null }));
+
+      this.savedItems = new Map();
+      this.savedTrash = new Map();
+      this.savedMeta = null;
+      this.loadFailed = false;
+      // 在存储中的最新版本之上提交，其他窗口会据此重新读取
+      this.revision = await this.readRevision();
+      await this.writeChanges(data, false, removals);
+      return ok();
+    } catch (error) {
+      console.error("[Folder Tree] 覆盖数据失败:", error);
+      return fail("storage-failure", { reason: describeError(error) });
+    }
+  }
 
-      // 更新父级的子项目列表
-      if (parentId) {
-        const parent = data.items.find(i => i.id === parentId);
-        if (parent) {
-          parent.children = [...itemIds];
-        }
+  /**
+   * 与上次保存的快照对比，写入新增/修改的记录，删除已移除的记录
+   * 所有改动作为一次提交写入：先记录到 journal，全部写完后再删除 journal
+   * @param stampModified - 是否为发生变化的项目更新修改时间
+   * @param extraOps - 需要在同一次提交中执行的其他写入
+   */
+  private async writeChanges(data: FolderTreeData, stampModified: boolean, extraOps: StorageOp[] = []): Promise<boolean> {
+    const now = new Date().toISOString();
+    const ops: StorageOp[] = [...extraOps];
+
+    const nextItems = this.diffRecords(data.items, this.savedItems, this.ITEM_KEY_PREFIX, ops, (item, isNew) => {
+      if (stampModified && !isNew) {
+        item.modified = now;
       }
+    });
+    const nextTrash = this.diffRecords(data.trash, this.savedTrash, this.TRASH_KEY_PREFIX, ops);
 
-      // 更新所有项目的排序字段
-      itemIds.forEach((itemId, index) => {
-        const item = data.items.find(i => i.id === itemId);
-        if (item) {
-          item.order = index;
-        }
-      });
+    const metaStr = JSON.stringify({ version: SCHEMA_VERSION, settings: data.settings });
+    if (metaStr !== this.savedMeta) {
+      ops.push({ key: this.META_KEY, value: metaStr });
+    }
 
-      return await this.saveData(data);
-    } catch (error) {
-      console.error("[Folder Tree] 重新排序项目失败:", error);
-      return false;
+    let revision = this.revision;
+    if (ops.length > 0) {
+      revision++;
+      ops.push({ key: this.REVISION_KEY, value: String(revision) });
+    }
+
+    await this.commitOps(ops);
+
+    this.savedItems = nextItems;
+    this.savedTrash = nextTrash;
+    this.savedMeta = metaStr;
+    if (revision !== this.revision) {
+      this.revision = revision;
+      this.commitListener?.({ revision, ops });
     }
+    return true;
   }
 
   /**
-   * 获取下一个排序号
+   * 原子地执行一组写入
+   * 多项写入时先把整组写入记录到 journal；中途失败或插件被关闭时，下次加载会重新执行
    */
-  private getNextOrder(data: FolderTreeData, parentId: string | null): number {
-    const siblings = data.items.filter(item => item.parentId === parentId);
-    return Math.max(...siblings.map(item => item.order), -1) + 1;
+  private async commitOps(ops: StorageOp[]): Promise<void> {
+    if (ops.length === 0) return;
+    if (ops.length === 1) {
+      await this.applyOp(ops[0]);
+      return;
+    }
+
+    await this.storage.set(this.JOURNAL_KEY, JSON.stringify(ops));
+    await Promise.all(ops.map(op => this.applyOp(op)));
+    await this.storage.remove(this.JOURNAL_KEY);
+  }
+
+  private applyOp(op: StorageOp): Promise<void> {
+    return op.value === null
+      ? this.storage.remove(op.key)
+      : this.storage.set(op.key, op.value);
   }
 
   /**
-   * 更新项目排序
+   * 对比一组记录与上次保存的内容，收集需要执行的写入和删除
+   * @param onChanged - 记录发生变化、写入前调用（可修改记录）
+   * @returns 本次保存后的快照
    */
-  private updateItemOrder(data: FolderTreeData, parentId: string | null): void {
-    if (parentId) {
-      const parent = data.items.find(item => item.id === parentId);
-      if (parent && parent.children) {
-        parent.children.forEach((childId, index) => {
-          const child = data.items.find(item => item.id === childId);
-          if (child) {
-            child.order = index;
-          }
-        });
+  private diffRecords<T extends { id: string }>(
+    records: T[],
+    saved: Map<string, string>,
+    prefix: string,
+    ops: StorageOp[],
+    onChanged?: (record: T, isNew: boolean) => void
+  ): Map<string, string> {
+    const next = new Map<string, string>();
+
+    for (const record of records) {
+      let recordStr = JSON.stringify(record);
+      if (saved.get(record.id) !== recordStr) {
+        if (onChanged) {
+          onChanged(record, !saved.has(record.id));
+          recordStr = JSON.stringify(record);
+        }
+        ops.push({ key: `${prefix}${record.id}`, value: recordStr });
       }
-    } else {
-      // 根级项目排序
-      const rootItems = data.items.filter(item => item.parentId === null);
-      rootItems.sort((a, b) => a.order - b.order).forEach((item, index) => {
-        item.order = index;
-      });
+      next.set(record.id, recordStr);
     }
-  }
 
-  /**
-   * 保存设置
-   */
-  async saveSettings(settings: Partial<FolderTreeData["settings"]>): Promise<boolean> {
-    try {
-      const data = await this.loadData();
-      data.settings = { ...data.settings, ...settings };
-      return await this.saveData(data);
-    } catch (error) {
-      console.error("[Folder Tree] 保存设置失败:", error);
-      return false;
+    for (const recordId of saved.keys()) {
+      if (!next.has(recordId)) {
+        ops.push({ key: `${prefix}${recordId}`, value: null });
+      }
     }
+
+    return next;
   }
 }
 
-export { FolderTreePersistence, type FolderTreeData, type FolderItem };
\ No newline at end of file
+export { FolderTreePersistence, type FolderTreeData, type FolderItem, type TrashEntry, type StorageCommit, type RemoteMergeResult };
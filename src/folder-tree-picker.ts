@@ -0,0 +1,252 @@
+/**
+ * 文档树插件 - 目标选择模块
+ * 负责"添加到文档树"时选择笔记本或文件夹：可搜索，最近使用的目标排在最前，也可以直接新建文件夹
+ */
+
+import type { FolderTreeCore } from "./folder-tree-core";
+import type { FolderItem } from "./folder-tree-persistence";
+import { matchName } from "./folder-tree-search";
+import { t } from "./libs/l10n";
+
+/**
+ * 可选择的目标
+ */
+interface PickerTarget {
+  item: FolderItem;
+  path: string; // 父级路径，如"笔记本 / 文件夹"
+}
+
+class FolderTreeTargetPicker {
+  private core: FolderTreeCore;
+
+  constructor(core: FolderTreeCore) {
+    this.core = core;
+  }
+
+  /**
+   * 所有打开的笔记本中能包含子项的项目（按文档树顺序）
+   */
+  private collectTargets(): PickerTarget[] {
+    const targets: PickerTarget[] = [];
+    const visit = (items: FolderItem[], path: string) => {
+      items.forEach(item => {
+        if (!this.core.canContainItems(item)) return;
+        targets.push({ item, path });
+        visit(this.core.getItemChildren(item.id), path ? `${path} / ${item.name}` : item.name);
+      });
+    };
+    visit(this.core.getRootItems(), "");
+    return targets;
+  }
+
+  /**
+   * 显示选择框
+   * @param title - 选择框标题
+   * @returns 选中的目标ID，取消时为 null
+   */
+  pick(title: string): Promise<string | null> {
+    return new Promise(resolve => {
+      const targets = this.collectTargets();
+      const targetMap = new Map(targets.map(target => [target.item.id, target]));
+      const recent = this.core.getRecentTargets()
+        .map(item => targetMap.get(item.id))
+        .filter((target): target is PickerTarget => !!target);
+
+      const overlay = document.createElement("div");
+      overlay.className = "folder-tree-dialog-overlay";
+
+      const dialog = document.createElement("div");
+      dialog.className = "folder-tree-dialog folder-tree-picker";
+
+      const titleEl = document.createElement("div");
+      titleEl.className = "folder-tree-dialog-title";
+      titleEl.textContent = title;
+
+      const search = document.createElement("input");
+      search.type = "text";
+      search.className = "folder-tree-dialog-input";
+      search.placeholder = t("Search notebooks and folders");
+
+      const list = document.createElement("div");
+      list.className = "folder-tree-picker-list";
+
+      // 新建文件夹：在当前高亮的目标中创建
+      const newFolderRow = document.createElement("div");
+      newFolderRow.className = "folder-tree-picker-new";
+      newFolderRow.style.display = "none";
+      const newFolderInput = document.createElement("input");
+      newFolderInput.type = "text";
+      newFolderInput.className = "folder-tree-dialog-input";
+      newFolderRow.appendChild(newFolderInput);
+
+      const buttons = document.createElement("div");
+      buttons.className = "folder-tree-dialog-buttons";
+
+      const newFolderBtn = document.createElement("button");
+      newFolderBtn.className = "folder-tree-dialog-button secondary";
+      newFolderBtn.textContent = t("New folder");
+
+      const cancelBtn = document.createElement("button");
+      cancelBtn.className = "folder-tree-dialog-button secondary";
+      cancelBtn.textContent = t("Cancel");
+
+      const confirmBtn = document.createElement("button");
+      confirmBtn.className = "folder-tree-dialog-button primary";
+      confirmBtn.textContent = t("OK");
+
+      let visible: PickerTarget[] = [];
+      let activeIndex = 0;
+
+      // 没有最近使用的目标时，默认选中设置的默认笔记本
+      const defaultNotebook = this.core.getDefaultNotebook();
+      if (recent.length === 0 && defaultNotebook) {
+        activeIndex = Math.max(targets.findIndex(target => target.item.id === defaultNotebook.id), 0);
+      }
+
+      const close = (targetId: string | null) => {
+        overlay.remove();
+        resolve(targetId);
+      };
+
+      const renderRow = (target: PickerTarget, index: number): HTMLElement => {
+        const row = document.createElement("div");
+        row.className = `folder-tree-picker-item${index === activeIndex ? " active" : ""}`;
+        const icon = target.item.type === "notebook" ? "ti-notebook" : target.item.type === "folder" ? "ti-folder" : "ti-file";
+        row.innerHTML = `<i class="ti ${icon}"></i><span class="folder-tree-picker-name"></span><span class="folder-tree-picker-path"></span>`;
+        row.querySelector(".folder-tree-picker-name")!.textContent = target.item.name;
+        row.querySelector(".folder-tree-picker-path")!.textContent = target.path;
+        row.onmouseenter = () => setActive(index);
+        row.onclick = () => close(target.item.id);
+        return row;
+      };
+
+      const renderSection = (label: string) => {
+        const section = document.createElement("div");
+        section.className = "folder-tree-picker-section";
+        section.textContent = label;
+        list.appendChild(section);
+      };
+
+      const render = () => {
+        const query = search.value.trim();
+        list.innerHTML = "";
+
+        if (query) {
+          visible = targets.filter(target => matchName(target.item.name, query) || matchName(target.path, query));
+          visible.forEach((target, index) => list.appendChild(renderRow(target, index)));
+        } else {
+          // 没有搜索词时，最近使用的目标排在最前
+          const recentIds = new Set(recent.map(target => target.item.id));
+          const others = targets.filter(target => !recentIds.has(target.item.id));
+          visible = [...recent, ...others];
+          if (recent.length > 0) {
+            renderSection(t("Recent"));
+            recent.forEach((target, index) => list.appendChild(renderRow(target, index)));
+            if (others.length > 0) renderSection(t("All"));
+          }
+          others.forEach((target, index) => list.appendChild(renderRow(target, recent.length + index)));
+        }
+
+        if (visible.length === 0) {
+          const empty = document.createElement("div");
+          empty.className = "folder-tree-picker-empty";
+          empty.textContent = targets.length === 0 ? t("Create a notebook first") : t("No matching notebooks or folders");
+          list.appendChild(empty);
+        }
+        activeIndex = Math.min(activeIndex, Math.max(visible.length - 1, 0));
+        confirmBtn.disabled = visible.length === 0;
+      };
+
+      const setActive = (index: number) => {
+        if (visible.length === 0) return;
+        activeIndex = (index + visible.length) % visible.length;
+        const rows = list.querySelectorAll(".folder-tree-picker-item");
+        rows.forEach((row, i) => row.classList.toggle("active", i === activeIndex));
+        rows[activeIndex]?.scrollIntoView({ block: "nearest" });
+      };
+
+      const showNewFolderInput = () => {
+        const parent = visible[activeIndex];
+        newFolderInput.placeholder = parent
+          ? t("New folder in \"${name}\"", { name: parent.item.name })
+          : t("Folder name:");
+        newFolderInput.value = search.value.trim();
+        newFolderRow.style.display = "";
+        newFolderInput.focus();
+        newFolderInput.select();
+      };
+
+      const createFolder = async () => {
+        const name = newFolderInput.value.trim();
+        if (!name) return;
+        const parent = visible[activeIndex];
+        const result = await this.core.createItem(name, "folder", null, parent ? parent.item.id : null);
+        if (!result.ok) {
+          orca.notify("error", result.error.message);
+          return;
+        }
+        close(result.value.id);
+      };
+
+      search.oninput = () => {
+        activeIndex = 0;
+        render();
+      };
+      search.onkeydown = (e) => {
+        e.stopPropagation();
+        if (e.key === "ArrowDown") {
+          e.preventDefault();
+          setActive(activeIndex + 1);
+        } else if (e.key === "ArrowUp") {
+          e.preventDefault();
+          setActive(activeIndex - 1);
+        } else if (e.key === "Enter") {
+          e.preventDefault();
+          confirmBtn.click();
+        } else if (e.key === "Escape") {
+          close(null);
+        }
+      };
+      newFolderInput.onkeydown = (e) => {
+        e.stopPropagation();
+        if (e.key === "Enter") {
+          e.preventDefault();
+          createFolder();
+        } else if (e.key === "Escape") {
+          newFolderRow.style.display = "none";
+          search.focus();
+        }
+      };
+
+      newFolderBtn.onclick = showNewFolderInput;
+      cancelBtn.onclick = () => close(null);
+      confirmBtn.onclick = () => {
+        if (newFolderRow.style.display !== "none" && newFolderInput.value.trim()) {
+          createFolder();
+        } else if (visible[activeIndex]) {
+          close(visible[activeIndex].item.id);
+        }
+      };
+      overlay.onclick = (e) => {
+        if (e.target === overlay) close(null);
+      };
+
+      buttons.appendChild(newFolderBtn);
+      buttons.appendChild(cancelBtn);
+      buttons.appendChild(confirmBtn);
+      dialog.appendChild(titleEl);
+      dialog.appendChild(search);
+      dialog.appendChild(list);
+      dialog.appendChild(newFolderRow);
+      dialog.appendChild(buttons);
+      overlay.appendChild(dialog);
+      document.body.appendChild(overlay);
+
+      render();
+      setActive(activeIndex);
+      setTimeout(() => search.focus(), 0);
+    });
+  }
+}
+
+export { FolderTreeTargetPicker };
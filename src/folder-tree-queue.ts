@@ -0,0 +1,46 @@
+/**
+ * 文档树插件 - 操作队列模块
+ * 负责按顺序执行跨越 await 的多步操作，避免它们交错修改文档树
+ */
+
+class FolderTreeQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private pending = 0;
+
+  /**
+   * 将任务加入队列，在之前的任务全部完成后执行
+   * 任务失败不会影响后续任务，错误会返回给调用方
+   *
+   * 注意：任务内部不能再调用 run（会等待自身完成而死锁）
+   */
+  run<T>(task: () => Promise<T> | T): Promise<T> {
+    this.pending++;
+    const result = this.tail.then(() => task());
+    this.tail = result
+      .catch(error => {
+        console.error("[Folder Tree] 队列任务执行失败:", error);
+      })
+      .finally(() => {
+        this.pending--;
+      });
+    return result;
+  }
+
+  /**
+   * 是否有等待中或执行中的任务
+   */
+  isBusy(): boolean {
+    return this.pending > 0;
+  }
+
+  /**
+   * 等待当前队列中的任务全部完成
+   */
+  async idle(): Promise<void> {
+    while (this.pending > 0) {
+      await this.tail;
+    }
+  }
+}
+
+export { FolderTreeQueue };
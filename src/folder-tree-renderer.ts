@@ -4,6 +4,15 @@
  */
 
 import { FolderTreeCore } from "./folder-tree-core";
+import { FolderTreeExporter, downloadTextFile, type ExportFormat } from "./folder-tree-export";
+import { FolderTreeImporter, parseImportFile, pickTextFile, type ImportMode } from "./folder-tree-import";
+import { findBlockIdByAlias } from "./folder-tree-blocks";
+import { DEFAULT_WORKSPACE_ID, getWorkspaceName, type WorkspaceScope } from "./folder-tree-workspaces";
+import { ok, fail, describeError, type FolderTreeError, type OperationResult } from "./folder-tree-errors";
+import { shouldNotify, type NotificationType } from "./folder-tree-settings";
+import { matchName } from "./folder-tree-search";
+import { FolderTreeTargetPicker } from "./folder-tree-picker";
+import { t } from "./libs/l10n";
 
 declare global {
   interface Window {
@@ -13,18 +22,34 @@ declare global {
 
 class FolderTreeRenderer {
   private core: FolderTreeCore;
+  private exporter: FolderTreeExporter;
+  private importer: FolderTreeImporter;
   private container: HTMLElement | null = null;
   private data: any = null;
   private expandedItems: Set<string> = new Set();
   private selectedItems: Set<string> = new Set();
+  private selectionAnchorId: string | null = null; // Shift 选择范围的起点（最后一次单击或 Ctrl 点击的项目）
   private currentDraggedBlockId: string | null = null;
   private currentDraggedItem: { id: string; type: string } | null = null;
   private updatingIcons: Set<string> = new Set(); // 正在更新图标的项目ID集合
   private focusedItemId: string | null = null; // 聚焦的项目ID
   private closedNotebooksExpanded: boolean = false; // "已关闭的笔记本"区域是否展开
+  private trashExpanded: boolean = false; // "回收站"区域是否展开
+  private workspaceId: string | null = null; // 当前显示的工作区，切换后需重新读取展开和选中状态
+  private activeRowId: string | null = null; // 键盘导航的当前项目ID（唯一 tabindex=0 的行）
+  private typeAheadText: string = ''; // 按名称跳转时已输入的文字
+  private typeAheadTimer: ReturnType<typeof setTimeout> | null = null;
+  private filterBar: HTMLElement | null = null; // 顶部的过滤栏（重新渲染时保留，避免输入框失去焦点）
+  private filterInput: HTMLInputElement | null = null;
+  private filterQuery: string = ''; // 过滤关键词，为空时不过滤
+  private filterMatches: Set<string> = new Set(); // 名称匹配关键词的项目
+  private filterVisible: Set<string> = new Set(); // 过滤时显示的项目：匹配项、其父级路径和其子项
+  private filterExpanded: Set<string> = new Set(); // 过滤时的展开状态（不保存，清空过滤后恢复原来的展开状态）
 
   constructor(core: FolderTreeCore) {
     this.core = core;
+    this.exporter = new FolderTreeExporter(core);
+    this.importer = new FolderTreeImporter(core);
     this.setupGlobalDragListener();
   }
 
@@ -77,79 +102,319 @@ class FolderTreeRenderer {
     this.data = this.core.getData();
     this.expandedItems = new Set(this.core.getExpandedItems());
     this.selectedItems = new Set(this.core.getSelectedItems());
+    this.workspaceId = this.core.getActiveWorkspace().id;
 
     this.core.addChangeListener(() => {
       this.update();
     });
 
+    // 设置变化（如是否显示子项数量）后重新渲染
+    this.core.addSettingsListener(() => {
+      this.render();
+    });
+
+    // 后台操作（如自动保存）失败时没有调用方处理，需要在这里提示；前台操作的失败由调用处提示
+    this.core.addErrorListener((entry, background) => {
+      if (background) {
+        this.notify('error', entry.message, {
+          action: () => this.showErrorLog(),
+        });
+      }
+      this.refreshFooter();
+    });
+
     this.render();
   }
 
   render(): void {
     if (!this.container) return;
+    // 重新渲染会替换所有行，记录焦点是否在文档树中以便恢复
+    const hadFocus = this.container.contains(document.activeElement) && document.activeElement !== this.filterInput;
     this.data = this.core.getData();
-    this.container.innerHTML = '';
+    Array.from(this.container.children).forEach(child => {
+      if (child !== this.filterBar) child.remove();
+    });
+
+    if (!this.filterBar) {
+      this.filterBar = this.createFilterBar();
+    }
+    if (this.filterBar.parentElement !== this.container) {
+      this.container.prepend(this.filterBar);
+    }
+    // 语言变化后更新过滤栏的文字
+    this.filterInput!.placeholder = t('Filter');
+    (this.filterBar.querySelector('.folder-tree-filter-clear') as HTMLElement).title = t('Clear filter');
+    if (this.isFiltering()) {
+      this.computeFilter();
+    }
 
     const content = this.createContent();
     this.container.appendChild(content);
 
     const footer = this.createFooter();
     this.container.appendChild(footer);
+
+    this.updateRovingTabindex(hadFocus);
   }
 
   update(): void {
+    const workspaceId = this.core.getActiveWorkspace().id;
+    if (workspaceId !== this.workspaceId) {
+      this.workspaceId = workspaceId;
+      this.expandedItems = new Set(this.core.getExpandedItems());
+      this.selectedItems = new Set(this.core.getSelectedItems());
+      this.focusedItemId = null;
+    }
     this.render();
   }
 
+  /**
+   * 只重新渲染底部操作栏（错误记录数量变化时）
+   */
+  private refreshFooter(): void {
+    const footer = this.container?.querySelector(':scope > .folder-tree-actions');
+    if (footer) {
+      footer.replaceWith(this.createFooter());
+    }
+  }
+
   private createFooter(): HTMLElement {
     const actions = document.createElement('div');
     actions.className = 'folder-tree-actions';
 
+    // 工作区切换按钮（显示当前工作区名称）
+    const workspace = this.core.getActiveWorkspace();
+    const workspaceBtn = document.createElement('button');
+    workspaceBtn.className = 'folder-tree-btn folder-tree-workspace-btn';
+    workspaceBtn.title = workspace.scope === 'repo'
+      ? t('Workspace: ${name} (current repository only)', { name: getWorkspaceName(workspace) })
+      : t('Workspace: ${name}', { name: getWorkspaceName(workspace) });
+    workspaceBtn.innerHTML = `<i class="ti ${workspace.scope === 'repo' ? 'ti-database' : 'ti-world'}"></i><span class="folder-tree-workspace-name">${this.escapeHtml(getWorkspaceName(workspace))}</span>`;
+    workspaceBtn.onclick = (e) => this.showWorkspaceMenu(e);
+    actions.appendChild(workspaceBtn);
+
+    // 有错误记录时显示错误记录按钮（带数量）
+    const errorCount = this.core.getErrorLog().length;
+    if (errorCount > 0) {
+      const errorLogBtn = document.createElement('button');
+      errorLogBtn.className = 'folder-tree-btn folder-tree-error-log-btn';
+      errorLogBtn.title = t('Error log (${count})', { count: String(errorCount) });
+      errorLogBtn.innerHTML = `<i class="ti ti-alert-triangle"></i><span>${errorCount}</span>`;
+      errorLogBtn.onclick = () => this.showErrorLog();
+      actions.appendChild(errorLogBtn);
+    }
+
     // 如果处于聚焦模式，显示退出聚焦按钮
     if (this.focusedItemId) {
-      const exitFocusBtn = this.createButton('退出聚焦', this.createExitFocusIcon(), () => {
+      const exitFocusBtn = this.createButton(t('Exit focus'), this.createExitFocusIcon(), () => {
         this.exitFocus();
       });
       actions.appendChild(exitFocusBtn);
+    } else if (this.isFiltering()) {
+      // 过滤时的展开状态是临时的，不显示折叠/展开按钮
+      const clearFilterBtn = this.createButton(t('Clear filter'), this.createExitFocusIcon(), () => {
+        this.setFilter('');
+      });
+      actions.appendChild(clearFilterBtn);
     } else {
       // 正常模式：显示操作按钮
       // 折叠其他非选中项路径的项目
-      const collapseOthersBtn = this.createButton('折叠其他', this.createCollapseOthersIcon(), () => {
+      const collapseOthersBtn = this.createButton(t('Collapse others'), this.createCollapseOthersIcon(), () => {
         this.collapseOthers();
       });
       actions.appendChild(collapseOthersBtn);
 
       // 折叠全部按钮
-      const collapseAllBtn = this.createButton('折叠全部', this.createCollapseAllIcon(), () => {
+      const collapseAllBtn = this.createButton(t('Collapse all'), this.createCollapseAllIcon(), () => {
         this.collapseAll();
       });
       actions.appendChild(collapseAllBtn);
 
       // 展开全部按钮
-      const expandAllBtn = this.createButton('展开全部', this.createExpandAllIcon(), () => {
+      const expandAllBtn = this.createButton(t('Expand all'), this.createExpandAllIcon(), () => {
         this.expandAll();
       });
       actions.appendChild(expandAllBtn);
 
       // 创建笔记本按钮
-      const createNotebookBtn = this.createButton('创建笔记本', this.createNotebookIcon(), () => this.showCreateNotebookInput());
+      const createNotebookBtn = this.createButton(t('Create notebook'), this.createNotebookIcon(), () => this.showCreateNotebookInput());
       actions.appendChild(createNotebookBtn);
     }
 
     return actions;
   }
 
+  /**
+   * 显示工作区菜单：切换、新建、重命名、修改范围和删除
+   */
+  private async showWorkspaceMenu(e: MouseEvent): Promise<void> {
+    e.stopPropagation();
+    const existingMenu = document.querySelector('.folder-tree-context-menu');
+    if (existingMenu) {
+      existingMenu.remove();
+    }
+
+    const workspaces = await this.core.getWorkspaces();
+    const current = this.core.getActiveWorkspace();
+
+    const menu = document.createElement('div');
+    menu.className = 'folder-tree-context-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${e.clientX}px`;
+    menu.style.top = `${e.clientY}px`;
+    menu.style.zIndex = '10000';
+
+    const menuItems: Array<{ label: string; icon: string; action: () => void; className?: string }> = [
+      ...workspaces.map(workspace => ({
+        label: workspace.scope === 'repo'
+          ? t('${name} (current repository only)', { name: this.escapeHtml(getWorkspaceName(workspace)) })
+          : this.escapeHtml(getWorkspaceName(workspace)),
+        icon: workspace.id === current.id ? '✓' : '　',
+        action: () => this.switchWorkspace(workspace.id),
+      })),
+      {
+        label: t('New workspace...'),
+        icon: '➕',
+        action: () => this.showCreateWorkspaceInput()
+      },
+      {
+        label: t('Rename current workspace...'),
+        icon: '✏️',
+        action: () => this.showRenameWorkspaceInput()
+      },
+    ];
+
+    // 默认工作区始终共享且不能删除
+    if (current.id !== DEFAULT_WORKSPACE_ID) {
+      menuItems.push(
+        {
+          label: current.scope === 'repo' ? t('Share with all repositories') : t('Limit to current repository'),
+          icon: current.scope === 'repo' ? '🌐' : '📁',
+          action: () => this.toggleWorkspaceScope()
+        },
+        {
+          label: t('Delete current workspace'),
+          icon: '🗑️',
+          action: () => this.deleteWorkspace(),
+          className: 'danger'
+        }
+      );
+    }
+
+    menuItems.forEach(item => {
+      const menuItem = document.createElement('div');
+      menuItem.className = `folder-tree-context-menu-item ${item.className || ''}`;
+      menuItem.innerHTML = `${item.icon} ${item.label}`;
+      menuItem.onclick = () => {
+        item.action();
+        menu.remove();
+      };
+      menu.appendChild(menuItem);
+    });
+
+    document.body.appendChild(menu);
+
+    const closeMenu = (event: MouseEvent) => {
+      if (!menu.contains(event.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
+    };
+    setTimeout(() => {
+      document.addEventListener('click', closeMenu);
+    }, 0);
+
+    const menuRect = menu.getBoundingClientRect();
+    if (menuRect.right > window.innerWidth) {
+      menu.style.left = `${window.innerWidth - menuRect.width - 10}px`;
+    }
+    if (menuRect.bottom > window.innerHeight) {
+      menu.style.top = `${window.innerHeight - menuRect.height - 10}px`;
+    }
+  }
+
+  private async switchWorkspace(workspaceId: string): Promise<void> {
+    const result = await this.core.switchWorkspace(workspaceId);
+    if (!result.ok) {
+      this.notifyError(result.error);
+    }
+  }
+
+  private showCreateWorkspaceInput(): void {
+    const dialog = this.createInputDialog(t('New workspace'), t('Workspace name:'), '');
+    dialog.show(async (name: string) => {
+      if (!name.trim()) return;
+
+      const scope = await this.showListDialog(
+        t('Workspace scope'),
+        t('Should "${name}" only appear in the current repository, or be shared by all repositories?', { name: name.trim() }),
+        [],
+        [
+          { value: 'repo', label: t('Current repository only') },
+          { value: 'app', label: t('Shared by all repositories') },
+        ]
+      );
+      if (!scope) return;
+
+      const result = await this.core.createWorkspace(name, scope as WorkspaceScope);
+      if (result.ok) {
+        this.notify('success', t('Created and switched to workspace "${name}"', { name: result.value.name }));
+      } else {
+        this.notifyError(result.error);
+      }
+    });
+  }
+
+  private showRenameWorkspaceInput(): void {
+    const current = this.core.getActiveWorkspace();
+    const dialog = this.createInputDialog(t('Rename workspace'), t('New name:'), getWorkspaceName(current));
+    dialog.show(async (name: string) => {
+      if (!name.trim() || name.trim() === getWorkspaceName(current)) return;
+      const result = await this.core.renameWorkspace(current.id, name);
+      if (!result.ok) {
+        this.notifyError(result.error);
+      }
+    });
+  }
+
+  private async toggleWorkspaceScope(): Promise<void> {
+    const current = this.core.getActiveWorkspace();
+    const scope: WorkspaceScope = current.scope === 'repo' ? 'app' : 'repo';
+    const result = await this.core.setWorkspaceScope(current.id, scope);
+    if (result.ok) {
+      const name = getWorkspaceName(current);
+      this.notify('success', scope === 'repo'
+        ? t('"${name}" now only appears in the current repository', { name })
+        : t('"${name}" is now shared by all repositories', { name }));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
+
+  private async deleteWorkspace(): Promise<void> {
+    const current = this.core.getActiveWorkspace();
+    if (!confirm(t('Delete workspace "${name}"? All of its items and backups will be deleted. This cannot be undone.', { name: getWorkspaceName(current) }))) return;
+
+    const result = await this.core.deleteWorkspace(current.id);
+    if (result.ok) {
+      this.notify('success', t('Deleted workspace "${name}"', { name: getWorkspaceName(current) }));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
+
   /**
    * 聚焦指定项目
    */
   private focusItem(itemId: string, collapseOthers: boolean = false): void {
     const item = this.core.getItemById(itemId);
     if (!item) {
-      (window as any).orca.notify('error', '项目不存在');
+      this.notify('error', t('The item does not exist'));
       return;
     }
 
     this.focusedItemId = itemId;
+    this.clearFilter();
     
     // 获取路径并自动展开路径上的所有项目
     const path = this.getItemPath(itemId);
@@ -239,7 +504,7 @@ class FolderTreeRenderer {
     const selectedIds = Array.from(this.selectedItems);
     
     if (selectedIds.length === 0) {
-      (window as any).orca.notify('info', '请先选择一个项目');
+      this.notify('info', t('Select an item first'));
       return;
     }
 
@@ -248,7 +513,7 @@ class FolderTreeRenderer {
     const item = this.core.getItemById(selectedId);
     
     if (!item) {
-      (window as any).orca.notify('error', '选中的项目不存在');
+      this.notify('error', t('The selected item does not exist'));
       return;
     }
 
@@ -318,10 +583,25 @@ class FolderTreeRenderer {
   private createContent(): HTMLElement {
     const content = document.createElement('div');
     content.className = 'plugin-folder-tree-content orca-favorites-items';
+    content.setAttribute('role', 'tree');
+    content.addEventListener('keydown', (e) => this.handleTreeKeydown(e));
 
     // 设置内容区域的拖拽处理
     this.setupContentDropZone(content);
 
+    // 过滤时只显示匹配项及其父级路径（不显示已关闭的笔记本和回收站）
+    if (this.isFiltering()) {
+      const rootItems = this.core.getRootItems().filter(item => this.filterVisible.has(item.id));
+      if (rootItems.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'folder-tree-empty';
+        empty.textContent = t('No matching items');
+        content.appendChild(empty);
+      }
+      rootItems.forEach(item => content.appendChild(this.createItemElement(item, 0)));
+      return content;
+    }
+
     // 如果处于聚焦模式，只显示聚焦项目的路径及其相关项目
     if (this.focusedItemId) {
       const path = this.getItemPath(this.focusedItemId);
@@ -347,8 +627,9 @@ class FolderTreeRenderer {
       // 正常模式：获取所有根级项目（包括笔记本和文档）
       const rootItems = this.core.getRootItems();
       const closedNotebooks = this.core.getClosedNotebookItems();
+      const trashEntries = this.core.getTrashEntries();
 
-      if (rootItems.length === 0 && closedNotebooks.length === 0) {
+      if (rootItems.length === 0 && closedNotebooks.length === 0 && trashEntries.length === 0) {
         content.appendChild(this.createEmptyState());
       } else {
         // 渲染所有根级项目
@@ -362,6 +643,12 @@ class FolderTreeRenderer {
           const closedSection = this.createClosedNotebooksSection(closedNotebooks);
           content.appendChild(closedSection);
         }
+
+        // 渲染"回收站"区域
+        if (trashEntries.length > 0) {
+          const trashSection = this.createTrashSection(trashEntries);
+          content.appendChild(trashSection);
+        }
       }
     }
 
@@ -404,9 +691,9 @@ class FolderTreeRenderer {
           <path d="M13 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V9z"/><polyline points="13 2 13 9 20 9"/>
         </svg>
       </div>
-      <div>暂无笔记本</div>
+      <div>${t('No notebooks yet')}</div>
       <div style="font-size: 11px; margin-top: 4px; opacity: 0.7;">
-        拖拽块到此处或点击 + 按钮创建
+        ${t('Drag blocks here or click the + button to create one')}
       </div>
     `;
     return empty;
@@ -435,7 +722,7 @@ class FolderTreeRenderer {
       <span class="folder-tree-item-icon">
         <i class="ti ti-notebook-off"></i>
       </span>
-      <span class="folder-tree-item-name">已关闭的笔记本 <span class="folder-tree-item-count">(${closedNotebooks.length})</span></span>
+      <span class="folder-tree-item-name">${t('Closed notebooks')} <span class="folder-tree-item-count">(${closedNotebooks.length})</span></span>
       <div class="folder-tree-item-actions"></div>
     `;
 
@@ -482,7 +769,7 @@ class FolderTreeRenderer {
       </span>
       <span class="folder-tree-item-name">${this.escapeHtml(notebook.name)}</span>
       <div class="folder-tree-item-actions">
-        <button class="folder-tree-btn" title="恢复">
+        <button class="folder-tree-btn" title="${t('Restore')}">
           <i class="ti ti-restore"></i>
         </button>
       </div>
@@ -508,1110 +795,2232 @@ class FolderTreeRenderer {
   }
 
   /**
-   * 关闭笔记本
+   * 创建"回收站"区域
    */
-  private async closeNotebook(notebookId: string): Promise<void> {
-    const success = await this.core.closeNotebook(notebookId);
-    if (success) {
-      this.render();
-      (window as any).orca.notify('success', '笔记本已关闭');
-    } else {
-      (window as any).orca.notify('error', '关闭失败');
-    }
-  }
+  private createTrashSection(entries: any[]): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'folder-tree-closed-section folder-tree-trash-section';
 
-  /**
-   * 恢复笔记本
-   */
-  private async restoreNotebook(notebookId: string): Promise<void> {
-    const success = await this.core.restoreNotebook(notebookId);
-    if (success) {
-      this.render();
-      (window as any).orca.notify('success', '笔记本已恢复');
-    } else {
-      (window as any).orca.notify('error', '恢复失败');
-    }
-  }
+    // 创建头部
+    const header = document.createElement('div');
+    header.className = 'folder-tree-item is-root';
+    header.setAttribute('data-id', 'trash-section');
+    header.setAttribute('data-level', '0');
 
-  /**
-   * 对指定项目的子项进行自然排序
-   */
-  private async naturalSortChildren(parentId: string | null): Promise<void> {
-    const success = await this.core.naturalSortChildren(parentId);
-    if (success) {
+    const isExpanded = this.trashExpanded;
+    const expandIcon = isExpanded
+      ? '<i class="ti ti-chevron-right folder-tree-expand-icon expanded"></i>'
+      : '<i class="ti ti-chevron-right folder-tree-expand-icon"></i>';
+
+    header.innerHTML = `
+      ${expandIcon}
+      <span class="folder-tree-item-icon">
+        <i class="ti ti-trash"></i>
+      </span>
+      <span class="folder-tree-item-name">${t('Trash')} <span class="folder-tree-item-count">(${entries.length})</span></span>
+      <div class="folder-tree-item-actions"></div>
+    `;
+
+    // 点击头部切换展开/折叠
+    header.onclick = () => {
+      this.trashExpanded = !this.trashExpanded;
       this.render();
-      (window as any).orca.notify('success', '排序完成');
-    } else {
-      (window as any).orca.notify('error', '排序失败');
-    }
-  }
+    };
 
-  /**
-   * 在聚焦模式下创建项目元素（只显示路径上的项目）
-   */
-  private createItemElementWithFocus(item: any, level: number, focusedItemId: string, path: any[]): HTMLElement {
-    const itemEl = this.createItemElement(item, level);
-    
-    // 如果这个项目在路径上但不是最后一个（不是聚焦项目），需要检查是否有子项在路径上
-    const currentIndex = path.findIndex(p => p.id === item.id);
-    if (currentIndex >= 0 && currentIndex < path.length - 1) {
-      // 这个项目在路径上，下一个路径项目应该是它的子项
-      const nextPathItem = path[currentIndex + 1];
-      // 只展开并显示路径上的下一个子项，隐藏其他子项
-      const childrenEl = itemEl.querySelector('.folder-tree-items');
-      if (childrenEl) {
-        // 移除所有子项，只保留路径上的下一个
-        childrenEl.innerHTML = '';
-        const nextItemEl = this.createItemElementWithFocus(nextPathItem, level + 1, focusedItemId, path);
-        childrenEl.appendChild(nextItemEl);
-      }
-    } else if (currentIndex === path.length - 1) {
-      // 这是聚焦项目本身，正常显示其子项（如果有）
-      // createItemElement 已经处理了
-    }
-    
-    return itemEl;
-  }
+    header.oncontextmenu = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.showTrashContextMenu(e);
+    };
 
-  /**
-   * 创建统一的项目元素（笔记本、文件夹或文档）
-   */
-  private createItemElement(item: any, level: number): HTMLElement {
-    const itemEl = document.createElement('div');
-    
-    // 根据类型添加对应的class
-    if (item.type === 'notebook') {
-      itemEl.className = 'folder-tree-notebook';
-    } else if (item.type === 'folder') {
-      itemEl.className = 'folder-tree-folder';
-    } else {
-      itemEl.className = 'folder-tree-document';
-    }
+    section.appendChild(header);
 
-    const isExpanded = this.expandedItems.has(item.id);
-    // 通过 core 获取真实的子项数量，而不是依赖 item.children（可能不存在）
-    const childrenCount = (item.type === 'notebook' || item.type === 'folder')
-      ? this.core.getItemChildren(item.id).length
-      : 0;
-    const hasChildren = childrenCount > 0;
-    const isSelected = this.selectedItems.has(item.id);
+    // 如果展开，显示回收站中的项目
+    if (isExpanded) {
+      const childrenContainer = document.createElement('div');
+      childrenContainer.className = 'folder-tree-items';
 
-    // 创建项目头部
-    const headerEl = this.createItemHeader(item, isExpanded, isSelected, level, hasChildren, childrenCount);
-    itemEl.appendChild(headerEl);
+      entries.forEach(entry => {
+        const entryEl = this.createTrashEntryElement(entry);
+        if (entryEl) {
+          childrenContainer.appendChild(entryEl);
+        }
+      });
 
-    // 如果是展开的容器类型，添加子元素
-    if (isExpanded && hasChildren) {
-      const childrenEl = this.createChildrenElement(item.id, level + 1);
-      itemEl.appendChild(childrenEl);
+      section.appendChild(childrenContainer);
     }
 
-    return itemEl;
+    return section;
   }
 
   /**
-   * 创建项目头部元素
+   * 创建回收站中的项目元素
    */
-  private createItemHeader(item: any, isExpanded: boolean, isSelected: boolean, level: number, hasChildren: boolean, childrenCount: number = 0): HTMLElement {
-    const isContainer = item.type === 'notebook' || item.type === 'folder';
-
-    // 统一使用 folder-tree-item 类，为不同类型添加特殊标识
-    const isRoot = item.parentId === null;
-    const isParent = hasChildren;
-    const notebookClass = item.type === 'notebook' ? ' is-notebook' : '';
-    const rootClass = isRoot ? ' is-root' : '';
-    const parentClass = isParent ? ' is-parent' : ' is-child';
-    const selectedClass = isSelected ? ' selected' : '';
-    const header = document.createElement('div');
-    header.className = `folder-tree-item${notebookClass}${rootClass}${parentClass}${selectedClass}`.trim();
-    header.setAttribute('data-id', item.id);
-    header.setAttribute('data-level', level.toString());
-    // 缩进由 CSS 控制，不设置内联样式
-
-    // 展开/折叠图标
-    const expandIcon = hasChildren
-      ? `<i class="ti ti-chevron-right folder-tree-expand-icon ${isExpanded ? 'expanded' : ''}"></i>`
-      : '<span style="width: 14px; display: inline-block;"></span>';
+  private createTrashEntryElement(entry: any): HTMLElement | null {
+    const item = this.core.getTrashEntryItem(entry);
+    if (!item) return null;
 
-    // 项目图标（已经包含了完整的HTML结构）
-    const itemIcon = this.getItemIcon(item);
+    const itemEl = document.createElement('div');
+    itemEl.className = 'folder-tree-item';
+    itemEl.setAttribute('data-id', `trash-${entry.id}`);
+    itemEl.setAttribute('data-level', '1');
+    itemEl.title = t('Deleted at ${time}', { time: new Date(entry.deletedAt).toLocaleString() });
 
-    // 构建名称显示：如果是根级项目且有子项，显示数量
-    let nameDisplay = this.escapeHtml(item.name);
-    if (isRoot && childrenCount > 0) {
-      nameDisplay = `${nameDisplay} <span class="folder-tree-item-count">(${childrenCount})</span>`;
-    }
+    const iconClass = item.type === 'notebook' ? 'ti ti-notebook'
+      : item.type === 'folder' && !item.blockId ? 'ti ti-folder'
+      : item.icon && item.icon.startsWith('ti ') ? item.icon : 'ti ti-cube';
+    const childCount = entry.items.length - 1;
+    const countDisplay = childCount > 0 && this.core.getSettings().showChildCounts ? ` <span class="folder-tree-item-count">(${childCount})</span>` : '';
 
-    // 构建HTML - 统一使用 folder-tree-item-* 类
-    header.innerHTML = `
-      ${expandIcon}
-      ${itemIcon}
-      <span class="folder-tree-item-name">${nameDisplay}</span>
+    itemEl.innerHTML = `
+      <span style="width: 14px; display: inline-block;"></span>
+      <span class="folder-tree-item-icon">
+        <i class="${iconClass}"></i>
+      </span>
+      <span class="folder-tree-item-name">${this.escapeHtml(item.name)}${countDisplay}</span>
       <div class="folder-tree-item-actions">
-        <button class="folder-tree-btn" title="重命名">
-          <i class="ti ti-pencil"></i>
+        <button class="folder-tree-btn" title="${t('Restore')}" data-action="restore">
+          <i class="ti ti-restore"></i>
+        </button>
+        <button class="folder-tree-btn" title="${t('Delete permanently')}" data-action="delete">
+          <i class="ti ti-x"></i>
         </button>
       </div>
     `;
 
-    // 设置事件处理
-    this.setupItemEvents(header, item);
-
-    return header;
+    const restoreBtn = itemEl.querySelector('[data-action="restore"]') as HTMLElement | null;
+    if (restoreBtn) {
+      restoreBtn.onclick = async (e) => {
+        e.stopPropagation();
+        await this.restoreFromTrash(entry.id);
+      };
+    }
+
+    const deleteBtn = itemEl.querySelector('[data-action="delete"]') as HTMLElement | null;
+    if (deleteBtn) {
+      deleteBtn.onclick = async (e) => {
+        e.stopPropagation();
+        await this.deleteFromTrash(entry.id, item.name);
+      };
+    }
+
+    return itemEl;
   }
 
   /**
-   * 获取项目图标
+   * 显示回收站右键菜单
    */
-  private getItemIcon(item: any): string {
-    // 根据类型和保存的图标信息生成图标
-    let iconHtml: string;
-    const isRootItem = item.parentId === null; // 根级项目判断
+  private showTrashContextMenu(e: MouseEvent): void {
+    const existingMenu = document.querySelector('.folder-tree-context-menu');
+    if (existingMenu) {
+      existingMenu.remove();
+    }
 
-    if (item.type === 'notebook') {
-      iconHtml = `<i class="ti ti-notebook"></i>`;
-    } else if (item.type === 'folder' && !item.blockId) {
-      // 纯文件夹（无 blockId）使用文件夹图标
-      iconHtml = `<i class="ti ti-folder"></i>`;
-    } else if (item.icon) {
-      // 使用保存的图标（可能是 Tabler 或 emoji）
-      if (item.icon.startsWith('ti ')) {
-        iconHtml = `<i class="${item.icon}"></i>`;
-      } else {
-        iconHtml = item.icon;
+    const menu = document.createElement('div');
+    menu.className = 'folder-tree-context-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${e.clientX}px`;
+    menu.style.top = `${e.clientY}px`;
+    menu.style.zIndex = '10000';
+
+    const menuItems: Array<{ label: string; icon: string; action: () => void; className?: string }> = [
+      {
+        label: t('Retention (${days} days)', { days: String(this.core.getTrashRetentionDays()) }),
+        icon: '⏳',
+        action: () => this.showTrashRetentionInput()
+      },
+      {
+        label: t('Empty trash'),
+        icon: '🗑️',
+        action: () => this.emptyTrash(),
+        className: 'danger'
       }
-    } else if (item.blockId && item.type === 'document') {
-      // 如果有 blockId 但没有保存的图标，异步获取块信息并更新图标
-      this.updateIconForItemAsync(item);
-      // 先显示默认图标，等异步更新完成后再刷新
-      iconHtml = `<i class="ti ti-cube"></i>`;
-    } else {
-      // 默认使用立方体图标（文档）
-      iconHtml = `<i class="ti ti-cube"></i>`;
-    }
+    ];
 
-    // 处理颜色：
-    // 1. 如果有 item.color（从 _color 属性读取），应用到图标的 color 属性
-    // 2. 背景色逻辑保持不变：根级项目不应用颜色，非根级项目应用默认颜色 #d6d6d6
-    const hasCustomColor = !!item.color;
-    const shouldApplyBgColor = !isRootItem;
-    
-    let iconStyle = '';
-    const styleParts: string[] = [];
-    
-    // 应用自定义颜色到 color 属性
-    if (item.color) {
-      styleParts.push(`color: ${item.color}`);
-    }
-    
-    // 应用背景色（非根级项目的默认背景色）
-    if (shouldApplyBgColor) {
-      const bgColor = item.color || '#d6d6d6';
-      styleParts.push(`background-color: oklch(from ${bgColor} calc(1.2 * l) c h / 25%)`);
-    }
-    
-    if (styleParts.length > 0) {
-      iconStyle = ` style="${styleParts.join('; ')};"`;
-    }
+    menuItems.forEach(item => {
+      const menuItem = document.createElement('div');
+      menuItem.className = `folder-tree-context-menu-item ${item.className || ''}`;
+      menuItem.innerHTML = `${item.icon} ${item.label}`;
+      menuItem.onclick = () => {
+        item.action();
+        menu.remove();
+      };
+      menu.appendChild(menuItem);
+    });
 
-    if (item.color || item.icon) {
-      console.log('[Folder Tree] 渲染 - 图标:', item.icon, '颜色:', item.color || '(无颜色)', '项目:', item.name, '是否根级:', isRootItem);
-    }
+    document.body.appendChild(menu);
 
-    const isTabler = /<i\s+class=\"ti\s+/i.test(iconHtml);
-    const iconClass = `folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${shouldApplyBgColor ? ' has-color' : ''}`;
+    const closeMenu = (event: MouseEvent) => {
+      if (!menu.contains(event.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
+    };
+    setTimeout(() => {
+      document.addEventListener('click', closeMenu);
+    }, 0);
 
-    return `<span class="${iconClass}"${iconStyle}>${iconHtml}</span>`;
+    const menuRect = menu.getBoundingClientRect();
+    if (menuRect.right > window.innerWidth) {
+      menu.style.left = `${window.innerWidth - menuRect.width - 10}px`;
+    }
+    if (menuRect.bottom > window.innerHeight) {
+      menu.style.top = `${window.innerHeight - menuRect.height - 10}px`;
+    }
   }
 
   /**
-   * 异步更新项目的图标（如果有 blockId 但没有保存的图标）
+   * 从回收站恢复
    */
-  private async updateIconForItemAsync(item: any): Promise<void> {
-    // 避免重复更新
-    if (!item.blockId || item.icon || this.updatingIcons.has(item.id)) {
-      return;
+  private async restoreFromTrash(entryId: string): Promise<void> {
+    const result = await this.core.restoreFromTrash(entryId);
+    if (result.ok) {
+      this.notify('success', t('Restored from the trash'));
+    } else {
+      this.notifyError(result.error);
     }
+  }
 
-    // 标记为正在更新
-    this.updatingIcons.add(item.id);
+  /**
+   * 从回收站彻底删除
+   */
+  private async deleteFromTrash(entryId: string, name: string): Promise<void> {
+    if (!confirm(t('Permanently delete "${name}"?', { name }))) return;
 
-    try {
-      const block = await (window as any).orca.invokeBackend('get-block', item.blockId);
-      if (!block) {
-        return;
-      }
+    const result = await this.core.deleteFromTrash(entryId);
+    if (result.ok) {
+      this.notifyWithUndo(t('Permanently deleted'));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
 
-      // 获取块属性
-      const iconProp = this.findProperty(block, '_icon');
-      const reprProp = this.findProperty(block, '_repr');
+  /**
+   * 清空回收站
+   */
+  private async emptyTrash(): Promise<void> {
+    if (!confirm(t('Empty the trash?'))) return;
 
-      let iconClass = 'ti ti-cube';
+    const result = await this.core.emptyTrash();
+    if (result.ok) {
+      this.notifyWithUndo(t('Trash emptied'));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
 
-      // 优先使用 _icon 属性
-      if (iconProp && iconProp.type === 1 && iconProp.value && iconProp.value.trim()) {
-        iconClass = iconProp.value;
-      } else if (block.aliases && block.aliases.length > 0) {
-        // 别名块：判断是页面还是标签
-        const hideProp = this.findProperty(block, '_hide');
-        iconClass = hideProp && hideProp.value ? 'ti ti-file' : 'ti ti-hash';
-      } else if (reprProp && reprProp.value && reprProp.value.type) {
-        // 根据 _repr 类型推断图标
-        iconClass = this.getIconByBlockType(reprProp.value.type, reprProp.value);
+  /**
+   * 设置回收站保留天数
+   */
+  private showTrashRetentionInput(): void {
+    const dialog = this.createInputDialog(
+      t('Trash retention'),
+      t('Items older than this many days are deleted permanently:'),
+      String(this.core.getTrashRetentionDays())
+    );
+    dialog.show(async (value: string) => {
+      const days = parseInt(value, 10);
+      const result = await this.core.setTrashRetentionDays(days);
+      if (result.ok) {
+        this.notify('success', t('Trash retention set to ${days} days', { days: String(days) }));
+      } else {
+        this.notifyError(result.error);
       }
+    });
+  }
 
-      // 更新文档的图标
-      if (iconClass !== 'ti ti-cube' || item.icon !== iconClass) {
-        await this.core.updateDocumentIcon(item.id, iconClass);
-        // 重新渲染该项目
-        this.updateItemIconInDOM(item.id, iconClass);
-      }
-    } catch (error) {
-      console.error('[Folder Tree] 更新图标失败:', error, 'item:', item.id);
-    } finally {
-      // 移除更新标记
-      this.updatingIcons.delete(item.id);
+  /**
+   * 关闭笔记本
+   */
+  private async closeNotebook(notebookId: string): Promise<void> {
+    const result = await this.core.closeNotebook(notebookId);
+    if (result.ok) {
+      this.render();
+      this.notify('success', t('Notebook closed'));
+    } else {
+      this.notifyError(result.error);
     }
   }
 
   /**
-   * 更新 DOM 中的图标显示（局部更新）
+   * 恢复笔记本
    */
-  private updateItemIconInDOM(itemId: string, iconClass: string): void {
-    const itemEl = this.container?.querySelector(`[data-id="${itemId}"]`) as HTMLElement | null;
-    if (!itemEl) return;
-
-    const iconEl = itemEl.querySelector('.folder-tree-item-icon') as HTMLElement | null;
-    if (!iconEl) return;
+  private async restoreNotebook(notebookId: string): Promise<void> {
+    const result = await this.core.restoreNotebook(notebookId);
+    if (result.ok) {
+      this.render();
+      this.notify('success', t('Notebook restored'));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
 
-    // 获取原图标的样式（保留颜色等）
-    const originalStyle = iconEl.getAttribute('style') || '';
-    
-    // 更新图标 HTML
-    const iconHtml = `<i class="${iconClass}"></i>`;
-    const isTabler = iconClass.startsWith('ti ');
-    const wrapperClass = `folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${iconEl.classList.contains('has-color') ? ' has-color' : ''}`;
-    
-    // 保留原有样式
-    iconEl.outerHTML = `<span class="${wrapperClass}"${originalStyle ? ` style="${originalStyle}"` : ''}>${iconHtml}</span>`;
+  /**
+   * 按设置的提示级别显示提示
+   */
+  private notify(type: NotificationType, message: string, options?: { action?: () => void | Promise<void> }): void {
+    if (shouldNotify(this.core.getSettings().notificationLevel, type)) {
+      (window as any).orca.notify(type, message, options);
+    }
   }
 
   /**
-   * 根据块类型获取图标（参考 tabsman 的逻辑）
-   * @param blockType - 块类型（从 _repr 属性读取）
-   * @param reprValue - _repr 属性的值，可能包含额外信息（如 heading 的 level）
-   * @returns 图标类名
+   * 显示带"撤销"操作的成功提示
    */
-  private getIconByBlockType(blockType: string, reprValue?: any): string {
-    switch (blockType) {
-      case 'journal':
-        return 'ti ti-calendar-smile';
-      case 'heading':
-        // 根据标题级别选择不同的图标
-        const headingLevel = reprValue?.level || 1;
-        switch (headingLevel) {
-          case 1: return 'ti ti-h-1';
-          case 2: return 'ti ti-h-2';
-          case 3: return 'ti ti-h-3';
-          case 4: return 'ti ti-h-4';
-          default: return 'ti ti-h-1';
+  private notifyWithUndo(message: string): void {
+    // 记住提示对应的操作：之后已撤销或又有其他操作时，提示中的撤销不再生效
+    const entryId = this.core.getUndoEntryId();
+    this.notify('success', message, {
+      action: async () => {
+        const label = entryId === null ? null : await this.core.undo(entryId);
+        if (label) {
+          this.notify('info', t('Undone: ${label}', { label }));
+        } else {
+          this.notify('info', t('This operation has already been undone or was followed by other changes'));
         }
-      case 'text':
-        return 'ti ti-cube';
-      case 'ul':
-        return 'ti ti-list';
-      case 'ol':
-        return 'ti ti-list-numbers';
-      case 'task':
-        return 'ti ti-checkbox';
-      case 'code':
-        return 'ti ti-code';
-      case 'quote2':
-        return 'ti ti-blockquote';
-      case 'image':
-        return 'ti ti-photo';
-      default:
-        return 'ti ti-cube';
-    }
+      },
+    });
   }
 
   /**
-   * 设置项目事件处理
+   * 显示操作失败的具体原因
    */
-  private setupItemEvents(header: HTMLElement, item: any): void {
-    const expandIcon = header.querySelector('.folder-tree-expand-icon') as HTMLElement;
+  private notifyError(error: FolderTreeError): void {
+    this.notify('error', error.message);
+  }
 
-    // 如果有展开图标，设置点击事件
-    if (expandIcon) {
-    expandIcon.onclick = (e) => {
-      e.stopPropagation();
-        this.toggleItem(item.id);
-      };
+  /**
+   * 显示本次运行中的错误记录
+   */
+  async showErrorLog(): Promise<void> {
+    const entries = this.core.getErrorLog();
+    if (entries.length === 0) {
+      this.notify('info', t('No errors recorded'));
+      return;
     }
 
-    // 整个条目点击事件
-    header.onclick = (e) => {
-      // 先选中
-      this.selectItem(item.id);
+    const choice = await this.showListDialog(
+      t('Error log'),
+      t('${count} errors in this session (newest first):', { count: String(entries.length) }),
+      entries.map(entry => t('${time} ${operation}: ${message}', { time: new Date(entry.time).toLocaleString(), operation: entry.operation, message: entry.message })),
+      [{ value: 'clear', label: t('Clear log') }]
+    );
 
-      // 特殊处理：文档嵌套文档的父块（folder 且有 blockId）应该跳转而不是展开
-      if (item.type === 'folder' && item.blockId) {
-        // 有子项的文档：跳转
-        this.goToBlockWithAlias(item.blockId);
-        return;
-      }
+    if (choice === 'clear') {
+      this.core.clearErrorLog();
+      this.refreshFooter();
+    }
+  }
+
+  /**
+   * 撤销上一次操作
+   */
+  async undo(): Promise<void> {
+    const label = await this.core.undo();
+    if (label) {
+      this.notify('info', t('Undone: ${label}', { label }));
+    } else {
+      this.notify('info', t('Nothing to undo'));
+    }
+  }
+
+  /**
+   * 重做上一次撤销的操作
+   */
+  async redo(): Promise<void> {
+    const label = await this.core.redo();
+    if (label) {
+      this.notify('info', t('Redone: ${label}', { label }));
+    } else {
+      this.notify('info', t('Nothing to redo'));
+    }
+  }
+
+  /**
+   * 对指定项目的子项进行自然排序
+   */
+  private async naturalSortChildren(parentId: string | null): Promise<void> {
+    const result = await this.core.naturalSortChildren(parentId);
+    if (result.ok) {
+      this.render();
+      this.notifyWithUndo(t('Sorted'));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
+
+  /**
+   * 在聚焦模式下创建项目元素（只显示路径上的项目）
+   */
+  private createItemElementWithFocus(item: any, level: number, focusedItemId: string, path: any[]): HTMLElement {
+    const itemEl = this.createItemElement(item, level);
+    
+    // 如果这个项目在路径上但不是最后一个（不是聚焦项目），需要检查是否有子项在路径上
+    const currentIndex = path.findIndex(p => p.id === item.id);
+    if (currentIndex >= 0 && currentIndex < path.length - 1) {
+      // 这个项目在路径上，下一个路径项目应该是它的子项
+      const nextPathItem = path[currentIndex + 1];
+      // 只展开并显示路径上的下一个子项，隐藏其他子项
+      const childrenEl = itemEl.querySelector('.folder-tree-items');
+      if (childrenEl) {
+        // 移除所有子项，只保留路径上的下一个
+        childrenEl.innerHTML = '';
+        const nextItemEl = this.createItemElementWithFocus(nextPathItem, level + 1, focusedItemId, path);
+        childrenEl.appendChild(nextItemEl);
+      }
+    } else if (currentIndex === path.length - 1) {
+      // 这是聚焦项目本身，正常显示其子项（如果有）
+      // createItemElement 已经处理了
+    }
+    
+    return itemEl;
+  }
+
+  /**
+   * 创建统一的项目元素（笔记本、文件夹或文档）
+   */
+  private createItemElement(item: any, level: number): HTMLElement {
+    const itemEl = document.createElement('div');
+    
+    // 根据类型添加对应的class
+    if (item.type === 'notebook') {
+      itemEl.className = 'folder-tree-notebook';
+    } else if (item.type === 'folder') {
+      itemEl.className = 'folder-tree-folder';
+    } else {
+      itemEl.className = 'folder-tree-document';
+    }
+
+    const isExpanded = this.isItemExpanded(item.id);
+    // 通过 core 获取真实的子项数量，而不是依赖 item.children（可能不存在）
+    const childrenCount = (item.type === 'notebook' || item.type === 'folder')
+      ? this.getDisplayedChildren(item.id).length
+      : 0;
+    const hasChildren = childrenCount > 0;
+    const isSelected = this.selectedItems.has(item.id);
+
+    // 创建项目头部
+    const headerEl = this.createItemHeader(item, isExpanded, isSelected, level, hasChildren, childrenCount);
+    itemEl.appendChild(headerEl);
+
+    // 如果是展开的容器类型，添加子元素
+    if (isExpanded && hasChildren) {
+      const childrenEl = this.createChildrenElement(item.id, level + 1);
+      itemEl.appendChild(childrenEl);
+    }
+
+    return itemEl;
+  }
+
+  /**
+   * 创建项目头部元素
+   */
+  private createItemHeader(item: any, isExpanded: boolean, isSelected: boolean, level: number, hasChildren: boolean, childrenCount: number = 0): HTMLElement {
+    const isContainer = item.type === 'notebook' || item.type === 'folder';
+
+    // 统一使用 folder-tree-item 类，为不同类型添加特殊标识
+    const isRoot = item.parentId === null;
+    const isParent = hasChildren;
+    const notebookClass = item.type === 'notebook' ? ' is-notebook' : '';
+    const rootClass = isRoot ? ' is-root' : '';
+    const parentClass = isParent ? ' is-parent' : ' is-child';
+    const selectedClass = isSelected ? ' selected' : '';
+    const isBroken = this.core.isBlockMissing(item.id);
+    const brokenClass = isBroken ? ' is-broken' : '';
+    const header = document.createElement('div');
+    header.className = `folder-tree-item${notebookClass}${rootClass}${parentClass}${selectedClass}${brokenClass}`.trim();
+    header.setAttribute('data-id', item.id);
+    header.setAttribute('data-level', level.toString());
+    // 缩进由 CSS 控制，不设置内联样式
+    header.setAttribute('role', 'treeitem');
+    header.tabIndex = item.id === this.activeRowId ? 0 : -1;
+    if (hasChildren) {
+      header.setAttribute('aria-expanded', String(isExpanded));
+    }
+
+    // 展开/折叠图标
+    const expandIcon = hasChildren
+      ? `<i class="ti ti-chevron-right folder-tree-expand-icon ${isExpanded ? 'expanded' : ''}"></i>`
+      : '<span style="width: 14px; display: inline-block;"></span>';
+
+    // 项目图标（已经包含了完整的HTML结构）
+    const itemIcon = this.getItemIcon(item);
+
+    // 构建名称显示：如果是根级项目且有子项，显示数量
+    let nameDisplay = this.highlightName(item);
+    if (isRoot && childrenCount > 0 && this.core.getSettings().showChildCounts) {
+      nameDisplay = `${nameDisplay} <span class="folder-tree-item-count">(${childrenCount})</span>`;
+    }
+    if (isBroken) {
+      nameDisplay = `<i class="ti ti-unlink folder-tree-broken-icon" title="${t('The block has been deleted')}"></i>${nameDisplay}`;
+    }
+
+    // 构建HTML - 统一使用 folder-tree-item-* 类
+    header.innerHTML = `
+      ${expandIcon}
+      ${itemIcon}
+      <span class="folder-tree-item-name">${nameDisplay}</span>
+      <div class="folder-tree-item-actions">
+        <button class="folder-tree-btn" title="${t('Rename')}">
+          <i class="ti ti-pencil"></i>
+        </button>
+      </div>
+    `;
+
+    // 设置事件处理
+    this.setupItemEvents(header, item);
+
+    return header;
+  }
+
+  /**
+   * 获取项目图标
+   */
+  private getItemIcon(item: any): string {
+    // 根据类型和保存的图标信息生成图标
+    let iconHtml: string;
+    const isRootItem = item.parentId === null; // 根级项目判断
+
+    if (item.type === 'notebook') {
+      iconHtml = `<i class="ti ti-notebook"></i>`;
+    } else if (item.type === 'folder' && !item.blockId) {
+      // 纯文件夹（无 blockId）使用文件夹图标
+      iconHtml = `<i class="ti ti-folder"></i>`;
+    } else if (item.icon) {
+      // 使用保存的图标（可能是 Tabler 或 emoji）
+      if (item.icon.startsWith('ti ')) {
+        iconHtml = `<i class="${item.icon}"></i>`;
+      } else {
+        iconHtml = item.icon;
+      }
+    } else if (item.blockId && item.type === 'document') {
+      // 如果有 blockId 但没有保存的图标，异步获取块信息并更新图标
+      this.updateIconForItemAsync(item);
+      // 先显示默认图标，等异步更新完成后再刷新
+      iconHtml = `<i class="ti ti-cube"></i>`;
+    } else {
+      // 默认使用立方体图标（文档）
+      iconHtml = `<i class="ti ti-cube"></i>`;
+    }
+
+    // 处理颜色：
+    // 1. 如果有 item.color（从 _color 属性读取），应用到图标的 color 属性
+    // 2. 背景色逻辑保持不变：根级项目不应用颜色，非根级项目应用默认颜色 #d6d6d6
+    const hasCustomColor = !!item.color;
+    const shouldApplyBgColor = !isRootItem;
+    
+    let iconStyle = '';
+    const styleParts: string[] = [];
+    
+    // 应用自定义颜色到 color 属性
+    if (item.color) {
+      styleParts.push(`color: ${item.color}`);
+    }
+    
+    // 应用背景色（非根级项目的默认背景色）
+    if (shouldApplyBgColor) {
+      const bgColor = item.color || '#d6d6d6';
+      styleParts.push(`background-color: oklch(from ${bgColor} calc(1.2 * l) c h / 25%)`);
+    }
+    
+    if (styleParts.length > 0) {
+      iconStyle = ` style="${styleParts.join('; ')};"`;
+    }
+
+    if (item.color || item.icon) {
+      console.log('[Folder Tree] 渲染 - 图标:', item.icon, '颜色:', item.color || '(无颜色)', '项目:', item.name, '是否根级:', isRootItem);
+    }
+
+    const isTabler = /<i\s+class=\"ti\s+/i.test(iconHtml);
+    const iconClass = `folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${shouldApplyBgColor ? ' has-color' : ''}`;
+
+    return `<span class="${iconClass}"${iconStyle}>${iconHtml}</span>`;
+  }
+
+  /**
+   * 异步更新项目的图标（如果有 blockId 但没有保存的图标）
+   */
+  private async updateIconForItemAsync(item: any): Promise<void> {
+    // 避免重复更新
+    if (!item.blockId || item.icon || this.updatingIcons.has(item.id)) {
+      return;
+    }
+
+    // 标记为正在更新
+    this.updatingIcons.add(item.id);
+
+    try {
+      const block = await (window as any).orca.invokeBackend('get-block', item.blockId);
+      if (!block) {
+        return;
+      }
+
+      // 获取块属性
+      const iconProp = this.findProperty(block, '_icon');
+      const reprProp = this.findProperty(block, '_repr');
+
+      let iconClass = 'ti ti-cube';
+
+      // 优先使用 _icon 属性
+      if (iconProp && iconProp.type === 1 && iconProp.value && iconProp.value.trim()) {
+        iconClass = iconProp.value;
+      } else if (block.aliases && block.aliases.length > 0) {
+        // 别名块：判断是页面还是标签
+        const hideProp = this.findProperty(block, '_hide');
+        iconClass = hideProp && hideProp.value ? 'ti ti-file' : 'ti ti-hash';
+      } else if (reprProp && reprProp.value && reprProp.value.type) {
+        // 根据 _repr 类型推断图标
+        iconClass = this.getIconByBlockType(reprProp.value.type, reprProp.value);
+      }
+
+      // 更新文档的图标
+      if (iconClass !== 'ti ti-cube' || item.icon !== iconClass) {
+        await this.core.updateDocumentIcon(item.id, iconClass, { recordHistory: false });
+        // 重新渲染该项目
+        this.updateItemIconInDOM(item.id, iconClass);
+      }
+    } catch (error) {
+      console.error('[Folder Tree] 更新图标失败:', error, 'item:', item.id);
+    } finally {
+      // 移除更新标记
+      this.updatingIcons.delete(item.id);
+    }
+  }
+
+  /**
+   * 更新 DOM 中的图标显示（局部更新）
+   */
+  private updateItemIconInDOM(itemId: string, iconClass: string): void {
+    const itemEl = this.container?.querySelector(`[data-id="${itemId}"]`) as HTMLElement | null;
+    if (!itemEl) return;
+
+    const iconEl = itemEl.querySelector('.folder-tree-item-icon') as HTMLElement | null;
+    if (!iconEl) return;
+
+    // 获取原图标的样式（保留颜色等）
+    const originalStyle = iconEl.getAttribute('style') || '';
+    
+    // 更新图标 HTML
+    const iconHtml = `<i class="${iconClass}"></i>`;
+    const isTabler = iconClass.startsWith('ti ');
+    const wrapperClass = `folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${iconEl.classList.contains('has-color') ? ' has-color' : ''}`;
+    
+    // 保留原有样式
+    iconEl.outerHTML = `<span class="${wrapperClass}"${originalStyle ? ` style="${originalStyle}"` : ''}>${iconHtml}</span>`;
+  }
+
+  /**
+   * 根据块类型获取图标（参考 tabsman 的逻辑）
+   * @param blockType - 块类型（从 _repr 属性读取）
+   * @param reprValue - _repr 属性的值，可能包含额外信息（如 heading 的 level）
+   * @returns 图标类名
+   */
+  private getIconByBlockType(blockType: string, reprValue?: any): string {
+    switch (blockType) {
+      case 'journal':
+        return 'ti ti-calendar-smile';
+      case 'heading':
+        // 根据标题级别选择不同的图标
+        const headingLevel = reprValue?.level || 1;
+        switch (headingLevel) {
+          case 1: return 'ti ti-h-1';
+          case 2: return 'ti ti-h-2';
+          case 3: return 'ti ti-h-3';
+          case 4: return 'ti ti-h-4';
+          default: return 'ti ti-h-1';
+        }
+      case 'text':
+        return 'ti ti-cube';
+      case 'ul':
+        return 'ti ti-list';
+      case 'ol':
+        return 'ti ti-list-numbers';
+      case 'task':
+        return 'ti ti-checkbox';
+      case 'code':
+        return 'ti ti-code';
+      case 'quote2':
+        return 'ti ti-blockquote';
+      case 'image':
+        return 'ti ti-photo';
+      default:
+        return 'ti ti-cube';
+    }
+  }
+
+  /**
+   * 设置项目事件处理
+   */
+  private setupItemEvents(header: HTMLElement, item: any): void {
+    const expandIcon = header.querySelector('.folder-tree-expand-icon') as HTMLElement;
+
+    // 如果有展开图标，设置点击事件
+    if (expandIcon) {
+    expandIcon.onclick = (e) => {
+      e.stopPropagation();
+        this.toggleItem(item.id);
+      };
+    }
+
+    // 整个条目点击事件
+    header.onclick = (e) => {
+      // Ctrl/Cmd+点击切换多选，Shift+点击选中范围，都不打开块
+      if (e.ctrlKey || e.metaKey) {
+        this.toggleItemSelection(item.id);
+        return;
+      }
+      if (e.shiftKey) {
+        this.selectRange(item.id);
+        return;
+      }
+
+      // 先选中
+      this.selectItem(item.id);
+
+      // 特殊处理：文档嵌套文档的父块（folder 且有 blockId）应该跳转而不是展开
+      if (item.type === 'folder' && item.blockId) {
+        // 有子项的文档：跳转
+        this.openItemBlock(item);
+        return;
+      }
+
+      // 判断是容器类型且可以展开/折叠
+      const isContainer = item.type === 'notebook' || (item.type === 'folder' && expandIcon);
+      if (isContainer) {
+        // 容器类型：展开/折叠
+        this.toggleItem(item.id);
+      } else if (item.blockId) {
+        // 有 blockId 的文档：跳转
+        this.openItemBlock(item);
+      }
+    };
+
+    // 中键点击：仅切换展开/折叠
+    // 使用 mousedown 和 auxclick 双重监听，确保在有滚动条时也能工作
+    let middleClickMousedownTime = 0;
+    let middleClickHandled = false;
+    
+    const handleMiddleClickMousedown = (e: MouseEvent) => {
+      if (e.button === 1) {
+        e.preventDefault();
+        e.stopPropagation();
+        middleClickMousedownTime = Date.now();
+        middleClickHandled = false;
+      }
+    };
+    
+    const handleMiddleClickAuxclick = (e: MouseEvent) => {
+      if (e.button === 1) {
+        e.preventDefault();
+        e.stopPropagation();
+        
+        // 防止重复触发
+        if (middleClickHandled) {
+          middleClickMousedownTime = 0;
+          return;
+        }
+        
+        // 检查时间间隔：只有快速点击（<= 300ms）才处理，长按后释放不处理
+        const timeSinceMousedown = middleClickMousedownTime > 0 
+          ? Date.now() - middleClickMousedownTime 
+          : 0;
+        
+        if (timeSinceMousedown > 300) {
+          // 这是长按后的释放，不处理
+          middleClickMousedownTime = 0;
+          return;
+        }
+        
+        middleClickHandled = true;
+        middleClickMousedownTime = 0;
+        // 笔记本、文件夹（包括查询块）都可以折叠，即使没有子项
+        if (item.type === 'notebook' || item.type === 'folder') {
+          this.toggleItem(item.id);
+        }
+      }
+    };
+    
+    // 在 mousedown 中标记时间，但不处理（避免长按问题）
+    header.addEventListener('mousedown', handleMiddleClickMousedown);
+    // 在 auxclick 中处理（这是正常的中键点击）
+    header.addEventListener('auxclick', handleMiddleClickAuxclick);
+    
+    // 如果 auxclick 没有触发（例如在有滚动条时），在 mouseup 中处理
+    header.addEventListener('mouseup', (e: MouseEvent) => {
+      if (e.button === 1 && !middleClickHandled && middleClickMousedownTime > 0) {
+        const timeSinceMousedown = Date.now() - middleClickMousedownTime;
+        // 如果是快速点击（<= 300ms），处理它；长按后释放（> 300ms）不处理
+        if (timeSinceMousedown <= 300) {
+          e.preventDefault();
+          e.stopPropagation();
+          middleClickHandled = true;
+          if (item.type === 'notebook' || item.type === 'folder') {
+            this.toggleItem(item.id);
+          }
+        }
+        middleClickMousedownTime = 0;
+      }
+    });
+
+    // 添加右键菜单
+    header.oncontextmenu = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.showContextMenu(e, item.id, item.type);
+    };
+
+    // 点击或 Tab 聚焦时成为键盘导航的当前行
+    header.onfocus = () => this.setActiveRow(item.id);
+
+    // 重命名按钮事件
+    const renameBtn = header.querySelector('.folder-tree-item-actions button') as HTMLElement;
+    if (renameBtn) {
+      renameBtn.onclick = (e) => {
+      e.stopPropagation();
+        this.renameItem(item.id, item.type);
+    };
+    }
+
+    // 设置拖拽
+    this.setupDragDrop(header, item.id, item.type);
+  }
+
+  private setupContentDropZone(content: HTMLElement): void {
+    // 设置整个内容区域为拖拽接收区
+    content.ondragover = (e) => {
+      e.preventDefault();
+      e.dataTransfer!.dropEffect = 'copy';
+    };
+
+    // 使用捕获阶段处理，允许拖到根级空白区域创建根级文档
+    content.addEventListener('drop', async (e) => {
+      const target = e.target as HTMLElement;
+      
+      // 检查是否真的拖到了根级空白区域（不是任何项目或子区域）
+      const clickedOnItem = target.closest('.folder-tree-item');
+      const clickedOnChildrenArea = target.closest('.folder-tree-items');
+      
+      // 如果拖到了具体项目或子区域，不处理（让子元素处理）
+      if (clickedOnItem || clickedOnChildrenArea) {
+        return;
+      }
+
+      // 确认拖到的是 content 区域内的空白区域
+      if (!content.contains(target) && target !== content) {
+        return;
+      }
+
+      // 获取拖拽数据
+      const draggedData = e.dataTransfer!.getData('text/plain');
+      const blockId = this.currentDraggedBlockId || (draggedData && /^\d+$/.test(draggedData) ? draggedData : null);
+      
+      // 如果从编辑区拖拽块到根级空白区域，创建根级文档
+      if (blockId && /^\d+$/.test(blockId)) {
+        e.preventDefault();
+        e.stopPropagation(); // 阻止子元素处理
+        console.log('[Folder Tree] Dropping block to root level, creating root document:', blockId);
+        await this.createDocumentFromBlock(blockId, null);
+        this.currentDraggedBlockId = null;
+        return;
+      }
+
+      // 拖拽多选中的项目时，所有选中的项目一起移动到根级
+      if (draggedData && this.isInMultiSelection(draggedData)) {
+        e.preventDefault();
+        e.stopPropagation(); // 阻止子元素处理
+        await this.moveSelection(null);
+        return;
+      }
+
+      // 如果是文档ID（document_ 开头），允许移动到根级（用于提升文档层级）
+      if (draggedData && (draggedData.startsWith('document_') || draggedData.startsWith('folder_'))) {
+        const draggedDoc = this.core.getDocumentById(draggedData);
+        if (draggedDoc && draggedDoc.parentId !== null) {
+          e.preventDefault();
+          e.stopPropagation(); // 阻止子元素处理
+          const result = await this.core.moveItem(draggedData, null);
+          if (result.ok) {
+            this.notify('success', t('Moved to the top level'));
+            this.render();
+          } else {
+            this.notifyError(result.error);
+          }
+          return;
+        }
+      }
+    }, true); // 使用捕获阶段
+
+    // 添加右键菜单支持在根级别创建文档
+    content.oncontextmenu = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.showRootContextMenu(e);
+    };
+  }
+
+  private setupDragDrop(element: HTMLElement, targetId: string, targetType: string): void {
+    element.draggable = true;
+
+    element.ondragstart = (e) => {
+      e.dataTransfer!.setData('text/plain', targetId);
+      e.dataTransfer!.effectAllowed = 'move';
+      element.classList.add('dragging');
+      // 拖拽多选中的项目时，所有选中的项目一起移动
+      if (this.isInMultiSelection(targetId)) {
+        this.container?.querySelectorAll('.folder-tree-item.selected').forEach(el => el.classList.add('dragging'));
+      }
+      
+      // 记录当前拖拽的项目
+      this.currentDraggedItem = { id: targetId, type: targetType };
+    };
+
+    element.ondragend = async (e) => {
+      element.classList.remove('dragging');
+      this.container?.querySelectorAll('.folder-tree-item.dragging').forEach(el => el.classList.remove('dragging'));
+      
+      // 检查是否拖出了容器
+      if (this.currentDraggedItem && targetType !== 'notebook') {
+        const containerRect = this.container?.getBoundingClientRect();
+        if (containerRect) {
+          const isOutside = e.clientX < containerRect.left || 
+                           e.clientX > containerRect.right || 
+                           e.clientY < containerRect.top || 
+                           e.clientY > containerRect.bottom;
+          
+          if (isOutside) {
+            // 拖出容器，删除该文档（多选时删除所有选中的项目）
+            if (this.isInMultiSelection(targetId)) {
+              await this.deleteSelection({ confirm: true });
+            } else {
+              await this.deleteDocument(targetId);
+            }
+          }
+        }
+      }
+      
+      this.currentDraggedItem = null;
+      (element as any).dataset.insertIntent = '';
+    };
+
+    element.ondragover = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      element.classList.add('drag-over');
+
+      // 扩大判定范围：顶部/底部各占约35%的高度作为排序插入区
+      const rect = element.getBoundingClientRect();
+      const y = e.clientY - rect.top;
+      const topBand = rect.height * 0.35;
+      const bottomBand = rect.height * 0.65; // 下边界起点
+
+      const isBefore = y <= topBand;
+      const isAfter = y >= bottomBand;
+      const isEmbed = !isBefore && !isAfter;
+
+      element.classList.toggle('drag-insert-before', isBefore);
+      element.classList.toggle('drag-insert-after', isAfter);
+      element.classList.toggle('drag-embed', isEmbed);
+      if (isBefore || isAfter) {
+        (element as any).dataset.insertIntent = isBefore ? 'before' : 'after';
+      } else {
+        (element as any).dataset.insertIntent = '';
+      }
+    };
+
+    element.ondragleave = () => {
+      element.classList.remove('drag-over');
+      element.classList.remove('drag-insert-before');
+      element.classList.remove('drag-insert-after');
+      element.classList.remove('drag-embed');
+      (element as any).dataset.insertIntent = '';
+    };
+
+    element.ondrop = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      element.classList.remove('drag-over');
+      element.classList.remove('drag-insert-before');
+      element.classList.remove('drag-insert-after');
+      element.classList.remove('drag-embed');
+      const intent = ((element as any).dataset.insertIntent || '') as ('before'|'after'|'');
+      (element as any).dataset.insertIntent = '';
+      this.handleDrop(e, targetId, targetType, intent === '' ? undefined : intent);
+    };
+  }
+
+  private createDocumentsElement(notebookId: string): HTMLElement {
+    const documentsEl = document.createElement('div');
+    documentsEl.className = 'folder-tree-items';
+
+    const documents = this.core.getNotebookDocuments(notebookId);
+    documents.forEach(doc => {
+      const docEl = this.createDocumentElement(doc, 1);
+      documentsEl.appendChild(docEl);
+    });
+
+    return documentsEl;
+  }
+
+  private createDocumentElement(doc: any, level: number): HTMLElement {
+    const docEl = window.document.createElement('div');
+
+    const isExpanded = this.expandedItems.has(doc.id);
+    const childrenCount = doc.type === 'folder' ? this.core.getDocumentChildren(doc.id).length : 0;
+    const hasChildren = doc.type === 'folder' && childrenCount > 0;
+    const isSelected = this.selectedItems.has(doc.id);
+
+    const itemEl = window.document.createElement('div');
+    itemEl.className = `folder-tree-item ${isSelected ? 'selected' : ''}`;
+    itemEl.setAttribute('data-id', doc.id);
+
+    // 构建 HTML 字符串
+    const expandIcon = (doc.type === 'folder' && hasChildren)
+      ? `<i class="ti ti-chevron-right folder-tree-expand-icon ${isExpanded ? 'expanded' : ''}"></i>`
+      : '<span style="width: 14px; display: inline-block;"></span>';
+
+    // 根据类型和保存的图标信息生成图标
+    let iconHtml: string;
+    if (doc.type === 'folder' && !doc.blockId) {
+      // 纯文件夹（无 blockId）使用文件夹图标
+      iconHtml = `<i class="ti ti-folder"></i>`;
+    } else if (doc.icon) {
+      // 使用保存的图标（可能是 Tabler 或 emoji）
+      if (doc.icon.startsWith('ti ')) {
+        iconHtml = `<i class="${doc.icon}"></i>`;
+      } else {
+        iconHtml = doc.icon;
+      }
+    } else {
+      // 默认使用立方体图标（文档）
+      iconHtml = `<i class="ti ti-cube"></i>`;
+    }
+
+    // 处理颜色：如果有 doc.color，应用到 color 属性，同时保留背景色
+    let iconStyle = '';
+    const styleParts: string[] = [];
+    
+    // 应用自定义颜色到 color 属性
+    if (doc.color) {
+      styleParts.push(`color: ${doc.color}`);
+    }
+    
+    // 应用背景色
+    const bgColor = doc.color || '#d6d6d6';
+    styleParts.push(`background-color: oklch(from ${bgColor} calc(1.2 * l) c h / 25%)`);
+    
+    if (styleParts.length > 0) {
+      iconStyle = ` style="${styleParts.join('; ')};"`;
+    }
+    
+    if (doc.color || doc.icon) {
+      console.log('[Folder Tree] 渲染 - 图标:', doc.icon, '颜色:', doc.color, '文档:', doc.name);
+    }
+
+    const isTabler = /<i\s+class=\"ti\s+/i.test(iconHtml);
+    const html = [
+      expandIcon,
+      `<span class="folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${doc.color ? ' has-color' : ''}"${iconStyle}>${iconHtml}</span>`,
+      '<span class="folder-tree-item-name">' + this.escapeHtml(doc.name) + '</span>',
+      '<div class="folder-tree-item-actions">',
+      `<button class="folder-tree-btn" title="${t('Rename')}">` +
+        '<i class="ti ti-pencil"></i>' +
+      '</button>',
+      '</div>'
+    ];
+
+    itemEl.innerHTML = html.join('');
+
+    this.setupDocumentEvents(itemEl, doc);
+
+    docEl.appendChild(itemEl);
+
+    if (doc.type === 'folder' && isExpanded) {
+      const childrenEl = this.createChildrenElement(doc.id, level + 1);
+      docEl.appendChild(childrenEl);
+    }
+
+    return docEl;
+  }
+
+  private setupDocumentEvents(itemEl: HTMLElement, document: any): void {
+    if (document.type === 'folder') {
+      const expandIcon = itemEl.querySelector('.folder-tree-expand-icon') as HTMLElement | null;
+      if (expandIcon) {
+      expandIcon.onclick = (e) => {
+        e.stopPropagation();
+          this.toggleItem(document.id);
+          this.selectItem(document.id);
+        };
+
+        // 中键点击：仅切换展开/折叠
+        // 使用 mousedown 和 auxclick 双重监听，确保在有滚动条时也能工作
+        let middleClickMousedownTime = 0;
+        let middleClickHandled = false;
+        
+        const handleMiddleClickMousedown = (e: MouseEvent) => {
+          if (e.button === 1) {
+            e.preventDefault();
+            e.stopPropagation();
+            middleClickMousedownTime = Date.now();
+            middleClickHandled = false;
+          }
+        };
+        
+        const handleMiddleClickAuxclick = (e: MouseEvent) => {
+          if (e.button === 1) {
+            e.preventDefault();
+            e.stopPropagation();
+            
+            // 防止重复触发
+            if (middleClickHandled) {
+              middleClickMousedownTime = 0;
+              return;
+            }
+            
+            // 检查时间间隔：只有快速点击（<= 300ms）才处理，长按后释放不处理
+            const timeSinceMousedown = middleClickMousedownTime > 0 
+              ? Date.now() - middleClickMousedownTime 
+              : 0;
+            
+            if (timeSinceMousedown > 300) {
+              // 这是长按后的释放，不处理
+              middleClickMousedownTime = 0;
+              return;
+            }
+            
+            middleClickHandled = true;
+            middleClickMousedownTime = 0;
+            this.toggleItem(document.id);
+          }
+        };
+        
+        // 在 mousedown 中标记时间，但不处理（避免长按问题）
+        itemEl.addEventListener('mousedown', handleMiddleClickMousedown);
+        // 在 auxclick 中处理（这是正常的中键点击）
+        itemEl.addEventListener('auxclick', handleMiddleClickAuxclick);
+        
+        // 如果 auxclick 没有触发（例如在有滚动条时），在 mouseup 中处理
+        itemEl.addEventListener('mouseup', (e: MouseEvent) => {
+          if (e.button === 1 && !middleClickHandled && middleClickMousedownTime > 0) {
+            const timeSinceMousedown = Date.now() - middleClickMousedownTime;
+            // 如果是快速点击（<= 300ms），处理它；长按后释放（> 300ms）不处理
+            if (timeSinceMousedown <= 300) {
+              e.preventDefault();
+              e.stopPropagation();
+              middleClickHandled = true;
+              this.toggleItem(document.id);
+            }
+            middleClickMousedownTime = 0;
+          }
+        });
+      }
+    }
 
-      // 判断是容器类型且可以展开/折叠
-      const isContainer = item.type === 'notebook' || (item.type === 'folder' && expandIcon);
-      if (isContainer) {
-        // 容器类型：展开/折叠
-        this.toggleItem(item.id);
-      } else if (item.blockId) {
-        // 有 blockId 的文档：跳转
-        this.goToBlockWithAlias(item.blockId);
+    itemEl.onclick = () => {
+      // 整个条目可点击
+      if (document.type === 'folder') {
+        // 如果是由文档转成的“父文档”（有 blockId），点击应跳转而不是折叠
+        if (document.blockId) {
+          this.selectItem(document.id);
+          this.goToBlockWithAlias(document.blockId);
+        } else {
+          this.toggleItem(document.id);
+          this.selectItem(document.id);
+        }
+        return;
+      }
+      this.selectItem(document.id);
+      if (document.blockId) {
+        this.goToBlockWithAlias(document.blockId);
       }
     };
 
-    // 中键点击：仅切换展开/折叠
-    // 使用 mousedown 和 auxclick 双重监听，确保在有滚动条时也能工作
-    let middleClickMousedownTime = 0;
-    let middleClickHandled = false;
-    
-    const handleMiddleClickMousedown = (e: MouseEvent) => {
-      if (e.button === 1) {
-        e.preventDefault();
-        e.stopPropagation();
-        middleClickMousedownTime = Date.now();
-        middleClickHandled = false;
-      }
+    // 添加右键菜单
+    itemEl.oncontextmenu = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      this.showContextMenu(e, document.id, document.type);
     };
-    
-    const handleMiddleClickAuxclick = (e: MouseEvent) => {
-      if (e.button === 1) {
-        e.preventDefault();
-        e.stopPropagation();
-        
-        // 防止重复触发
-        if (middleClickHandled) {
-          middleClickMousedownTime = 0;
-          return;
-        }
-        
-        // 检查时间间隔：只有快速点击（<= 300ms）才处理，长按后释放不处理
-        const timeSinceMousedown = middleClickMousedownTime > 0 
-          ? Date.now() - middleClickMousedownTime 
-          : 0;
-        
-        if (timeSinceMousedown > 300) {
-          // 这是长按后的释放，不处理
-          middleClickMousedownTime = 0;
-          return;
+
+    const renameBtn = itemEl.querySelector('.folder-tree-item-actions button') as HTMLElement;
+    if (renameBtn) {
+      renameBtn.onclick = (e) => {
+      e.stopPropagation();
+        this.renameDocument(document.id);
+    };
+    }
+
+    this.setupDragDrop(itemEl, document.id, document.type);
+  }
+
+
+  private createChildrenElement(parentId: string, level: number): HTMLElement {
+    const childrenEl = document.createElement('div');
+    childrenEl.className = 'folder-tree-items';
+    childrenEl.setAttribute('data-parent-id', parentId);
+
+    // 允许把文档拖到该父级的空白区域，以便“提升/移动到上一级”
+    childrenEl.ondragover = (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      try { e.dataTransfer!.dropEffect = 'move'; } catch {}
+    };
+
+    childrenEl.ondrop = async (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const dataText = e.dataTransfer!.getData('text/plain');
+      if (!dataText) {
+        // 支持从 Orca 拖入块到该父级
+        if (this.currentDraggedBlockId) {
+          await this.createDocumentFromBlock(this.currentDraggedBlockId, parentId);
+          this.currentDraggedBlockId = null;
         }
-        
-        middleClickHandled = true;
-        middleClickMousedownTime = 0;
-        // 笔记本、文件夹（包括查询块）都可以折叠，即使没有子项
-        if (item.type === 'notebook' || item.type === 'folder') {
-          this.toggleItem(item.id);
+        return;
+      }
+      // 文档拖入到该父级（用于从子文件夹拖回上一级）
+      if (dataText.startsWith('document_')) {
+        const draggedDoc = this.core.getDocumentById(dataText);
+        if (draggedDoc && draggedDoc.parentId !== parentId) {
+          const result = await this.core.moveDocument(dataText, parentId);
+          if (result.ok) {
+            this.notify('success', t('Moved'));
+            // 若目标父级是 folder/notebook，确保其展开
+            if (!this.expandedItems.has(parentId)) {
+              this.expandedItems.add(parentId);
+            }
+            // 局部刷新当前父级的子列表
+            const wrapper = childrenEl.parentElement as HTMLElement;
+            const existing = wrapper.querySelector(':scope > .folder-tree-items');
+            if (existing) existing.remove();
+            const fresh = this.createChildrenElement(parentId, level);
+            wrapper.appendChild(fresh);
+          } else {
+            this.notifyError(result.error);
+          }
         }
       }
     };
+
+    const children = this.getDisplayedChildren(parentId);
+    // 过滤掉笔记本（笔记本只能在根级显示）
+    const filteredChildren = children.filter(child => child.type !== 'notebook');
+    filteredChildren.forEach(child => {
+      const childEl = this.createItemElement(child, level);
+      childrenEl.appendChild(childEl);
+    });
+
+    return childrenEl;
+  }
+
+  /**
+   * 切换项目展开/折叠状态
+   */
+  private async toggleItem(itemId: string): Promise<void> {
+    // 过滤时只切换临时的展开状态
+    if (this.isFiltering()) {
+      if (!this.filterExpanded.delete(itemId)) {
+        this.filterExpanded.add(itemId);
+      }
+      this.render();
+      return;
+    }
+
+    const willExpand = !this.expandedItems.has(itemId);
+    const item = this.core.getItemById(itemId);
+    const isQueryBlock = item && (item as any).isQueryBlock;
     
-    // 在 mousedown 中标记时间，但不处理（避免长按问题）
-    header.addEventListener('mousedown', handleMiddleClickMousedown);
-    // 在 auxclick 中处理（这是正常的中键点击）
-    header.addEventListener('auxclick', handleMiddleClickAuxclick);
-    
-    // 如果 auxclick 没有触发（例如在有滚动条时），在 mouseup 中处理
-    header.addEventListener('mouseup', (e: MouseEvent) => {
-      if (e.button === 1 && !middleClickHandled && middleClickMousedownTime > 0) {
-        const timeSinceMousedown = Date.now() - middleClickMousedownTime;
-        // 如果是快速点击（<= 300ms），处理它；长按后释放（> 300ms）不处理
-        if (timeSinceMousedown <= 300) {
-          e.preventDefault();
-          e.stopPropagation();
-          middleClickHandled = true;
-          if (item.type === 'notebook' || item.type === 'folder') {
-            this.toggleItem(item.id);
+    if (willExpand) {
+      this.expandedItems.add(itemId);
+      
+      // 如果是查询块，展开时更新子项
+      if (isQueryBlock && (item as any).queryBlockId) {
+        const queryBlockId = (item as any).queryBlockId;
+        const queryBlock = await (window as any).orca.invokeBackend('get-block', queryBlockId);
+        if (queryBlock) {
+          const reprProp = this.findProperty(queryBlock, '_repr');
+          let queryBlockRepr = reprProp?.value;
+          
+          // 如果 value 是字符串，尝试解析它（这通常不应该发生，但为了健壮性）
+          if (typeof queryBlockRepr === 'string') {
+            try {
+              queryBlockRepr = JSON.parse(queryBlockRepr);
+            } catch (e) {
+              console.error('[Folder Tree] 无法解析 _repr.value:', e);
+            }
+          }
+          
+          if (queryBlockRepr && queryBlockRepr.type === 'query') {
+            // 更新查询结果的子项
+            await this.core.enqueue(() => this.updateQueryBlockChildren(itemId, queryBlockRepr));
+          }
+        }
+      }
+    } else {
+      this.expandedItems.delete(itemId);
+    }
+
+    await this.core.setExpandedState(Array.from(this.expandedItems));
+
+    // 对于查询块，展开时 updateQueryBlockChildren 内部已触发 render()，折叠时需要手动 render()
+    // 对于普通文件夹/笔记本，使用局部更新以避免闪烁
+    if (!isQueryBlock) {
+      // 局部更新以避免闪烁
+      const itemEl = this.container?.querySelector(`[data-id="${itemId}"]`) as HTMLElement | null;
+      if (itemEl) {
+        const chevron = itemEl.querySelector('.folder-tree-expand-icon') as HTMLElement;
+        if (chevron) {
+          chevron.classList.toggle('expanded', willExpand);
+        }
+        if (itemEl.hasAttribute('aria-expanded')) {
+          itemEl.setAttribute('aria-expanded', String(willExpand));
+        }
+
+        // 查找父容器
+        const wrapper = itemEl.parentElement as HTMLElement;
+        const existing = wrapper.querySelector(':scope > .folder-tree-items') as HTMLElement | null;
+
+        if (willExpand) {
+          // 添加子节点
+          if (!existing) {
+            const children = this.createChildrenElement(itemId, 1);
+            wrapper.appendChild(children);
+          }
+        } else {
+          // 移除子节点
+          if (existing) {
+            existing.remove();
           }
         }
-        middleClickMousedownTime = 0;
+      }
+    } else if (!willExpand) {
+      // 查询块折叠时需要手动触发 render()
+      this.render();
+    }
+  }
+
+  /**
+   * 重命名项目
+   */
+  private async renameItem(itemId: string, itemType: string): Promise<void> {
+    const item = this.core.getItemById(itemId);
+    if (!item) return;
+
+    const [title, label] = itemType === 'notebook' ? [t('Rename notebook'), t('New notebook name:')] :
+                           itemType === 'folder' ? [t('Rename folder'), t('New folder name:')] :
+                           [t('Rename document'), t('New document name:')];
+
+    const dialog = this.createInputDialog(title, label, item.name);
+    dialog.show(async (newName: string) => {
+      if (newName && newName.trim() && newName !== item.name) {
+        const result = await this.core.renameItem(itemId, newName.trim());
+        if (result.ok) {
+          this.notify('success', t('Renamed'));
+        } else {
+          this.notifyError(result.error);
+        }
       }
     });
+  }
 
-    // 添加右键菜单
-    header.oncontextmenu = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      this.showContextMenu(e, item.id, item.type);
-    };
+  /**
+   * 重新排序项目（统一处理所有类型）
+   */
+  private async reorderItems(draggedId: string, targetId: string, insertIntent?: 'before' | 'after'): Promise<OperationResult> {
+    const draggedItem = this.core.getItemById(draggedId);
+    const targetItem = this.core.getItemById(targetId);
 
-    // 重命名按钮事件
-    const renameBtn = header.querySelector('.folder-tree-item-actions button') as HTMLElement;
-    if (renameBtn) {
-      renameBtn.onclick = (e) => {
-      e.stopPropagation();
-        this.renameItem(item.id, item.type);
-    };
-    }
+    if (!draggedItem) return fail('not-found', { target: t('Item ${id}', { id: draggedId }) });
+    if (!targetItem) return fail('not-found', { target: t('Item ${id}', { id: targetId }) });
 
-    // 设置拖拽
-    this.setupDragDrop(header, item.id, item.type);
-  }
+    try {
+      // 确定父级（笔记本嵌套和循环引用由 core.moveItem 检查）
+      const targetParentId = targetItem.parentId;
 
-  private setupContentDropZone(content: HTMLElement): void {
-    // 设置整个内容区域为拖拽接收区
-    content.ondragover = (e) => {
-      e.preventDefault();
-      e.dataTransfer!.dropEffect = 'copy';
-    };
+      if (insertIntent) {
+        // 有插入意图，在目标同级排序
+        const parentForOrder = targetParentId;
 
-    // 使用捕获阶段处理，允许拖到根级空白区域创建根级文档
-    content.addEventListener('drop', async (e) => {
-      const target = e.target as HTMLElement;
-      
-      // 检查是否真的拖到了根级空白区域（不是任何项目或子区域）
-      const clickedOnItem = target.closest('.folder-tree-item');
-      const clickedOnChildrenArea = target.closest('.folder-tree-items');
-      
-      // 如果拖到了具体项目或子区域，不处理（让子元素处理）
-      if (clickedOnItem || clickedOnChildrenArea) {
-        return;
-      }
+        // 如果不同父级，先移动到目标父级
+        if (draggedItem.parentId !== targetParentId) {
+          const moved = await this.core.moveItem(draggedId, targetParentId);
+          if (!moved.ok) return moved;
+        }
 
-      // 确认拖到的是 content 区域内的空白区域
-      if (!content.contains(target) && target !== content) {
-        return;
+        // 在同级重新排序
+        if (parentForOrder !== null) {
+          return await this.reorderItemsInParent(draggedId, targetId, parentForOrder);
+        } else {
+          // 根级项目排序
+          return await this.reorderRootItems(draggedId, targetId, insertIntent);
+        }
+      } else {
+        // 无插入意图，移动到目标内部（目标为文档时转换为文件夹）
+        return await this.core.moveItem(draggedId, targetId, undefined, { convertTarget: true });
       }
+    } catch (error) {
+      console.error('[Folder Tree] 重新排序项目失败:', error);
+      return fail('invalid-move', { name: draggedItem.name, reason: describeError(error) });
+    }
+  }
 
-      // 获取拖拽数据
-      const draggedData = e.dataTransfer!.getData('text/plain');
-      const blockId = this.currentDraggedBlockId || (draggedData && /^\d+$/.test(draggedData) ? draggedData : null);
-      
-      // 如果从编辑区拖拽块到根级空白区域，创建根级文档
-      if (blockId && /^\d+$/.test(blockId)) {
-        e.preventDefault();
-        e.stopPropagation(); // 阻止子元素处理
-        console.log('[Folder Tree] Dropping block to root level, creating root document:', blockId);
-        await this.createDocumentFromBlock(blockId, null);
-        this.currentDraggedBlockId = null;
-        return;
-      }
+  /**
+   * 在指定父级中重新排序项目
+   */
+  private async reorderItemsInParent(draggedId: string, targetId: string, parentId: string): Promise<OperationResult> {
+    const parent = this.core.getItemById(parentId);
+    if (!parent || !parent.children) return fail('not-found', { target: t('Item ${id}', { id: parentId }) });
 
-      // 如果是文档ID（document_ 开头），允许移动到根级（用于提升文档层级）
-      if (draggedData && (draggedData.startsWith('document_') || draggedData.startsWith('folder_'))) {
-        const draggedDoc = this.core.getDocumentById(draggedData);
-        if (draggedDoc && draggedDoc.parentId !== null) {
-          e.preventDefault();
-          e.stopPropagation(); // 阻止子元素处理
-          const success = await this.core.moveItem(draggedData, null);
-          if (success) {
-            (window as any).orca.notify('success', '移动到根级成功');
-            this.render();
-          } else {
-            (window as any).orca.notify('error', '移动失败');
-          }
-          return;
-        }
-      }
-    }, true); // 使用捕获阶段
+    const siblingIds = [...parent.children];
+    const draggedIndex = siblingIds.indexOf(draggedId);
+    const targetIndex = siblingIds.indexOf(targetId);
 
-    // 添加右键菜单支持在根级别创建文档
-    content.oncontextmenu = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      this.showRootContextMenu(e);
-    };
+    if (draggedIndex === -1) return fail('not-found', { target: t('Item ${id}', { id: draggedId }) });
+    if (targetIndex === -1) return fail('not-found', { target: t('Item ${id}', { id: targetId }) });
+
+    // 移动到目标位置
+    const [movedId] = siblingIds.splice(draggedIndex, 1);
+    siblingIds.splice(targetIndex, 0, movedId);
+
+    return await this.core.reorderItems(parentId, siblingIds);
   }
 
-  private setupDragDrop(element: HTMLElement, targetId: string, targetType: string): void {
-    element.draggable = true;
+  /**
+   * 重新排序根级项目
+   */
+  private async reorderRootItems(draggedId: string, targetId: string, insertIntent: 'before' | 'after'): Promise<OperationResult> {
+    const rootItems = this.core.getRootItems();
+    const rootIds = rootItems.map(item => item.id);
 
-    element.ondragstart = (e) => {
-      e.dataTransfer!.setData('text/plain', targetId);
-      e.dataTransfer!.effectAllowed = 'move';
-      element.classList.add('dragging');
-      
-      // 记录当前拖拽的项目
-      this.currentDraggedItem = { id: targetId, type: targetType };
-    };
+    const draggedIndex = rootIds.indexOf(draggedId);
+    const targetIndex = rootIds.indexOf(targetId);
 
-    element.ondragend = async (e) => {
-      element.classList.remove('dragging');
-      
-      // 检查是否拖出了容器
-      if (this.currentDraggedItem && targetType !== 'notebook') {
-        const containerRect = this.container?.getBoundingClientRect();
-        if (containerRect) {
-          const isOutside = e.clientX < containerRect.left || 
-                           e.clientX > containerRect.right || 
-                           e.clientY < containerRect.top || 
-                           e.clientY > containerRect.bottom;
-          
-          if (isOutside) {
-            // 拖出容器，删除该文档
-            await this.deleteDocument(targetId);
-          }
-        }
-      }
-      
-      this.currentDraggedItem = null;
-      (element as any).dataset.insertIntent = '';
-    };
+    if (draggedIndex === -1) return fail('not-found', { target: t('Item ${id}', { id: draggedId }) });
+    if (targetIndex === -1) return fail('not-found', { target: t('Item ${id}', { id: targetId }) });
 
-    element.ondragover = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      element.classList.add('drag-over');
+    // 移动到目标位置
+    const [movedId] = rootIds.splice(draggedIndex, 1);
+    const insertIndex = insertIntent === 'before' ? targetIndex : targetIndex + 1;
+    rootIds.splice(insertIndex, 0, movedId);
 
-      // 扩大判定范围：顶部/底部各占约35%的高度作为排序插入区
-      const rect = element.getBoundingClientRect();
-      const y = e.clientY - rect.top;
-      const topBand = rect.height * 0.35;
-      const bottomBand = rect.height * 0.65; // 下边界起点
+    return await this.core.reorderItems(null, rootIds);
+  }
 
-      const isBefore = y <= topBand;
-      const isAfter = y >= bottomBand;
-      const isEmbed = !isBefore && !isAfter;
+  private async selectItem(itemId: string): Promise<void> {
+    // 更新内存状态
+    this.selectedItems.clear();
+    this.selectedItems.add(itemId);
+    this.selectionAnchorId = itemId;
+    await this.core.setSelectedItems(Array.from(this.selectedItems));
 
-      element.classList.toggle('drag-insert-before', isBefore);
-      element.classList.toggle('drag-insert-after', isAfter);
-      element.classList.toggle('drag-embed', isEmbed);
-      if (isBefore || isAfter) {
-        (element as any).dataset.insertIntent = isBefore ? 'before' : 'after';
-      } else {
-        (element as any).dataset.insertIntent = '';
+    // 最小化更新：仅在DOM中切换选中样式，避免整树重渲染导致样式闪烁
+    try {
+      // 清除现有选中样式
+      const prevSelected = this.container?.querySelectorAll('.folder-tree-item.selected');
+      prevSelected?.forEach(el => el.classList.remove('selected'));
+
+      // 给当前项添加选中样式
+      const currentItem = this.container?.querySelector(`[data-id="${itemId}"]`);
+      if (currentItem) {
+        currentItem.classList.add('selected');
       }
-    };
+    } catch {}
+  }
 
-    element.ondragleave = () => {
-      element.classList.remove('drag-over');
-      element.classList.remove('drag-insert-before');
-      element.classList.remove('drag-insert-after');
-      element.classList.remove('drag-embed');
-      (element as any).dataset.insertIntent = '';
-    };
+  // ========== 多选 ==========
 
-    element.ondrop = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      element.classList.remove('drag-over');
-      element.classList.remove('drag-insert-before');
-      element.classList.remove('drag-insert-after');
-      element.classList.remove('drag-embed');
-      const intent = ((element as any).dataset.insertIntent || '') as ('before'|'after'|'');
-      (element as any).dataset.insertIntent = '';
-      this.handleDrop(e, targetId, targetType, intent === '' ? undefined : intent);
+  /**
+   * 设置选中的项目，只在DOM中切换选中样式
+   */
+  private async setSelection(itemIds: string[]): Promise<void> {
+    this.selectedItems = new Set(itemIds);
+    await this.core.setSelectedItems(itemIds);
+    this.getVisibleRows().forEach(row => {
+      row.classList.toggle('selected', this.selectedItems.has(row.getAttribute('data-id')!));
+    });
+  }
+
+  /**
+   * 切换项目的选中状态（Ctrl/Cmd+点击）
+   */
+  private async toggleItemSelection(itemId: string): Promise<void> {
+    const ids = Array.from(this.selectedItems);
+    this.selectionAnchorId = itemId;
+    await this.setSelection(ids.includes(itemId) ? ids.filter(id => id !== itemId) : [...ids, itemId]);
+  }
+
+  /**
+   * 选中从起点到目标之间的所有可见项目（Shift+点击）
+   */
+  private async selectRange(itemId: string): Promise<void> {
+    const ids = this.getVisibleRows().map(row => row.getAttribute('data-id')!);
+    const anchorIndex = this.selectionAnchorId ? ids.indexOf(this.selectionAnchorId) : -1;
+    const targetIndex = ids.indexOf(itemId);
+    if (anchorIndex === -1 || targetIndex === -1) {
+      await this.selectItem(itemId);
+      return;
+    }
+    const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+    await this.setSelection(ids.slice(start, end + 1));
+  }
+
+  /**
+   * 是否选中了包含该项目在内的多个项目（此时右键菜单、拖拽和 Delete 作用于所有选中的项目）
+   */
+  private isInMultiSelection(itemId: string): boolean {
+    return this.selectedItems.size > 1 && this.selectedItems.has(itemId);
+  }
+
+  /**
+   * 选中的项目按文档树顺序排列，祖先也被选中的项目会随祖先一起处理，不单独包含
+   */
+  private getSelectedRoots(): any[] {
+    const roots: any[] = [];
+    const visit = (items: any[], hasSelectedAncestor: boolean) => {
+      items.forEach(item => {
+        const selected = this.selectedItems.has(item.id);
+        if (selected && !hasSelectedAncestor) roots.push(item);
+        visit(this.core.getItemChildren(item.id), hasSelectedAncestor || selected);
+      });
     };
+    visit([...this.core.getRootItems(), ...this.core.getClosedNotebookItems()], false);
+    return roots;
   }
 
-  private createDocumentsElement(notebookId: string): HTMLElement {
-    const documentsEl = document.createElement('div');
-    documentsEl.className = 'folder-tree-items';
+  /**
+   * 把选中的项目移入目标（为 null 时移到根级），或按顺序插入到目标的前面或后面（拖拽或"移动到..."），作为一次可撤销的操作
+   */
+  private async moveSelection(targetId: string | null, insertIntent?: 'before' | 'after'): Promise<void> {
+    const target = targetId ? this.core.getItemById(targetId) : null;
+    const items = this.getSelectedRoots();
+    if ((targetId && !target) || items.length === 0 || (targetId && this.selectedItems.has(targetId))) return;
+    // 与拖拽单个项目一样，插入到笔记本标题前后时移入该笔记本的开头或末尾；选中的项目包含笔记本时在根级排序
+    const intoNotebook = !!insertIntent && target?.type === 'notebook' && !items.some(item => item.type === 'notebook');
+    const parentId = target && insertIntent && !intoNotebook ? target.parentId : targetId;
+    const movedIds = items.map(item => item.id);
+    const convertTarget = !insertIntent;
+
+    const result = await this.core.enqueue(async (): Promise<OperationResult> => {
+      // 先校验所有项目，有一个不能移动时全部不移动
+      for (const item of items) {
+        if (item.parentId === parentId) continue;
+        const checked = this.core.checkMove(item.id, parentId, { convertTarget });
+        if (!checked.ok) return checked;
+      }
 
-    const documents = this.core.getNotebookDocuments(notebookId);
-    documents.forEach(doc => {
-      const docEl = this.createDocumentElement(doc, 1);
-      documentsEl.appendChild(docEl);
+      return this.core.batch(t('Move ${count} items', { count: String(items.length) }), async (step): Promise<OperationResult> => {
+        for (const item of items) {
+          if (item.parentId === parentId) continue;
+          const moved = await step(() => this.core.moveItem(item.id, parentId, undefined, { convertTarget }));
+          if (!moved.ok) return moved;
+        }
+        if (!insertIntent || !targetId) return ok();
+
+        // 按原来的顺序插入到目标前面或后面（移入笔记本时插入到开头或末尾）
+        const siblingIds = (parentId === null ? this.core.getRootItems() : this.core.getItemChildren(parentId))
+          .map(sibling => sibling.id)
+          .filter(id => !movedIds.includes(id));
+        const targetIndex = intoNotebook
+          ? (insertIntent === 'before' ? 0 : siblingIds.length)
+          : siblingIds.indexOf(targetId) + (insertIntent === 'before' ? 0 : 1);
+        siblingIds.splice(targetIndex, 0, ...movedIds);
+        return step(() => this.core.reorderItems(parentId, siblingIds));
+      });
     });
 
-    return documentsEl;
+    if (result.ok) {
+      this.notifyWithUndo(t('Moved ${count} items', { count: String(items.length) }));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
+
+  /**
+   * 把选中的项目移动到选择的笔记本或文件夹
+   */
+  private async moveSelectionTo(): Promise<void> {
+    const targetId = await new FolderTreeTargetPicker(this.core).pick(
+      t('Move ${count} items to', { count: String(this.getSelectedRoots().length) })
+    );
+    if (targetId) {
+      await this.moveSelection(targetId);
+    }
   }
 
-  private createDocumentElement(doc: any, level: number): HTMLElement {
-    const docEl = window.document.createElement('div');
+  /**
+   * 删除选中的项目（移到回收站）
+   */
+  private async deleteSelection(options: { confirm?: boolean } = {}): Promise<void> {
+    const items = this.getSelectedRoots();
+    if (items.length === 0) return;
+    // 包含笔记本时与单独删除笔记本一样需要确认；拖出删除容易误触，总是确认
+    if (items.some(item => item.type === 'notebook')) {
+      if (!confirm(t('Delete ${count} items? Selected notebooks and all of their documents will be moved to the trash.', { count: String(items.length) }))) {
+        return;
+      }
+    } else if (options.confirm && !confirm(t('Delete ${count} items? They will be moved to the trash.', { count: String(items.length) }))) {
+      return;
+    }
 
-    const isExpanded = this.expandedItems.has(doc.id);
-    const childrenCount = doc.type === 'folder' ? this.core.getDocumentChildren(doc.id).length : 0;
-    const hasChildren = doc.type === 'folder' && childrenCount > 0;
-    const isSelected = this.selectedItems.has(doc.id);
+    const label = t('Delete ${count} items', { count: String(items.length) });
+    const result = await this.core.enqueue(() => this.core.batch(label, step =>
+      step(() => this.core.deleteItems(items.map(item => item.id), { label }))
+    ));
+    if (result.ok) {
+      this.selectedItems.clear();
+      this.notifyWithUndo(t('Moved ${count} items to the trash', { count: String(result.value) }));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
 
-    const itemEl = window.document.createElement('div');
-    itemEl.className = `folder-tree-item ${isSelected ? 'selected' : ''}`;
-    itemEl.setAttribute('data-id', doc.id);
+  /**
+   * 关闭选中的笔记本
+   */
+  private async closeSelectedNotebooks(notebookIds: string[]): Promise<void> {
+    const result = await this.core.enqueue(() => this.core.batch(t('Close ${count} notebooks', { count: String(notebookIds.length) }), async (step): Promise<OperationResult> => {
+      for (const notebookId of notebookIds) {
+        const closed = await step(() => this.core.closeNotebook(notebookId));
+        if (!closed.ok) return closed;
+      }
+      return ok();
+    }));
 
-    // 构建 HTML 字符串
-    const expandIcon = (doc.type === 'folder' && hasChildren)
-      ? `<i class="ti ti-chevron-right folder-tree-expand-icon ${isExpanded ? 'expanded' : ''}"></i>`
-      : '<span style="width: 14px; display: inline-block;"></span>';
+    if (result.ok) {
+      this.notifyWithUndo(t('Closed ${count} notebooks', { count: String(notebookIds.length) }));
+    } else {
+      this.notifyError(result.error);
+    }
+  }
 
-    // 根据类型和保存的图标信息生成图标
-    let iconHtml: string;
-    if (doc.type === 'folder' && !doc.blockId) {
-      // 纯文件夹（无 blockId）使用文件夹图标
-      iconHtml = `<i class="ti ti-folder"></i>`;
-    } else if (doc.icon) {
-      // 使用保存的图标（可能是 Tabler 或 emoji）
-      if (doc.icon.startsWith('ti ')) {
-        iconHtml = `<i class="${doc.icon}"></i>`;
+  /**
+   * 修改选中项目的图标或颜色（留空恢复默认）
+   */
+  private changeSelectionStyle(property: 'icon' | 'color'): void {
+    const items = this.getSelectedRoots();
+    if (items.length === 0) return;
+
+    const dialog = property === 'icon'
+      ? this.createInputDialog(t('Change icon'), t('Tabler icon class (such as "ti ti-star") or emoji. Leave empty to reset:'), items[0].icon || '')
+      : this.createInputDialog(t('Change color'), t('CSS color (such as "#e03131"). Leave empty to reset:'), items[0].color || '');
+    dialog.show(async (value: string) => {
+      const updates = { [property]: value.trim() || undefined };
+      const label = property === 'icon'
+        ? t('Change the icon of ${count} items', { count: String(items.length) })
+        : t('Change the color of ${count} items', { count: String(items.length) });
+      const result = await this.core.enqueue(() => this.core.batch(label, async (step): Promise<OperationResult> => {
+        for (const item of items) {
+          const updated = await step(() => this.core.updateItem(item.id, updates));
+          if (!updated.ok) return updated;
+        }
+        return ok();
+      }));
+
+      if (result.ok) {
+        this.notifyWithUndo(label);
       } else {
-        iconHtml = doc.icon;
+        this.notifyError(result.error);
       }
+    });
+  }
+
+  /**
+   * 对选中的笔记本和文件夹的子项分别进行自然排序
+   */
+  private async naturalSortSelection(parentIds: string[]): Promise<void> {
+    const result = await this.core.enqueue(() => this.core.batch(t('Sort naturally'), async (step): Promise<OperationResult> => {
+      for (const parentId of parentIds) {
+        const sorted = await step(() => this.core.naturalSortChildren(parentId));
+        if (!sorted.ok) return sorted;
+      }
+      return ok();
+    }));
+
+    if (result.ok) {
+      this.notifyWithUndo(t('Sorted'));
     } else {
-      // 默认使用立方体图标（文档）
-      iconHtml = `<i class="ti ti-cube"></i>`;
+      this.notifyError(result.error);
     }
+  }
 
-    // 处理颜色：如果有 doc.color，应用到 color 属性，同时保留背景色
-    let iconStyle = '';
-    const styleParts: string[] = [];
-    
-    // 应用自定义颜色到 color 属性
-    if (doc.color) {
-      styleParts.push(`color: ${doc.color}`);
-    }
-    
-    // 应用背景色
-    const bgColor = doc.color || '#d6d6d6';
-    styleParts.push(`background-color: oklch(from ${bgColor} calc(1.2 * l) c h / 25%)`);
-    
-    if (styleParts.length > 0) {
-      iconStyle = ` style="${styleParts.join('; ')};"`;
+  /**
+   * 把项目对应的块以块引用的形式复制到剪贴板（每行一个，按文档树顺序）
+   */
+  private async copyAsBlockReferences(items: any[]): Promise<void> {
+    const blockIds = items.filter(item => item.blockId).map(item => item.blockId);
+    if (blockIds.length === 0) {
+      this.notify('info', t('The selected items have no blocks'));
+      return;
     }
-    
-    if (doc.color || doc.icon) {
-      console.log('[Folder Tree] 渲染 - 图标:', doc.icon, '颜色:', doc.color, '文档:', doc.name);
+
+    try {
+      await navigator.clipboard.writeText(blockIds.map(blockId => `((${blockId}))`).join('\n'));
+      this.notify('success', t('Copied ${count} block references', { count: String(blockIds.length) }));
+    } catch (error) {
+      console.error('[Folder Tree] 复制块引用失败:', error);
+      this.notify('error', t('Failed to copy to the clipboard'));
     }
+  }
 
-    const isTabler = /<i\s+class=\"ti\s+/i.test(iconHtml);
-    const html = [
-      expandIcon,
-      `<span class="folder-tree-item-icon${isTabler ? ' is-tabler' : ''}${doc.color ? ' has-color' : ''}"${iconStyle}>${iconHtml}</span>`,
-      '<span class="folder-tree-item-name">' + this.escapeHtml(doc.name) + '</span>',
-      '<div class="folder-tree-item-actions">',
-      '<button class="folder-tree-btn" title="重命名">' +
-        '<i class="ti ti-pencil"></i>' +
-      '</button>',
-      '</div>'
-    ];
+  /**
+   * 显示多选时的右键菜单
+   */
+  private showSelectionContextMenu(e: MouseEvent): void {
+    // 移除已存在的菜单
+    const existingMenu = document.querySelector('.folder-tree-context-menu');
+    if (existingMenu) {
+      existingMenu.remove();
+    }
 
-    itemEl.innerHTML = html.join('');
+    const menu = document.createElement('div');
+    menu.className = 'folder-tree-context-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${e.clientX}px`;
+    menu.style.top = `${e.clientY}px`;
+    menu.style.zIndex = '10000';
 
-    this.setupDocumentEvents(itemEl, doc);
+    const items = this.getSelectedRoots();
+    const count = String(items.length);
+    const closedNotebooks = this.core.getClosedNotebooks();
+    const openNotebookIds = items
+      .filter(item => item.type === 'notebook' && !closedNotebooks.includes(item.id))
+      .map(item => item.id);
+    const sortableIds = items
+      .filter(item => this.core.canContainItems(item) && this.core.getItemChildren(item.id).length > 1)
+      .map(item => item.id);
 
-    docEl.appendChild(itemEl);
+    const menuItems: Array<{ label: string; icon: string; action: () => void; className?: string }> = [];
 
-    if (doc.type === 'folder' && isExpanded) {
-      const childrenEl = this.createChildrenElement(doc.id, level + 1);
-      docEl.appendChild(childrenEl);
+    // 笔记本只能在根级，选中笔记本时不能移动到其他位置
+    if (!items.some(item => item.type === 'notebook')) {
+      menuItems.push({
+        label: t('Move ${count} items to...', { count }),
+        icon: '📂',
+        action: () => this.moveSelectionTo()
+      });
     }
 
-    return docEl;
-  }
+    if (openNotebookIds.length > 0) {
+      menuItems.push({
+        label: t('Close ${count} notebooks', { count: String(openNotebookIds.length) }),
+        icon: '📕',
+        action: () => this.closeSelectedNotebooks(openNotebookIds)
+      });
+    }
 
-  private setupDocumentEvents(itemEl: HTMLElement, document: any): void {
-    if (document.type === 'folder') {
-      const expandIcon = itemEl.querySelector('.folder-tree-expand-icon') as HTMLElement | null;
-      if (expandIcon) {
-      expandIcon.onclick = (e) => {
-        e.stopPropagation();
-          this.toggleItem(document.id);
-          this.selectItem(document.id);
-        };
+    menuItems.push({
+      label: t('Change icon...'),
+      icon: '🎨',
+      action: () => this.changeSelectionStyle('icon')
+    });
+    menuItems.push({
+      label: t('Change color...'),
+      icon: '🖌️',
+      action: () => this.changeSelectionStyle('color')
+    });
 
-        // 中键点击：仅切换展开/折叠
-        // 使用 mousedown 和 auxclick 双重监听，确保在有滚动条时也能工作
-        let middleClickMousedownTime = 0;
-        let middleClickHandled = false;
-        
-        const handleMiddleClickMousedown = (e: MouseEvent) => {
-          if (e.button === 1) {
-            e.preventDefault();
-            e.stopPropagation();
-            middleClickMousedownTime = Date.now();
-            middleClickHandled = false;
-          }
-        };
-        
-        const handleMiddleClickAuxclick = (e: MouseEvent) => {
-          if (e.button === 1) {
-            e.preventDefault();
-            e.stopPropagation();
-            
-            // 防止重复触发
-            if (middleClickHandled) {
-              middleClickMousedownTime = 0;
-              return;
-            }
-            
-            // 检查时间间隔：只有快速点击（<= 300ms）才处理，长按后释放不处理
-            const timeSinceMousedown = middleClickMousedownTime > 0 
-              ? Date.now() - middleClickMousedownTime 
-              : 0;
-            
-            if (timeSinceMousedown > 300) {
-              // 这是长按后的释放，不处理
-              middleClickMousedownTime = 0;
-              return;
-            }
-            
-            middleClickHandled = true;
-            middleClickMousedownTime = 0;
-            this.toggleItem(document.id);
-          }
-        };
-        
-        // 在 mousedown 中标记时间，但不处理（避免长按问题）
-        itemEl.addEventListener('mousedown', handleMiddleClickMousedown);
-        // 在 auxclick 中处理（这是正常的中键点击）
-        itemEl.addEventListener('auxclick', handleMiddleClickAuxclick);
-        
-        // 如果 auxclick 没有触发（例如在有滚动条时），在 mouseup 中处理
-        itemEl.addEventListener('mouseup', (e: MouseEvent) => {
-          if (e.button === 1 && !middleClickHandled && middleClickMousedownTime > 0) {
-            const timeSinceMousedown = Date.now() - middleClickMousedownTime;
-            // 如果是快速点击（<= 300ms），处理它；长按后释放（> 300ms）不处理
-            if (timeSinceMousedown <= 300) {
-              e.preventDefault();
-              e.stopPropagation();
-              middleClickHandled = true;
-              this.toggleItem(document.id);
-            }
-            middleClickMousedownTime = 0;
-          }
-        });
-      }
+    if (sortableIds.length > 0) {
+      menuItems.push({
+        label: t('Sort naturally'),
+        icon: '🔢',
+        action: () => this.naturalSortSelection(sortableIds)
+      });
     }
 
-    itemEl.onclick = () => {
-      // 整个条目可点击
-      if (document.type === 'folder') {
-        // 如果是由文档转成的“父文档”（有 blockId），点击应跳转而不是折叠
-        if (document.blockId) {
-          this.selectItem(document.id);
-          this.goToBlockWithAlias(document.blockId);
-        } else {
-          this.toggleItem(document.id);
-          this.selectItem(document.id);
-        }
-        return;
-      }
-      this.selectItem(document.id);
-      if (document.blockId) {
-        this.goToBlockWithAlias(document.blockId);
-      }
-    };
+    menuItems.push({
+      label: t('Copy as block references'),
+      icon: '📋',
+      action: () => this.copyAsBlockReferences(items)
+    });
 
-    // 添加右键菜单
-    itemEl.oncontextmenu = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      this.showContextMenu(e, document.id, document.type);
-    };
+    menuItems.push({
+      label: t('Clear selection'),
+      icon: '✖️',
+      action: () => this.setSelection([])
+    });
 
-    const renameBtn = itemEl.querySelector('.folder-tree-item-actions button') as HTMLElement;
-    if (renameBtn) {
-      renameBtn.onclick = (e) => {
-      e.stopPropagation();
-        this.renameDocument(document.id);
+    menuItems.push({
+      label: t('Delete ${count} items', { count }),
+      icon: '🗑️',
+      action: () => this.deleteSelection(),
+      className: 'danger'
+    });
+
+    // 创建菜单项
+    menuItems.forEach(item => {
+      const menuItem = document.createElement('div');
+      menuItem.className = `folder-tree-context-menu-item ${item.className || ''}`;
+      menuItem.innerHTML = `${item.icon} ${item.label}`;
+      menuItem.onclick = () => {
+        item.action();
+        menu.remove();
+      };
+      menu.appendChild(menuItem);
+    });
+
+    document.body.appendChild(menu);
+
+    // 点击其他地方关闭菜单
+    const closeMenu = (event: MouseEvent) => {
+      if (!menu.contains(event.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
     };
-    }
+    setTimeout(() => {
+      document.addEventListener('click', closeMenu);
+    }, 0);
 
-    this.setupDragDrop(itemEl, document.id, document.type);
+    // 确保菜单不会超出屏幕
+    const menuRect = menu.getBoundingClientRect();
+    if (menuRect.right > window.innerWidth) {
+      menu.style.left = `${window.innerWidth - menuRect.width - 10}px`;
+    }
+    if (menuRect.bottom > window.innerHeight) {
+      menu.style.top = `${window.innerHeight - menuRect.height - 10}px`;
+    }
   }
 
+  /**
+   * 聚焦文档树的当前行（"聚焦文档树"命令）
+   */
+  focusTree(): void {
+    this.updateRovingTabindex(true);
+  }
 
-  private createChildrenElement(parentId: string, level: number): HTMLElement {
-    const childrenEl = document.createElement('div');
-    childrenEl.className = 'folder-tree-items';
-    childrenEl.setAttribute('data-parent-id', parentId);
-
-    // 允许把文档拖到该父级的空白区域，以便“提升/移动到上一级”
-    childrenEl.ondragover = (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      try { e.dataTransfer!.dropEffect = 'move'; } catch {}
-    };
+  /**
+   * 当前可见的项目行（按显示顺序，不含已关闭的笔记本和回收站）
+   */
+  private getVisibleRows(): HTMLElement[] {
+    if (!this.container) return [];
+    return Array.from(this.container.querySelectorAll<HTMLElement>('.folder-tree-item[role="treeitem"]'));
+  }
 
-    childrenEl.ondrop = async (e) => {
-      e.preventDefault();
-      e.stopPropagation();
-      const dataText = e.dataTransfer!.getData('text/plain');
-      if (!dataText) {
-        // 支持从 Orca 拖入块到该父级
-        if (this.currentDraggedBlockId) {
-          await this.createDocumentFromBlock(this.currentDraggedBlockId, parentId);
-          this.currentDraggedBlockId = null;
-        }
-        return;
-      }
-      // 文档拖入到该父级（用于从子文件夹拖回上一级）
-      if (dataText.startsWith('document_')) {
-        const draggedDoc = this.core.getDocumentById(dataText);
-        if (draggedDoc && draggedDoc.parentId !== parentId) {
-          const ok = await this.core.moveDocument(dataText, parentId);
-          if (ok) {
-            (window as any).orca.notify('success', '移动成功');
-            // 若目标父级是 folder/notebook，确保其展开
-            if (!this.expandedItems.has(parentId)) {
-              this.expandedItems.add(parentId);
-            }
-            // 局部刷新当前父级的子列表
-            const wrapper = childrenEl.parentElement as HTMLElement;
-            const existing = wrapper.querySelector(':scope > .folder-tree-items');
-            if (existing) existing.remove();
-            const fresh = this.createChildrenElement(parentId, level);
-            wrapper.appendChild(fresh);
-          } else {
-            (window as any).orca.notify('error', '移动失败');
-          }
-        }
-      }
-    };
+  private getRow(itemId: string): HTMLElement | null {
+    return this.container?.querySelector<HTMLElement>(`.folder-tree-item[role="treeitem"][data-id="${itemId}"]`) || null;
+  }
 
-    const children = this.core.getItemChildren(parentId);
-    // 过滤掉笔记本（笔记本只能在根级显示）
-    const filteredChildren = children.filter(child => child.type !== 'notebook');
-    filteredChildren.forEach(child => {
-      const childEl = this.createItemElement(child, level);
-      childrenEl.appendChild(childEl);
+  /**
+   * 设置键盘导航的当前行：只有当前行 tabindex=0，Tab 键进入文档树时落在这一行
+   */
+  private setActiveRow(itemId: string, focus: boolean = false): void {
+    const row = this.getRow(itemId);
+    if (!row) return;
+    this.activeRowId = itemId;
+    this.getVisibleRows().forEach(el => {
+      el.tabIndex = el === row ? 0 : -1;
     });
+    if (focus) {
+      row.focus();
+      row.scrollIntoView({ block: 'nearest' });
+    }
+  }
 
-    return childrenEl;
+  /**
+   * 渲染后确定当前行：原来的行已不可见时依次使用选中项、第一行
+   */
+  private updateRovingTabindex(restoreFocus: boolean): void {
+    const rows = this.getVisibleRows();
+    if (rows.length === 0) return;
+    const candidates = [this.activeRowId, ...this.selectedItems].filter((id): id is string => !!id);
+    const itemId = candidates.find(id => this.getRow(id)) || rows[0].getAttribute('data-id')!;
+    this.setActiveRow(itemId, restoreFocus);
   }
 
   /**
-   * 切换项目展开/折叠状态
+   * 文档树的键盘操作
+   * ↑/↓/Home/End 移动，→/← 展开、折叠或进入子级、返回父级，Enter 打开，空格选中，
+   * F2 重命名，Delete 删除，Alt+↑/↓ 调整顺序，输入文字按名称跳转
    */
-  private async toggleItem(itemId: string): Promise<void> {
-    const willExpand = !this.expandedItems.has(itemId);
-    const item = this.core.getItemById(itemId);
-    const isQueryBlock = item && (item as any).isQueryBlock;
-    
-    if (willExpand) {
-      this.expandedItems.add(itemId);
-      
-      // 如果是查询块，展开时更新子项
-      if (isQueryBlock && (item as any).queryBlockId) {
-        const queryBlockId = (item as any).queryBlockId;
-        const queryBlock = await (window as any).orca.invokeBackend('get-block', queryBlockId);
-        if (queryBlock) {
-          const reprProp = this.findProperty(queryBlock, '_repr');
-          let queryBlockRepr = reprProp?.value;
-          
-          // 如果 value 是字符串，尝试解析它（这通常不应该发生，但为了健壮性）
-          if (typeof queryBlockRepr === 'string') {
-            try {
-              queryBlockRepr = JSON.parse(queryBlockRepr);
-            } catch (e) {
-              console.error('[Folder Tree] 无法解析 _repr.value:', e);
-            }
-          }
-          
-          if (queryBlockRepr && queryBlockRepr.type === 'query') {
-            // 更新查询结果的子项
-            await this.updateQueryBlockChildren(itemId, queryBlockRepr);
+  private handleTreeKeydown(e: KeyboardEvent): void {
+    // 只处理行本身的按键，不影响行内按钮
+    const row = e.target as HTMLElement;
+    if (!row.matches?.('.folder-tree-item[role="treeitem"]')) return;
+    const item = this.core.getItemById(row.getAttribute('data-id')!);
+    if (!item) return;
+
+    const rows = this.getVisibleRows();
+    const index = rows.indexOf(row);
+    const moveTo = (target: HTMLElement | undefined) => {
+      if (target) this.setActiveRow(target.getAttribute('data-id')!, true);
+    };
+    const canExpand = row.hasAttribute('aria-expanded');
+    const isExpanded = row.getAttribute('aria-expanded') === 'true';
+
+    let handled = true;
+    if (e.altKey && !e.ctrlKey && !e.metaKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      this.moveItemAmongSiblings(item.id, e.key === 'ArrowUp' ? -1 : 1);
+    } else if ((e.shiftKey && e.key === 'F10') || e.key === 'ContextMenu') {
+      const rect = row.getBoundingClientRect();
+      const menuEvent = new MouseEvent('contextmenu', { clientX: rect.left + 16, clientY: rect.bottom });
+      this.showContextMenu(menuEvent, item.id, item.type);
+    } else if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key === ' ') {
+      this.toggleItemSelection(item.id);
+    } else if (e.ctrlKey || e.metaKey || e.altKey) {
+      handled = false;
+    } else {
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'ArrowUp': {
+          // Shift+↑/↓ 扩展选择范围
+          const next = rows[e.key === 'ArrowDown' ? index + 1 : index - 1];
+          moveTo(next);
+          if (next && e.shiftKey) {
+            if (!this.selectedItems.has(item.id)) this.selectionAnchorId = item.id;
+            this.selectRange(next.getAttribute('data-id')!);
           }
+          break;
         }
+        case 'Home':
+          moveTo(rows[0]);
+          break;
+        case 'End':
+          moveTo(rows[rows.length - 1]);
+          break;
+        case 'ArrowRight':
+          if (canExpand && !isExpanded) {
+            this.toggleItem(item.id);
+          } else if (isExpanded && this.core.getItemById(rows[index + 1]?.getAttribute('data-id') || '')?.parentId === item.id) {
+            moveTo(rows[index + 1]);
+          }
+          break;
+        case 'ArrowLeft':
+          if (isExpanded) {
+            this.toggleItem(item.id);
+          } else if (item.parentId) {
+            moveTo(this.getRow(item.parentId) || undefined);
+          }
+          break;
+        case 'Enter':
+          // 与单击相同：选中并打开块或展开/折叠
+          row.click();
+          break;
+        case ' ':
+          this.selectItem(item.id);
+          break;
+        case 'F2':
+          this.renameItem(item.id, item.type);
+          break;
+        case 'Delete':
+          if (this.isInMultiSelection(item.id)) {
+            this.deleteSelection();
+          } else {
+            this.deleteItemFromKeyboard(item, rows, index);
+          }
+          break;
+        case 'Escape':
+          // 先清除过滤，再取消多选
+          if (this.isFiltering()) {
+            this.setFilter('');
+          } else if (this.selectedItems.size > 1) {
+            this.selectItem(item.id);
+          } else {
+            handled = false;
+          }
+          break;
+        default:
+          if (e.key.length === 1) {
+            this.typeAhead(e.key, rows, index);
+          } else {
+            handled = false;
+          }
       }
-    } else {
-      this.expandedItems.delete(itemId);
     }
 
-    await this.core.setExpandedState(Array.from(this.expandedItems));
-
-    // 对于查询块，展开时 updateQueryBlockChildren 内部已触发 render()，折叠时需要手动 render()
-    // 对于普通文件夹/笔记本，使用局部更新以避免闪烁
-    if (!isQueryBlock) {
-      // 局部更新以避免闪烁
-      const itemEl = this.container?.querySelector(`[data-id="${itemId}"]`) as HTMLElement | null;
-      if (itemEl) {
-        const chevron = itemEl.querySelector('.folder-tree-expand-icon') as HTMLElement;
-        if (chevron) {
-          chevron.classList.toggle('expanded', willExpand);
-        }
-
-        // 查找父容器
-        const wrapper = itemEl.parentElement as HTMLElement;
-        const existing = wrapper.querySelector(':scope > .folder-tree-items') as HTMLElement | null;
+    if (handled) {
+      // 阻止 Orca 的全局快捷键处理文档树中的按键
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  }
 
-        if (willExpand) {
-          // 添加子节点
-          if (!existing) {
-            const children = this.createChildrenElement(itemId, 1);
-            wrapper.appendChild(children);
-          }
-        } else {
-          // 移除子节点
-          if (existing) {
-            existing.remove();
-          }
-        }
-      }
-    } else if (!willExpand) {
-      // 查询块折叠时需要手动触发 render()
-      this.render();
+  /**
+   * 按名称跳转：短时间内连续输入的文字作为前缀匹配，输入单个字符时从下一行开始查找
+   */
+  private typeAhead(char: string, rows: HTMLElement[], index: number): void {
+    if (this.typeAheadTimer) clearTimeout(this.typeAheadTimer);
+    this.typeAheadTimer = setTimeout(() => {
+      this.typeAheadText = '';
+      this.typeAheadTimer = null;
+    }, 800);
+
+    this.typeAheadText += char.toLowerCase();
+    const start = this.typeAheadText.length === 1 ? index + 1 : index;
+    const ordered = [...rows.slice(start), ...rows.slice(0, start)];
+    const match = ordered.find(row => {
+      const item = this.core.getItemById(row.getAttribute('data-id')!);
+      return !!item && item.name.toLowerCase().startsWith(this.typeAheadText);
+    });
+    if (match) {
+      this.setActiveRow(match.getAttribute('data-id')!, true);
     }
   }
 
   /**
-   * 重命名项目
+   * 在同级中上移或下移项目（Alt+↑/↓）
    */
-  private async renameItem(itemId: string, itemType: string): Promise<void> {
+  private async moveItemAmongSiblings(itemId: string, offset: -1 | 1): Promise<void> {
     const item = this.core.getItemById(itemId);
     if (!item) return;
 
-    const typeText = itemType === 'notebook' ? '笔记本' :
-                    itemType === 'folder' ? '文件夹' : '文档';
+    const siblingIds = (item.parentId === null ? this.core.getRootItems() : this.core.getItemChildren(item.parentId))
+      .map(sibling => sibling.id);
+    const index = siblingIds.indexOf(itemId);
+    const targetIndex = index + offset;
+    if (index === -1 || targetIndex < 0 || targetIndex >= siblingIds.length) return;
 
-    const dialog = this.createInputDialog(
-      `重命名${typeText}`,
-      `请输入新的${typeText}名称:`,
-      item.name
-    );
-    dialog.show(async (newName: string) => {
-      if (newName && newName.trim() && newName !== item.name) {
-        const success = await this.core.renameItem(itemId, newName.trim());
-        if (success) {
-          (window as any).orca.notify('success', '重命名成功');
-        } else {
-          (window as any).orca.notify('error', '重命名失败');
-        }
-      }
-    });
+    [siblingIds[index], siblingIds[targetIndex]] = [siblingIds[targetIndex], siblingIds[index]];
+    const result = await this.core.reorderItems(item.parentId, siblingIds);
+    if (result.ok) {
+      this.setActiveRow(itemId, true);
+    } else {
+      this.notifyError(result.error);
+    }
   }
 
   /**
-   * 重新排序项目（统一处理所有类型）
+   * 删除当前行（Delete），删除后焦点移到下一行，没有下一行时移到上一行
    */
-  private async reorderItems(draggedId: string, targetId: string, insertIntent?: 'before' | 'after'): Promise<boolean> {
-    try {
-      const draggedItem = this.core.getItemById(draggedId);
-      const targetItem = this.core.getItemById(targetId);
+  private async deleteItemFromKeyboard(item: any, rows: HTMLElement[], index: number): Promise<void> {
+    const wrapper = rows[index].parentElement;
+    const neighbor = rows.slice(index + 1).find(row => !wrapper?.contains(row)) || rows[index - 1];
+    const neighborId = neighbor?.getAttribute('data-id') || null;
 
-      if (!draggedItem || !targetItem) return false;
+    if (item.type === 'notebook') {
+      await this.deleteNotebook(item.id);
+    } else {
+      await this.deleteDocument(item.id);
+    }
 
-      // 防止笔记本嵌套：笔记本只能在根级（parentId === null）
-      if (draggedItem.type === 'notebook') {
-        const targetParentId = targetItem.parentId;
-        if (targetParentId !== null) {
-          // 尝试将笔记本移动到非根级，拒绝操作
-          (window as any).orca.notify('error', '笔记本只能在根级，不能嵌套');
-          return false;
-        }
-      }
+    if (neighborId && !this.getRow(item.id)) {
+      this.setActiveRow(neighborId, true);
+    }
+  }
 
-      // 确定父级
-      const targetParentId = targetItem.parentId;
+  // ========== 过滤 ==========
 
-      // 防止循环引用
-      if (this.isAncestor(draggedId, targetId)) {
-        (window as any).orca.notify('error', '不能移动到自身的子项中');
-        return false;
-      }
+  /**
+   * 聚焦过滤输入框（"过滤文档树"命令）
+   */
+  focusFilter(): void {
+    this.filterInput?.focus();
+    this.filterInput?.select();
+  }
 
-      if (insertIntent) {
-        // 有插入意图，在目标同级排序
-        const parentForOrder = targetParentId;
+  private isFiltering(): boolean {
+    return this.filterQuery.trim() !== '';
+  }
 
-        // 如果不同父级，先移动到目标父级
-        if (draggedItem.parentId !== targetParentId) {
-          const moved = await this.core.moveItem(draggedId, targetParentId);
-          if (!moved) return false;
-        }
+  /**
+   * 创建顶部的过滤栏
+   */
+  private createFilterBar(): HTMLElement {
+    const bar = document.createElement('div');
+    bar.className = 'folder-tree-filter';
+    bar.innerHTML = `
+      <i class="ti ti-search folder-tree-filter-icon"></i>
+      <input type="text" class="folder-tree-filter-input" />
+      <button class="folder-tree-btn folder-tree-filter-clear"><i class="ti ti-x"></i></button>
+    `;
 
-        // 在同级重新排序
-        if (parentForOrder !== null) {
-          return await this.reorderItemsInParent(draggedId, targetId, parentForOrder);
+    const input = bar.querySelector('.folder-tree-filter-input') as HTMLInputElement;
+    const clearBtn = bar.querySelector('.folder-tree-filter-clear') as HTMLElement;
+    this.filterInput = input;
+
+    input.oninput = () => this.setFilter(input.value);
+    input.onkeydown = (e) => {
+      // 阻止 Orca 的全局快捷键处理输入框中的按键
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        if (input.value) {
+          this.setFilter('');
         } else {
-          // 根级项目排序
-          return await this.reorderRootItems(draggedId, targetId, insertIntent);
-        }
-      } else {
-        // 无插入意图，移动到目标内部
-        // 防止笔记本嵌套：笔记本不能被移动到任何容器内部
-        if (draggedItem.type === 'notebook') {
-          (window as any).orca.notify('error', '笔记本只能在根级，不能放入容器内部');
-          return false;
+          input.blur();
         }
-        if (targetItem.type === 'document') {
-          await this.core.ensureFolder(targetId);
+      } else if ((e.key === 'ArrowDown' || e.key === 'Enter') && this.isFiltering()) {
+        // 跳到第一个匹配项，之后可以用键盘在结果中移动
+        e.preventDefault();
+        const firstMatch = this.getVisibleRows().find(row => this.filterMatches.has(row.getAttribute('data-id')!));
+        if (firstMatch) {
+          this.setActiveRow(firstMatch.getAttribute('data-id')!, true);
         }
-        return await this.core.moveItem(draggedId, targetId);
       }
-    } catch (error) {
-      console.error('[Folder Tree] 重新排序项目失败:', error);
-      return false;
-    }
+    };
+    clearBtn.onclick = () => {
+      this.setFilter('');
+      input.focus();
+    };
+
+    return bar;
   }
 
   /**
-   * 在指定父级中重新排序项目
+   * 设置过滤关键词：开始过滤时展开所有匹配项的父级路径，清空时恢复原来的展开状态
    */
-  private async reorderItemsInParent(draggedId: string, targetId: string, parentId: string): Promise<boolean> {
-    const parent = this.core.getItemById(parentId);
-    if (!parent || !parent.children) return false;
-
-    const siblingIds = [...parent.children];
-    const draggedIndex = siblingIds.indexOf(draggedId);
-    const targetIndex = siblingIds.indexOf(targetId);
-
-    if (draggedIndex === -1 || targetIndex === -1) return false;
+  private setFilter(query: string): void {
+    const wasFiltering = this.isFiltering();
+    this.filterQuery = query;
+    if (this.filterInput && this.filterInput.value !== query) {
+      this.filterInput.value = query;
+    }
+    this.filterBar?.classList.toggle('is-active', this.isFiltering());
 
-    // 移动到目标位置
-    const [movedId] = siblingIds.splice(draggedIndex, 1);
-    siblingIds.splice(targetIndex, 0, movedId);
+    if (this.isFiltering()) {
+      // 关键词变化时重新展开匹配项的父级路径
+      const ancestors = this.computeFilter();
+      this.filterExpanded = ancestors;
+      this.render();
+    } else if (wasFiltering) {
+      this.filterMatches.clear();
+      this.filterVisible.clear();
+      this.filterExpanded.clear();
+      this.render();
+    }
+  }
 
-    return await this.core.reorderItems(parentId, siblingIds);
+  /**
+   * 清空过滤关键词（不重新渲染）
+   */
+  private clearFilter(): void {
+    this.filterQuery = '';
+    if (this.filterInput) this.filterInput.value = '';
+    this.filterBar?.classList.remove('is-active');
+    this.filterMatches.clear();
+    this.filterVisible.clear();
+    this.filterExpanded.clear();
   }
 
   /**
-   * 重新排序根级项目
+   * 根据关键词计算匹配项和需要显示的项目
+   * @returns 匹配项的所有父级（开始过滤时默认展开）
    */
-  private async reorderRootItems(draggedId: string, targetId: string, insertIntent: 'before' | 'after'): Promise<boolean> {
-    const rootItems = this.core.getRootItems();
-    const rootIds = rootItems.map(item => item.id);
+  private computeFilter(): Set<string> {
+    const rootIds = new Set(this.core.getRootItems().map(item => item.id));
+    const ancestors = new Set<string>();
+    this.filterMatches = new Set();
+    this.filterVisible = new Set();
+
+    this.core.searchItems(this.filterQuery).forEach(item => {
+      // 只显示打开的笔记本中的项目
+      const path = this.getItemPath(item.id);
+      if (path.length === 0 || !rootIds.has(path[0].id)) return;
+
+      this.filterMatches.add(item.id);
+      path.forEach(pathItem => this.filterVisible.add(pathItem.id));
+      path.slice(0, -1).forEach(pathItem => ancestors.add(pathItem.id));
+
+      // 匹配项的子项也可以展开查看
+      const stack = [...this.core.getItemChildren(item.id)];
+      while (stack.length > 0) {
+        const child = stack.pop()!;
+        if (this.filterVisible.has(child.id) && !ancestors.has(child.id)) continue;
+        this.filterVisible.add(child.id);
+        stack.push(...this.core.getItemChildren(child.id));
+      }
+    });
 
-    const draggedIndex = rootIds.indexOf(draggedId);
-    const targetIndex = rootIds.indexOf(targetId);
+    return ancestors;
+  }
 
-    if (draggedIndex === -1 || targetIndex === -1) return false;
+  /**
+   * 项目是否展开（过滤时使用临时的展开状态）
+   */
+  private isItemExpanded(itemId: string): boolean {
+    return this.isFiltering() ? this.filterExpanded.has(itemId) : this.expandedItems.has(itemId);
+  }
 
-    // 移动到目标位置
-    const [movedId] = rootIds.splice(draggedIndex, 1);
-    const insertIndex = insertIntent === 'before' ? targetIndex : targetIndex + 1;
-    rootIds.splice(insertIndex, 0, movedId);
+  /**
+   * 显示在文档树中的子项（过滤时只包含需要显示的项目）
+   */
+  private getDisplayedChildren(parentId: string): any[] {
+    const children = this.core.getItemChildren(parentId);
+    return this.isFiltering() ? children.filter(child => this.filterVisible.has(child.id)) : children;
+  }
 
-    return await this.core.reorderItems(null, rootIds);
+  /**
+   * 项目名称的 HTML，过滤时高亮匹配的部分
+   */
+  private highlightName(item: any): string {
+    const range = this.isFiltering() && this.filterMatches.has(item.id) ? matchName(item.name, this.filterQuery) : null;
+    if (!range) return this.escapeHtml(item.name);
+    return this.escapeHtml(item.name.slice(0, range.start))
+      + `<mark class="folder-tree-filter-match">${this.escapeHtml(item.name.slice(range.start, range.end))}</mark>`
+      + this.escapeHtml(item.name.slice(range.end));
   }
 
+  // ========== 在文档树中定位 ==========
+
   /**
-   * 检查 ancestorId 是否为 nodeId 的祖先
+   * 在文档树中定位块：展开父级、选中并滚动到对应的项目
+   * 同一个块出现在多个位置时，cycle 为 true 则每次定位到下一个位置，否则保留当前选中的位置
+   * @param options.silent - 自动定位时不提示（块不在文档树中或有多个位置）
+   * @returns 是否找到
    */
-  private isAncestor(ancestorId: string, nodeId: string): boolean {
-    if (ancestorId === nodeId) return true;
-    let current: any = this.core.getItemById(nodeId);
-    const visited = new Set<string>();
-    while (current && current.parentId && !visited.has(current.parentId)) {
-      if (current.parentId === ancestorId) return true;
-      visited.add(current.parentId);
-      current = this.core.getItemById(current.parentId);
+  async revealBlock(blockId: string, options: { cycle?: boolean; focus?: boolean; silent?: boolean } = {}): Promise<boolean> {
+    // 只定位打开的笔记本中的项目
+    const rootIds = new Set(this.core.getRootItems().map(item => item.id));
+    const items = this.core.findItemsByBlockId(blockId).filter(item => {
+      const path = this.getItemPath(item.id);
+      return path.length > 0 && rootIds.has(path[0].id);
+    });
+    if (items.length === 0) {
+      if (!options.silent) {
+        this.notify('info', t('This block is not in the folder tree'));
+      }
+      return false;
     }
-    return false;
-  }
 
-  private async selectItem(itemId: string): Promise<void> {
-    // 更新内存状态
-    this.selectedItems.clear();
-    this.selectedItems.add(itemId);
-    await this.core.setSelectedItems(Array.from(this.selectedItems));
+    const current = items.findIndex(item => this.selectedItems.has(item.id));
+    const index = options.cycle ? (current + 1) % items.length : Math.max(current, 0);
+    const target = items[index];
+    const path = this.getItemPath(target.id);
 
-    // 最小化更新：仅在DOM中切换选中样式，避免整树重渲染导致样式闪烁
-    try {
-      // 清除现有选中样式
-      const prevSelected = this.container?.querySelectorAll('.folder-tree-item.selected');
-      prevSelected?.forEach(el => el.classList.remove('selected'));
+    // 目标被过滤或不在聚焦的路径中时先退出过滤和聚焦
+    if (this.isFiltering() && !this.filterVisible.has(target.id)) {
+      this.clearFilter();
+    }
+    if (this.focusedItemId && !path.some(pathItem => pathItem.id === this.focusedItemId)) {
+      this.focusedItemId = null;
+    }
 
-      // 给当前项添加选中样式
-      const currentItem = this.container?.querySelector(`[data-id="${itemId}"]`);
-      if (currentItem) {
-        currentItem.classList.add('selected');
+    // 展开所有父级
+    const collapsedParents = path.slice(0, -1).filter(pathItem => !this.isItemExpanded(pathItem.id));
+    collapsedParents.forEach(pathItem => {
+      if (this.isFiltering()) {
+        this.filterExpanded.add(pathItem.id);
+      } else {
+        this.expandedItems.add(pathItem.id);
       }
-    } catch {}
+    });
+    // 跟随当前块的静默定位只修改界面状态，不在每次切换面板时保存
+    if (collapsedParents.length > 0 && !this.isFiltering() && !options.silent) {
+      await this.core.setExpandedState(Array.from(this.expandedItems));
+    }
+
+    this.selectedItems = new Set([target.id]);
+    if (!options.silent) {
+      await this.core.setSelectedItems([target.id]);
+    }
+    this.render();
+
+    const row = this.getRow(target.id);
+    if (row) {
+      this.setActiveRow(target.id, !!options.focus);
+      row.scrollIntoView({ block: 'nearest' });
+    }
+
+    if (items.length > 1 && !options.silent) {
+      this.notify('info', t('Location ${index} of ${count}. Reveal again to go to the next one', {
+        index: String(index + 1),
+        count: String(items.length),
+      }));
+    }
+    return true;
   }
 
   private showCreateNotebookInput(): void {
-    const dialog = this.createInputDialog('创建笔记本', '请输入笔记本名称:', '');
+    const dialog = this.createInputDialog(t('Create notebook'), t('Notebook name:'), '');
     dialog.show((name: string) => {
       if (name && name.trim()) {
         this.createNotebook(name.trim());
@@ -1620,13 +3029,13 @@ class FolderTreeRenderer {
   }
 
   private async createNotebook(name: string): Promise<void> {
-    const notebook = await this.core.createNotebook(name);
-    if (notebook) {
-      (window as any).orca.notify('success', '笔记本创建成功');
-      this.expandedItems.add(notebook.id);
+    const result = await this.core.createNotebook(name);
+    if (result.ok) {
+      this.notify('success', t('Notebook created'));
+      this.expandedItems.add(result.value.id);
       await this.core.setExpandedState(Array.from(this.expandedItems));
     } else {
-      (window as any).orca.notify('error', '笔记本创建失败');
+      this.notifyError(result.error);
     }
   }
 
@@ -1634,7 +3043,7 @@ class FolderTreeRenderer {
     // 检查是否有笔记本
     const notebooks = this.core.getRootNotebooks();
     if (notebooks.length === 0) {
-      (window as any).orca.notify('error', '请先创建笔记本');
+      this.notify('error', t('Create a notebook first'));
       return;
     }
 
@@ -1654,12 +3063,12 @@ class FolderTreeRenderer {
       return;
     }
 
-    // 默认在第一个笔记本中创建
-    this.showCreateFolderInNotebook(notebooks[0]);
+    // 默认在设置的默认笔记本中创建
+    this.showCreateFolderInNotebook(this.core.getDefaultNotebook() || notebooks[0]);
   }
 
   private showCreateFolderInNotebook(notebook: any): void {
-    const dialog = this.createInputDialog('新建文件夹', `在"${notebook.name}"中创建文件夹:`, '');
+    const dialog = this.createInputDialog(t('New folder'), t('Create a folder in "${name}":', { name: notebook.name }), '');
     dialog.show((name: string) => {
       if (name && name.trim()) {
         this.createFolder(name.trim(), notebook.id);
@@ -1668,20 +3077,20 @@ class FolderTreeRenderer {
   }
 
   private async createFolder(name: string, notebookId: string): Promise<void> {
-    const folder = await this.core.createDocument(name, null, notebookId, 'folder');
-    if (folder) {
-      (window as any).orca.notify('success', '文件夹创建成功');
+    const result = await this.core.createDocument(name, null, notebookId, 'folder');
+    if (result.ok) {
+      this.notify('success', t('Folder created'));
       // 确保笔记本展开
       if (!this.expandedItems.has(notebookId)) {
         this.expandedItems.add(notebookId);
       }
       // 展开新创建的文件夹
-      this.expandedItems.add(folder.id);
+      this.expandedItems.add(result.value.id);
       await this.core.setExpandedState(Array.from(this.expandedItems));
       // 立即重新渲染UI
       this.render();
     } else {
-      (window as any).orca.notify('error', '文件夹创建失败');
+      this.notifyError(result.error);
     }
   }
 
@@ -1689,14 +3098,14 @@ class FolderTreeRenderer {
     const notebook = this.core.getNotebookById(notebookId);
     if (!notebook) return;
 
-    const dialog = this.createInputDialog('重命名笔记本', '请输入新的笔记本名称:', notebook.name);
+    const dialog = this.createInputDialog(t('Rename notebook'), t('New notebook name:'), notebook.name);
     dialog.show(async (newName: string) => {
       if (newName && newName.trim() && newName !== notebook.name) {
-        const success = await this.core.renameNotebook(notebookId, newName.trim());
-        if (success) {
-          (window as any).orca.notify('success', '笔记本重命名成功');
+        const result = await this.core.renameNotebook(notebookId, newName.trim());
+        if (result.ok) {
+          this.notify('success', t('Notebook renamed'));
         } else {
-          (window as any).orca.notify('error', '笔记本重命名失败');
+          this.notifyError(result.error);
         }
       }
     });
@@ -1706,12 +3115,12 @@ class FolderTreeRenderer {
     const notebook = this.core.getNotebookById(notebookId);
     if (!notebook) return;
 
-    if (confirm(`确定要删除笔记本"${notebook.name}"吗？此操作将删除该笔记本下的所有文档。`)) {
-      const success = await this.core.deleteNotebook(notebookId);
-      if (success) {
-        (window as any).orca.notify('success', '笔记本删除成功');
+    if (confirm(t('Delete notebook "${name}"? The notebook and all of its documents will be moved to the trash.', { name: notebook.name }))) {
+      const result = await this.core.deleteNotebook(notebookId);
+      if (result.ok) {
+        this.notifyWithUndo(t('Notebook moved to the trash'));
       } else {
-        (window as any).orca.notify('error', '笔记本删除失败');
+        this.notifyError(result.error);
       }
     }
   }
@@ -1721,17 +3130,17 @@ class FolderTreeRenderer {
     if (!document) return;
 
     const dialog = this.createInputDialog(
-      `重命名${document.type === 'folder' ? '文件夹' : '文档'}`,
-      `请输入新的${document.type === 'folder' ? '文件夹' : '文档'}名称:`,
+      document.type === 'folder' ? t('Rename folder') : t('Rename document'),
+      document.type === 'folder' ? t('New folder name:') : t('New document name:'),
       document.name
     );
     dialog.show(async (newName: string) => {
       if (newName && newName.trim() && newName !== document.name) {
-        const success = await this.core.renameDocument(documentId, newName.trim());
-        if (success) {
-          (window as any).orca.notify('success', '重命名成功');
+        const result = await this.core.renameDocument(documentId, newName.trim());
+        if (result.ok) {
+          this.notify('success', t('Renamed'));
         } else {
-          (window as any).orca.notify('error', '重命名失败');
+          this.notifyError(result.error);
         }
       }
     });
@@ -1742,11 +3151,11 @@ class FolderTreeRenderer {
     if (!document) return;
 
     // 直接删除，不提示
-      const success = await this.core.deleteDocument(documentId);
-      if (success) {
-        (window as any).orca.notify('success', '删除成功');
+      const result = await this.core.deleteDocument(documentId);
+      if (result.ok) {
+        this.notifyWithUndo(t('Moved to the trash'));
       } else {
-        (window as any).orca.notify('error', '删除失败');
+        this.notifyError(result.error);
     }
   }
 
@@ -1762,14 +3171,21 @@ class FolderTreeRenderer {
 
     console.log('[Folder Tree] handleDrop START - draggedId:', draggedId, 'targetId:', targetId, 'targetType:', targetType, 'insertIntent:', insertIntent);
 
+    // 拖拽多选中的项目时移动所有选中的项目
+    if (this.isInMultiSelection(draggedId)) {
+      await this.moveSelection(targetId, insertIntent);
+      this.currentDraggedBlockId = null;
+      return;
+    }
+
     // 处理项目排序（统一处理所有类型）
     if (draggedId.startsWith('notebook_') || draggedId.startsWith('document_') || draggedId.startsWith('folder_')) {
       console.log('[Folder Tree] Reordering items');
-      const success = await this.reorderItems(draggedId, targetId, insertIntent);
-      if (success) {
-        (window as any).orca.notify('success', '项目排序成功');
+      const result = await this.reorderItems(draggedId, targetId, insertIntent);
+      if (result.ok) {
+        this.notify('success', t('Items reordered'));
       } else {
-        (window as any).orca.notify('error', '项目排序失败');
+        this.notifyError(result.error);
       }
       this.currentDraggedBlockId = null;
       return;
@@ -1786,44 +3202,14 @@ class FolderTreeRenderer {
         
         // 如果是拖到笔记本上，直接创建在笔记本中并排序到首/尾
         if (targetType === 'notebook') {
-          console.log('[Folder Tree] Dropping block onto notebook with insertIntent');
-          
           const newDocId = await this.createDocumentFromBlock(draggedId, targetId);
-          console.log('[Folder Tree] Created document:', newDocId);
-          
-          if (newDocId) {
-            // createDocument 后数据已重新加载，需要重新获取 notebook
-            const notebook = this.core.getNotebookById(targetId);
-            console.log('[Folder Tree] notebook after create:', notebook);
-            
-            // 根据 insertIntent 决定插入位置
-            const insertIndex = insertIntent === 'before' ? 0 : notebook?.children?.length || 0;
-            console.log('[Folder Tree] Moving document to index:', insertIndex, 'current notebook.children:', notebook?.children);
-            
-            // 文档已经被 createDocument 添加到列表末尾了，需要重新排序
-            // 先从列表中移除（如果存在）
-            const currentIndex = notebook?.children?.indexOf(newDocId) ?? -1;
-            console.log('[Folder Tree] Current index in notebook.children:', currentIndex);
-            
-            if (notebook && notebook.children && currentIndex !== -1) {
-              notebook.children.splice(currentIndex, 1);
-            }
-
-            // 插入到指定位置
-            if (notebook && notebook.children) {
-              notebook.children.splice(insertIndex, 0, newDocId);
-              console.log('[Folder Tree] After reordering, notebook.children:', notebook.children);
-
-              // 使用 reorderDocuments 来保存排序（它会更新 order 字段并保存）
-              const success = await this.core.reorderDocuments(targetId, notebook.children);
-              console.log('[Folder Tree] Reorder result:', success);
-              
-              if (success) {
-                (window as any).orca.notify('success', '移动成功');
-                this.render();
-    } else {
-                (window as any).orca.notify('error', '文档排序失败');
-              }
+          // 新文档已添加到笔记本末尾，插入到前面时再移动到首位
+          if (newDocId && insertIntent === 'before') {
+            const result = await this.core.moveItem(newDocId, targetId, 0);
+            if (result.ok) {
+              this.render();
+            } else {
+              this.notifyError(result.error);
             }
           }
           this.currentDraggedBlockId = null;
@@ -1849,7 +3235,12 @@ class FolderTreeRenderer {
         // 无插入意图：嵌入目标项内部
         console.log('[Folder Tree] Block drop without insertIntent - embedding');
         if (targetType === 'document') {
-          await this.core.ensureFolder(targetId);
+          const converted = await this.core.ensureFolder(targetId);
+          if (!converted.ok) {
+            this.notifyError(converted.error);
+            this.currentDraggedBlockId = null;
+            return;
+          }
         }
         await this.createDocumentFromBlock(draggedId, targetId);
       }
@@ -1874,82 +3265,64 @@ class FolderTreeRenderer {
           const nb = this.core.getNotebookById(targetId);
           const insertIndex = wantInsertBefore ? 0 : (nb ? nb.children?.length : undefined);
           const moved = await this.core.moveDocument(draggedId, targetId, insertIndex);
-          if (moved) {
-            (window as any).orca.notify('success', '移动成功');
+          if (moved.ok) {
+            this.notify('success', t('Moved'));
             this.render();
           } else {
-            (window as any).orca.notify('error', '文档排序失败');
+            this.notifyError(moved.error);
           }
           return;
         }
         const targetParentId = targetDoc ? (targetDoc.parentId || '') : '';
-        // 防止把父文件夹移动到其后代的父级下，造成循环
-        if (targetParentId && this.isAncestor(draggedId, targetParentId)) {
-          (window as any).orca.notify('error', '不能移动到自身的子项中');
-          return;
-        }
         // 如果不同父级，则先移动到目标父级
         if (targetParentId && draggedDoc.parentId !== targetParentId) {
           const moved = await this.core.moveDocument(draggedId, targetParentId);
-          if (!moved) {
-            (window as any).orca.notify('error', '移动失败');
+          if (!moved.ok) {
+            this.notifyError(moved.error);
             return;
           }
         }
         // 再在同级排序：以 targetId 作为参照
         const parentForOrder = targetDoc?.parentId || draggedDoc.parentId;
         if (parentForOrder) {
-          const success = await this.reorderDocuments(draggedId, targetId, parentForOrder);
-          if (success) {
-            (window as any).orca.notify('success', '文档排序成功');
+          const result = await this.reorderDocuments(draggedId, targetId, parentForOrder);
+          if (result.ok) {
+            this.notify('success', t('Documents reordered'));
             this.render();
           } else {
-            (window as any).orca.notify('error', '文档排序失败');
+            this.notifyError(result.error);
           }
         }
       } else if (targetType === 'folder' || (targetDoc && targetDoc.type === 'folder')) {
-        // 防止把父文件夹移动到其后代中
-        if (this.isAncestor(draggedId, targetId)) {
-          (window as any).orca.notify('error', '不能移动到自身的子项中');
-          return;
-        }
-        const success = await this.core.moveDocument(draggedId, targetId);
-        if (success) {
-          (window as any).orca.notify('success', '移动成功');
+        const result = await this.core.moveDocument(draggedId, targetId);
+        if (result.ok) {
+          this.notify('success', t('Moved'));
           this.render();
         } else {
-          (window as any).orca.notify('error', '移动失败');
+          this.notifyError(result.error);
         }
       } else if ((wantInsertBefore || wantInsertAfter) && targetDoc && draggedDoc.parentId === targetDoc.parentId && draggedDoc.parentId) {
         // 否则仅在同级文档之间进行排序
-        const success = await this.reorderDocuments(draggedId, targetId, draggedDoc.parentId);
-        if (success) {
-          (window as any).orca.notify('success', '文档排序成功');
+        const result = await this.reorderDocuments(draggedId, targetId, draggedDoc.parentId);
+        if (result.ok) {
+          this.notify('success', t('Documents reordered'));
           this.render();
         } else {
-          (window as any).orca.notify('error', '文档排序失败');
+          this.notifyError(result.error);
         }
       } else {
-        // 移动到不同父级；若目标为文档，先转换目标为文件夹
-        if (targetType === 'document') {
-          await this.core.ensureFolder(targetId);
-        }
-        // 防止把父文件夹移动到其后代中
-        if (this.isAncestor(draggedId, targetId)) {
-          (window as any).orca.notify('error', '不能移动到自身的子项中');
-          return;
-        }
-        const success = await this.core.moveDocument(draggedId, targetId);
-        if (success) {
-          (window as any).orca.notify('success', '移动成功');
+        // 移动到不同父级；若目标为文档，移入时将其转换为文件夹
+        const result = await this.core.moveDocument(draggedId, targetId, undefined, { convertTarget: true });
+        if (result.ok) {
+          this.notify('success', t('Moved'));
           this.render();
         } else {
-          (window as any).orca.notify('error', '移动失败');
+          this.notifyError(result.error);
         }
       }
     } else {
       console.warn('[Folder Tree] Unknown dragged item:', draggedId);
-      (window as any).orca.notify('warning', '无法识别拖拽的项目');
+      this.notify('warn', t('Unrecognized dragged item'));
     }
     
     this.currentDraggedBlockId = null;
@@ -1962,14 +3335,15 @@ class FolderTreeRenderer {
       // 检查是否有笔记本
       const notebooks = this.core.getRootNotebooks();
       if (notebooks.length === 0) {
-          (window as any).orca.notify('warning', '请先创建笔记本');
+          this.notify('warn', t('Create a notebook first'));
           return;
         }
+      const notebookId = (this.core.getDefaultNotebook() || notebooks[0]).id;
 
       // 方法1：优先使用全局监听器捕获的块ID
       if (this.currentDraggedBlockId) {
         console.log('[Folder Tree] Using captured block ID:', this.currentDraggedBlockId);
-        await this.createDocumentFromBlock(this.currentDraggedBlockId, notebooks[0].id);
+        await this.createDocumentFromBlock(this.currentDraggedBlockId, notebookId);
         this.currentDraggedBlockId = null;
         return;
       }
@@ -1981,7 +3355,7 @@ class FolderTreeRenderer {
       if (dataText && /^\d+$/.test(dataText)) {
         // 如果是纯数字的块ID
         console.log('[Folder Tree] Found block ID from dataTransfer:', dataText);
-        await this.createDocumentFromBlock(dataText, notebooks[0].id);
+        await this.createDocumentFromBlock(dataText, notebookId);
         return;
       }
 
@@ -1991,22 +3365,27 @@ class FolderTreeRenderer {
         const blockId = selectedBlocks[0].getAttribute('data-id');
         if (blockId && /^\d+$/.test(blockId)) {
           console.log('[Folder Tree] Found block ID from selected block:', blockId);
-          await this.createDocumentFromBlock(blockId, notebooks[0].id);
+          await this.createDocumentFromBlock(blockId, notebookId);
               return;
             }
           }
 
       // 如果都没有获取到，显示提示
       console.log('[Folder Tree] No block ID found');
-      (window as any).orca.notify('info', '请拖拽块的拖拽手柄（左侧图标）到文档树');
+      this.notify('info', t('Drag the block by its handle (the icon on the left) into the folder tree'));
 
     } catch (error) {
       console.error('[Folder Tree] Handle Orca drop error:', error);
-      (window as any).orca.notify('error', '拖拽处理失败');
+      this.notify('error', t('Failed to handle the drop'));
     }
   }
 
-  private async createDocumentFromBlock(blockId: string, targetId: string | null): Promise<string | null> {
+  private createDocumentFromBlock(blockId: string, targetId: string | null): Promise<string | null> {
+    // 读取块信息和创建条目之间有 await，排队执行以免与其他多步操作交错
+    return this.core.enqueue(() => this.performCreateDocumentFromBlock(blockId, targetId));
+  }
+
+  private async performCreateDocumentFromBlock(blockId: string, targetId: string | null): Promise<string | null> {
     try {
       console.log('[Folder Tree] 正在通过API获取块信息:', blockId);
 
@@ -2014,7 +3393,7 @@ class FolderTreeRenderer {
       const block = await (window as any).orca.invokeBackend('get-block', blockId);
       if (!block) {
         console.error('[Folder Tree] 无法获取块信息，blockId:', blockId);
-        (window as any).orca.notify('error', `无法获取块信息 (ID: ${blockId})`);
+        this.notify('error', t('Cannot get block information (ID: ${id})', { id: String(blockId) }));
         return null;
       }
 
@@ -2058,14 +3437,14 @@ class FolderTreeRenderer {
       }
 
       // 优化别名块的名称显示
-      let blockName = '未命名文档';
+      let blockName = t('Untitled document');
       if (block.aliases && block.aliases.length > 0) {
         // 别名块：使用第一个别名作为名称
         blockName = block.aliases[0];
         console.log('[Folder Tree] 使用别名作为文档名称:', blockName);
       } else if (block.text) {
         // 普通块：使用文本内容
-        blockName = block.text.length > 50 ? block.text.substring(0, 50) + '...' : block.text;
+        blockName = this.core.getBlockName(block.text);
         console.log('[Folder Tree] 使用块文本作为文档名称:', blockName);
       }
 
@@ -2105,9 +3484,9 @@ class FolderTreeRenderer {
       console.log('[Folder Tree] 最终保存 - 图标:', iconClass, '颜色:', color, '块ID:', blockId, 'targetId:', targetId, '文档名称:', blockName);
 
       // 创建普通文档（非查询块）
-      const document = await this.core.createDocument(blockName, blockId, targetId, 'document', iconClass, color);
-      if (document) {
-        (window as any).orca.notify('success', '文档导入成功');
+      const result = await this.core.createDocument(blockName, blockId, targetId, 'document', iconClass, color);
+      if (result.ok) {
+        this.notify('success', t('Document added'));
 
         if (targetId && targetId.startsWith('notebook_')) {
           if (!this.expandedItems.has(targetId)) {
@@ -2126,15 +3505,15 @@ class FolderTreeRenderer {
         setTimeout(() => {
           this.render();
         }, 100);
-        return document.id;
+        return result.value.id;
       } else {
-        (window as any).orca.notify('error', '文档导入失败');
+        this.notifyError(result.error);
         return null;
       }
     } catch (error) {
       console.error('[Folder Tree] 导入块失败:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      (window as any).orca.notify('error', `文档导入失败: ${errorMessage}`);
+      this.notify('error', t('Failed to import the document: ${reason}', { reason: errorMessage }));
       return null;
     }
   }
@@ -2151,16 +3530,16 @@ class FolderTreeRenderer {
       // 获取查询块信息
       const block = await (window as any).orca.invokeBackend('get-block', queryBlockId);
       if (!block) {
-        (window as any).orca.notify('error', `无法获取查询块信息 (ID: ${queryBlockId})`);
+        this.notify('error', t('Cannot get query block information (ID: ${id})', { id: String(queryBlockId) }));
         return null;
       }
 
       // 获取查询块的名称
-      let queryName = '查询结果';
+      let queryName = t('Query results');
       if (block.aliases && block.aliases.length > 0) {
         queryName = block.aliases[0];
       } else if (block.text) {
-        queryName = block.text.length > 50 ? block.text.substring(0, 50) + '...' : block.text;
+        queryName = this.core.getBlockName(block.text);
       }
 
       // 获取图标和颜色
@@ -2178,7 +3557,7 @@ class FolderTreeRenderer {
       }
 
       // 创建查询块的父文件夹
-      const queryFolder = await this.core.createItem(
+      const created = await this.core.createItem(
         queryName,
         'folder',
         queryBlockId,
@@ -2187,10 +3566,11 @@ class FolderTreeRenderer {
         color
       );
 
-      if (!queryFolder) {
-        (window as any).orca.notify('error', '创建查询文件夹失败');
+      if (!created.ok) {
+        this.notifyError(created.error);
         return null;
       }
+      const queryFolder = created.value;
 
       // 标记为查询块
       await this.markItemAsQueryBlock(queryFolder.id, queryBlockId);
@@ -2212,7 +3592,7 @@ class FolderTreeRenderer {
         await this.core.setExpandedState(Array.from(this.expandedItems));
       }
 
-      (window as any).orca.notify('success', '查询块导入成功');
+      this.notify('success', t('Query block added'));
       
       // 重新渲染
       setTimeout(() => {
@@ -2223,7 +3603,7 @@ class FolderTreeRenderer {
     } catch (error) {
       console.error('[Folder Tree] 处理查询块失败:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
-      (window as any).orca.notify('error', `查询块处理失败: ${errorMessage}`);
+      this.notify('error', t('Failed to process the query block: ${reason}', { reason: errorMessage }));
       return null;
     }
   }
@@ -2232,232 +3612,229 @@ class FolderTreeRenderer {
    * 标记项目为查询块
    */
   private async markItemAsQueryBlock(itemId: string, queryBlockId: string): Promise<void> {
-    const item = this.core.getItemById(itemId);
-    if (!item) return;
-
-    // 直接通过 persistence 更新数据中的查询块标识
-    const persistence = (this.core as any).persistence;
-    const data = await persistence.loadData();
-    const dataItem = data.items.find((i: any) => i.id === itemId);
-    if (dataItem) {
-      (dataItem as any).isQueryBlock = true;
-      (dataItem as any).queryBlockId = queryBlockId;
-      await persistence.saveData(data);
-    }
+    await this.core.updateItem(itemId, {
+      isQueryBlock: true,
+      queryBlockId,
+    }, { recordHistory: false });
   }
 
   /**
    * 更新查询块的子项（动态文档列表）
+   * 需在操作队列中调用，避免查询期间其他多步操作修改该文件夹的子项
    */
   private async updateQueryBlockChildren(queryFolderId: string, queryBlockRepr: any): Promise<void> {
-    try {
-      // 获取当前查询块的子项
-      const existingChildren = this.core.getItemChildren(queryFolderId);
-      const existingBlockIds = new Set(
-        existingChildren
-          .filter(child => child.blockId)
-          .map(child => child.blockId!)
-      );
+    // 删除、创建和排序作为一次批量操作，只保存和通知一次；自动同步不记入撤销历史
+    await this.core.batch(t('Sync query results'), async step => {
+      try {
+        // 获取当前查询块的子项
+        const existingChildren = this.core.getItemChildren(queryFolderId);
+        const existingBlockIds = new Set(
+          existingChildren
+            .filter(child => child.blockId)
+            .map(child => child.blockId!)
+        );
 
-      // 执行查询
-      // queryBlockRepr 的结构是 {"type":"query", "q": QueryDescription}
-      // queryBlockRepr.q 才是完整的查询描述对象（包含 q、sort、page、pageSize 等）
-      if (!queryBlockRepr.q) {
-        console.error('[Folder Tree] 查询块缺少查询配置');
-        return;
-      }
+        // 执行查询
+        // queryBlockRepr 的结构是 {"type":"query", "q": QueryDescription}
+        // queryBlockRepr.q 才是完整的查询描述对象（包含 q、sort、page、pageSize 等）
+        if (!queryBlockRepr.q) {
+          console.error('[Folder Tree] 查询块缺少查询配置');
+          return;
+        }
 
-      // queryBlockRepr 的结构：
-      // {
-      //   type: "query",
-      //   q: { q: QueryGroup, sort?, ... },  // 查询描述对象（完整的 QueryDescription）
-      //   view: "list" | "table" | "card" | "calendar",
-      //   viewOpts: {
-      //     list: { sort: [...], tagName?: ... },
-      //     table: { sort: [...], tagName?: ..., columns: [...] },
-      //     ...
-      //   },
-      //   sfold: boolean
-      // }
+        // queryBlockRepr 的结构：
+        // {
+        //   type: "query",
+        //   q: { q: QueryGroup, sort?, ... },  // 查询描述对象（完整的 QueryDescription）
+        //   view: "list" | "table" | "card" | "calendar",
+        //   viewOpts: {
+        //     list: { sort: [...], tagName?: ... },
+        //     table: { sort: [...], tagName?: ..., columns: [...] },
+        //     ...
+        //   },
+        //   sfold: boolean
+        // }
       
-      // 直接使用 queryBlockRepr.q 作为查询参数，它已经是完整的 QueryDescription 对象
-      // 包含所有属性：q, sort, page, pageSize, excludeId, tagName, groupBy, group, stats, asTable, asCalendar 等
-      const query: any = {
-        ...queryBlockRepr.q  // 原封不动展开所有配置
-      };
+        // 直接使用 queryBlockRepr.q 作为查询参数，它已经是完整的 QueryDescription 对象
+        // 包含所有属性：q, sort, page, pageSize, excludeId, tagName, groupBy, group, stats, asTable, asCalendar 等
+        const query: any = {
+          ...queryBlockRepr.q  // 原封不动展开所有配置
+        };
 
-      // 从 viewOpts 中读取排序配置（根据当前 view），如果存在则覆盖
-      const view = queryBlockRepr.view || 'list';
-      const viewOpts = queryBlockRepr.viewOpts || {};
-      const currentViewOpts = viewOpts[view];
+        // 从 viewOpts 中读取排序配置（根据当前 view），如果存在则覆盖
+        const view = queryBlockRepr.view || 'list';
+        const viewOpts = queryBlockRepr.viewOpts || {};
+        const currentViewOpts = viewOpts[view];
       
-      if (currentViewOpts && currentViewOpts.sort && Array.isArray(currentViewOpts.sort) && currentViewOpts.sort.length > 0) {
-        // 使用当前视图的排序配置（覆盖 queryBlockRepr.q.sort 如果存在）
-        query.sort = currentViewOpts.sort;
-        console.log('[Folder Tree] 使用视图排序配置:', view, currentViewOpts.sort);
-      } else if (query.sort && query.sort.length > 0) {
-        // 使用查询描述对象中的排序配置（来自 queryBlockRepr.q.sort）
-        console.log('[Folder Tree] 使用查询描述中的排序配置:', query.sort);
-      }
-      // 如果都没有，不传递 sort 参数，让查询API使用其默认行为
-
-      // 覆盖分页设置，确保加载足够的条目
-      query.page = 1;
-      query.pageSize = 500;
-
-      console.log('[Folder Tree] 查询配置:', {
-        view: view,
-        hasSort: !!query.sort,
-        sort: query.sort,
-        hasQ: !!query.q,
-        viewOptsKeys: Object.keys(viewOpts),
-        queryBlockRepr_structure: { 
-          type: queryBlockRepr.type, 
-          hasQ: !!queryBlockRepr.q,
-          hasView: !!queryBlockRepr.view,
-          hasViewOpts: !!queryBlockRepr.viewOpts
+        if (currentViewOpts && currentViewOpts.sort && Array.isArray(currentViewOpts.sort) && currentViewOpts.sort.length > 0) {
+          // 使用当前视图的排序配置（覆盖 queryBlockRepr.q.sort 如果存在）
+          query.sort = currentViewOpts.sort;
+          console.log('[Folder Tree] 使用视图排序配置:', view, currentViewOpts.sort);
+        } else if (query.sort && query.sort.length > 0) {
+          // 使用查询描述对象中的排序配置（来自 queryBlockRepr.q.sort）
+          console.log('[Folder Tree] 使用查询描述中的排序配置:', query.sort);
         }
-      });
+        // 如果都没有，不传递 sort 参数，让查询API使用其默认行为
+
+        // 覆盖分页设置，确保加载足够的条目
+        query.page = 1;
+        query.pageSize = this.core.getSettings().queryPageSize;
+
+        console.log('[Folder Tree] 查询配置:', {
+          view: view,
+          hasSort: !!query.sort,
+          sort: query.sort,
+          hasQ: !!query.q,
+          viewOptsKeys: Object.keys(viewOpts),
+          queryBlockRepr_structure: { 
+            type: queryBlockRepr.type, 
+            hasQ: !!queryBlockRepr.q,
+            hasView: !!queryBlockRepr.view,
+            hasViewOpts: !!queryBlockRepr.viewOpts
+          }
+        });
 
-      console.log('[Folder Tree] 执行查询，参数:', JSON.stringify(query, null, 2));
+        console.log('[Folder Tree] 执行查询，参数:', JSON.stringify(query, null, 2));
       
-      let results: any;
-      try {
-        results = await (window as any).orca.invokeBackend('query', query);
-      } catch (error) {
-        console.error('[Folder Tree] 查询执行失败:', error);
-        (window as any).orca.notify('error', `查询执行失败: ${error instanceof Error ? error.message : String(error)}`);
-        return;
-      }
+        let results: any;
+        try {
+          results = await (window as any).orca.invokeBackend('query', query);
+        } catch (error) {
+          console.error('[Folder Tree] 查询执行失败:', error);
+          this.notify('error', t('Query failed: ${reason}', { reason: error instanceof Error ? error.message : String(error) }));
+          return;
+        }
       
-      if (!results || results.length === 0) {
-        console.log('[Folder Tree] 查询结果为空');
-        // 删除所有不再存在的子项
-        for (const child of existingChildren) {
-          if (child.blockId) {
-            await this.core.deleteItem(child.id);
+        if (!results || results.length === 0) {
+          console.log('[Folder Tree] 查询结果为空');
+          // 删除所有不再存在的子项
+          for (const child of existingChildren) {
+            if (child.blockId) {
+              await step(() => this.core.deleteItem(child.id, { permanent: true }));
+            }
           }
+          // 即使结果为空，也触发渲染以更新UI
+          this.render();
+          return;
         }
-        // 即使结果为空，也触发渲染以更新UI
-        this.render();
-        return;
-      }
 
-      console.log('[Folder Tree] 查询结果数量:', results.length, '结果:', results);
-
-      // 查询API返回的是块对象数组，不是ID数组
-      // 提取块ID列表
-      const resultBlocks = Array.isArray(results) ? results : [];
-      const resultBlockIds = new Set(
-        resultBlocks.map((block: any) => {
-          // 如果返回的是块对象，取 id 属性；如果是ID，直接使用
-          const id = typeof block === 'object' && block !== null && 'id' in block 
-            ? block.id 
-            : block;
-          return id.toString();
-        })
-      );
+        console.log('[Folder Tree] 查询结果数量:', results.length, '结果:', results);
+
+        // 查询API返回的是块对象数组，不是ID数组
+        // 提取块ID列表
+        const resultBlocks = Array.isArray(results) ? results : [];
+        const resultBlockIds = new Set(
+          resultBlocks.map((block: any) => {
+            // 如果返回的是块对象，取 id 属性；如果是ID，直接使用
+            const id = typeof block === 'object' && block !== null && 'id' in block 
+              ? block.id 
+              : block;
+            return id.toString();
+          })
+        );
       
-      console.log('[Folder Tree] 提取到的块ID:', Array.from(resultBlockIds));
+        console.log('[Folder Tree] 提取到的块ID:', Array.from(resultBlockIds));
       
-      // 删除不再存在的条目
-      for (const child of existingChildren) {
-        if (child.blockId && !resultBlockIds.has(child.blockId)) {
-          await this.core.deleteItem(child.id);
+        // 删除不再存在的条目
+        for (const child of existingChildren) {
+          if (child.blockId && !resultBlockIds.has(child.blockId)) {
+            await step(() => this.core.deleteItem(child.id, { permanent: true }));
+          }
         }
-      }
 
-      // 添加新的查询结果条目
-      for (let i = 0; i < resultBlocks.length; i++) {
-        const resultItem = resultBlocks[i];
-        // 处理返回的块对象或ID
-        const block = typeof resultItem === 'object' && resultItem !== null && 'id' in resultItem
-          ? resultItem  // 如果已经是块对象，直接使用
-          : await (window as any).orca.invokeBackend('get-block', resultItem);  // 如果是ID，获取块对象
+        // 添加新的查询结果条目
+        for (let i = 0; i < resultBlocks.length; i++) {
+          const resultItem = resultBlocks[i];
+          // 处理返回的块对象或ID
+          const block = typeof resultItem === 'object' && resultItem !== null && 'id' in resultItem
+            ? resultItem  // 如果已经是块对象，直接使用
+            : await (window as any).orca.invokeBackend('get-block', resultItem);  // 如果是ID，获取块对象
         
-        if (!block || !block.id) {
-          console.warn('[Folder Tree] 无法获取块信息:', resultItem);
-          continue;
-        }
+          if (!block || !block.id) {
+            console.warn('[Folder Tree] 无法获取块信息:', resultItem);
+            continue;
+          }
 
-        const blockId = block.id.toString();
+          const blockId = block.id.toString();
         
-        // 检查是否已存在
-        const existing = existingChildren.find(child => child.blockId === blockId);
-        if (existing) {
-          // 已存在，跳过创建
-          continue;
-        }
-
-        // 获取块名称
-        let blockName = `文档 ${blockId}`;
-        if (block.aliases && block.aliases.length > 0) {
-          blockName = block.aliases[0];
-        } else if (block.text) {
-          blockName = block.text.length > 50 ? block.text.substring(0, 50) + '...' : block.text;
-        }
-
-        // 获取图标和颜色
-        const iconProp = this.findProperty(block, '_icon');
-        const colorProp = this.findProperty(block, '_color');
-        let iconClass = 'ti ti-cube';
-        let color = '';
-
-        if (iconProp && iconProp.type === 1 && iconProp.value && iconProp.value.trim()) {
-          iconClass = iconProp.value;
-        } else if (block.aliases && block.aliases.length > 0) {
-          const hideProp = this.findProperty(block, '_hide');
-          iconClass = hideProp && hideProp.value ? 'ti ti-file' : 'ti ti-hash';
-        }
-
-        if (colorProp && colorProp.type === 1) {
-          color = colorProp.value;
-        }
-
-        // 创建文档条目
-        console.log('[Folder Tree] 创建查询结果子项:', blockName, blockId);
-        const created = await this.core.createDocument(
-          blockName,
-          blockId,
-          queryFolderId,
-          'document',
-          iconClass,
-          color
-        );
+          // 检查是否已存在
+          const existing = existingChildren.find(child => child.blockId === blockId);
+          if (existing) {
+            // 已存在，跳过创建
+            continue;
+          }
+
+          // 获取块名称
+          let blockName = t('Document ${id}', { id: String(blockId) });
+          if (block.aliases && block.aliases.length > 0) {
+            blockName = block.aliases[0];
+          } else if (block.text) {
+            blockName = this.core.getBlockName(block.text);
+          }
+
+          // 获取图标和颜色
+          const iconProp = this.findProperty(block, '_icon');
+          const colorProp = this.findProperty(block, '_color');
+          let iconClass = 'ti ti-cube';
+          let color = '';
+
+          if (iconProp && iconProp.type === 1 && iconProp.value && iconProp.value.trim()) {
+            iconClass = iconProp.value;
+          } else if (block.aliases && block.aliases.length > 0) {
+            const hideProp = this.findProperty(block, '_hide');
+            iconClass = hideProp && hideProp.value ? 'ti ti-file' : 'ti ti-hash';
+          }
+
+          if (colorProp && colorProp.type === 1) {
+            color = colorProp.value;
+          }
+
+          // 创建文档条目
+          console.log('[Folder Tree] 创建查询结果子项:', blockName, blockId);
+          const created = await step(() => this.core.createDocument(
+            blockName,
+            blockId,
+            queryFolderId,
+            'document',
+            iconClass,
+            color
+          ));
         
-        if (created) {
-          console.log('[Folder Tree] 子项创建成功:', created.id);
-        } else {
-          console.error('[Folder Tree] 子项创建失败:', blockName, blockId);
+          if (created.ok) {
+            console.log('[Folder Tree] 子项创建成功:', created.value.id);
+          } else {
+            console.error('[Folder Tree] 子项创建失败:', blockName, blockId, created.error.message);
+          }
         }
-      }
 
-      // 重新排序以匹配查询结果顺序
-      const updatedChildren = this.core.getItemChildren(queryFolderId);
-      const orderedIds = resultBlocks.map((resultItem: any) => {
-        // 提取块ID
-        const blockId = typeof resultItem === 'object' && resultItem !== null && 'id' in resultItem
-          ? resultItem.id.toString()
-          : resultItem.toString();
-        const child = updatedChildren.find(c => c.blockId === blockId);
-        return child?.id;
-      }).filter(Boolean) as string[];
-
-      if (orderedIds.length > 0) {
-        await this.core.reorderItems(queryFolderId, orderedIds);
-      }
+        // 重新排序以匹配查询结果顺序
+        const updatedChildren = this.core.getItemChildren(queryFolderId);
+        const orderedIds = resultBlocks.map((resultItem: any) => {
+          // 提取块ID
+          const blockId = typeof resultItem === 'object' && resultItem !== null && 'id' in resultItem
+            ? resultItem.id.toString()
+            : resultItem.toString();
+          const child = updatedChildren.find(c => c.blockId === blockId);
+          return child?.id;
+        }).filter(Boolean) as string[];
+
+        if (orderedIds.length > 0) {
+          await step(() => this.core.reorderItems(queryFolderId, orderedIds));
+        }
 
-      // 触发渲染以显示新创建的子项
-      this.render();
+        // 触发渲染以显示新创建的子项
+        this.render();
 
-      console.log('[Folder Tree] 查询块子项更新完成，已创建', orderedIds.length, '个子项');
+        console.log('[Folder Tree] 查询块子项更新完成，已创建', orderedIds.length, '个子项');
 
-    } catch (error) {
-      console.error('[Folder Tree] 更新查询块子项失败:', error);
-      (window as any).orca.notify('error', `更新查询结果失败: ${error instanceof Error ? error.message : String(error)}`);
-    }
+      } catch (error) {
+        console.error('[Folder Tree] 更新查询块子项失败:', error);
+        this.notify('error', t('Failed to update the query results: ${reason}', { reason: error instanceof Error ? error.message : String(error) }));
+      }
+    }, { recordHistory: false });
   }
 
+
   
   
   private createInputDialog(title: string, label: string, defaultValue: string): any {
@@ -2531,7 +3908,7 @@ class FolderTreeRenderer {
     `;
 
     const cancelBtn = document.createElement('button');
-    cancelBtn.textContent = '取消';
+    cancelBtn.textContent = t('Cancel');
     cancelBtn.style.cssText = `
       padding: 8px 16px;
       border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
@@ -2546,7 +3923,7 @@ class FolderTreeRenderer {
     };
 
     const confirmBtn = document.createElement('button');
-    confirmBtn.textContent = '确定';
+    confirmBtn.textContent = t('OK');
     confirmBtn.style.cssText = `
       padding: 8px 16px;
       border: 1px solid ${isDark ? '#3d8bfd' : '#0d6efd'};
@@ -2614,6 +3991,19 @@ class FolderTreeRenderer {
     return div.innerHTML;
   }
 
+  /**
+   * 跳转到项目对应的块，块已被删除时提示重新链接
+   */
+  private openItemBlock(item: any): void {
+    if (this.core.isBlockMissing(item.id)) {
+      this.notify('warn', t('The block for "${name}" has been deleted. Click to relink', { name: item.name }), {
+        action: () => this.relinkItem(item.id)
+      });
+      return;
+    }
+    this.goToBlockWithAlias(item.blockId);
+  }
+
   /**
    * 跳转到块（使用原生 API，避免重复打开）
    */
@@ -2652,6 +4042,9 @@ class FolderTreeRenderer {
     if (existingPanelId) {
       // 如果已存在，切换到该面板，避免重复打开
       orca.nav.switchFocusTo(existingPanelId);
+    } else if (this.core.getSettings().openInNewPanel) {
+      // 设置为在新面板中打开
+      orca.nav.openInLastPanel('block', { blockId: blockIdNum });
     } else {
       // 如果不存在，使用原生方式打开
       orca.nav.goTo('block', { blockId: blockIdNum });
@@ -2683,75 +4076,412 @@ class FolderTreeRenderer {
         return false;
       }
 
-      // 移动被拖拽的笔记本到目标位置
-      const [draggedNotebook] = notebooks.splice(draggedIndex, 1);
-      notebooks.splice(targetIndex, 0, draggedNotebook);
+      // 移动被拖拽的笔记本到目标位置
+      const [draggedNotebook] = notebooks.splice(draggedIndex, 1);
+      notebooks.splice(targetIndex, 0, draggedNotebook);
+
+      // 重新分配order值
+      const reorderedNotebooks = notebooks.map((notebook, index) => ({
+        ...notebook,
+        order: index
+      }));
+
+      // 保存排序
+      const result = await this.core.reorderNotebooks(reorderedNotebooks.map((nb) => nb.id));
+
+      if (result.ok) {
+        // 强制重新渲染
+        this.render();
+      }
+
+      return result.ok;
+    } catch (error) {
+      console.error('笔记本排序失败:', error);
+      return false;
+    }
+  }
+
+  private async reorderDocuments(draggedId: string, targetId: string, targetParent: string): Promise<OperationResult> {
+    try {
+      // 确定父级和子文档列表
+      let parentId: string;
+      let siblingIds: string[];
+
+      if (targetParent.startsWith('notebook_')) {
+        // 在笔记本级别
+        parentId = targetParent;
+        const notebook = this.core.getItemById(parentId);
+        siblingIds = notebook && notebook.children ? [...notebook.children] : [];
+      } else {
+        // 在文件夹级别
+        parentId = targetParent;
+        const parentDoc = this.core.getItemById(parentId);
+        siblingIds = parentDoc && parentDoc.children ? [...parentDoc.children] : [];
+      }
+
+      // 获取当前排序
+      const draggedIndex = siblingIds.indexOf(draggedId);
+      const targetIndex = siblingIds.indexOf(targetId);
+
+      if (draggedIndex === -1 || targetIndex === -1) {
+        console.error('无法找到文档进行排序');
+        return fail('not-found', { target: t('Item ${id}', { id: draggedIndex === -1 ? draggedId : targetId }) });
+      }
+
+      // 移动被拖拽的文档到目标位置
+      const [movedId] = siblingIds.splice(draggedIndex, 1);
+      siblingIds.splice(targetIndex, 0, movedId);
+
+      // 保存排序
+      const result = await this.core.reorderDocuments(parentId, siblingIds);
+
+      if (result.ok) {
+        // 强制重新渲染
+        this.render();
+      }
+
+      return result;
+    } catch (error) {
+      console.error('文档排序失败:', error);
+      return fail('invalid-move', { name: this.core.getItemById(draggedId)?.name || draggedId, reason: describeError(error) });
+    }
+  }
+
+  /**
+   * 导出菜单项
+   * @param rootId - 导出的子树根项目ID，为 null 时导出整个文档树
+   */
+  private getExportMenuItems(rootId: string | null): Array<{ label: string; icon: string; action: () => void }> {
+    const formats: Array<{ format: ExportFormat; label: string }> = [
+      { format: 'json', label: t('Export as JSON') },
+      { format: 'opml', label: t('Export as OPML') },
+      { format: 'markdown', label: t('Export as Markdown') },
+    ];
+    return formats.map(({ format, label }) => ({
+      label,
+      icon: '📤',
+      action: () => this.exportTree(rootId, format)
+    }));
+  }
+
+  /**
+   * 导出文档树或子树为文件
+   */
+  exportTree(rootId: string | null, format: ExportFormat): void {
+    try {
+      const result = this.exporter.export(rootId, format);
+      if (!result) {
+        this.notify('error', t('Export failed: the item does not exist'));
+        return;
+      }
+      downloadTextFile(result.filename, result.content, result.mimeType);
+      this.notify('success', t('Exported ${filename}', { filename: result.filename }));
+    } catch (error) {
+      console.error('[Folder Tree] 导出失败:', error);
+      this.notify('error', t('Export failed'));
+    }
+  }
+
+  /**
+   * 从 JSON、OPML 或 Markdown 文件导入
+   * @param targetParentId - 导入到的父级，为 null 时导入到根级
+   */
+  async importTree(targetParentId: string | null): Promise<void> {
+    const file = await pickTextFile('.json,.opml,.xml,.md,.markdown,.txt');
+    if (!file) return;
+
+    let parsed;
+    try {
+      parsed = parseImportFile(file.name, file.content);
+    } catch (error) {
+      console.error('[Folder Tree] 解析导入文件失败:', error);
+      this.notify('error', t('Cannot parse ${filename}: ${reason}', { filename: file.name, reason: error instanceof Error ? error.message : String(error) }));
+      return;
+    }
+
+    if (parsed.nodes.length === 0) {
+      this.notify('warn', t('${filename} has no entries to import', { filename: file.name }));
+      return;
+    }
+
+    // 根级导入时，已存在同名笔记本需要选择合并或替换
+    let mode: ImportMode = 'merge';
+    if (targetParentId === null) {
+      const conflicts = this.importer.findConflictingNotebooks(parsed.nodes);
+      if (conflicts.length > 0) {
+        const choice = await this.showListDialog(
+          t('Notebooks already exist'),
+          t('The following notebooks already exist. Merging keeps their content and adds missing items; replacing moves the existing notebooks to the trash:'),
+          conflicts.map(notebook => notebook.name),
+          [
+            { value: 'merge', label: t('Merge') },
+            { value: 'replace', label: t('Replace') },
+          ]
+        );
+        if (!choice) return;
+        mode = choice as ImportMode;
+      }
+    }
+
+    try {
+      const summary = await this.importer.import(parsed.nodes, targetParentId, mode);
+      const message = summary.skipped > 0
+        ? t('Imported ${created} items, skipped ${skipped} existing items', { created: String(summary.created), skipped: String(summary.skipped) })
+        : t('Imported ${created} items', { created: String(summary.created) });
+
+      const problems = [
+        ...summary.failed.map(failure => t('Could not create "${name}", its children were skipped: ${reason}', { name: failure.name, reason: failure.reason })),
+        ...summary.unresolved.map(name => t('No block found for "${name}", skipped or imported as a folder', { name })),
+      ];
+      if (problems.length > 0) {
+        await this.showListDialog(
+          t('Import finished'),
+          t('${message}. The following ${count} entries were not imported as written:', { message, count: String(problems.length) }),
+          problems,
+          []
+        );
+      } else {
+        this.notify('success', message);
+      }
+    } catch (error) {
+      console.error('[Folder Tree] 导入失败:', error);
+      this.notify('error', t('Import failed'));
+    }
+  }
+
+  /**
+   * 显示带条目列表和选项按钮的对话框
+   * @returns 选中的按钮值，取消或关闭时为 null
+   */
+  private showListDialog(
+    titleText: string,
+    message: string,
+    lines: string[],
+    choices: Array<{ value: string; label: string }>
+  ): Promise<string | null> {
+    return new Promise(resolve => {
+      const dialog = document.createElement('div');
+      dialog.className = 'folder-tree-list-dialog';
+      dialog.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        background: rgba(0, 0, 0, 0.5);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 10001;
+      `;
+
+      const isDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+      const textColor = isDark ? '#ffffff' : '#212529';
+      const mutedColor = isDark ? '#adb5bd' : '#6c757d';
+      const buttonStyle = `
+        padding: 8px 16px;
+        border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
+        border-radius: 4px;
+        background: ${isDark ? '#2d2d2d' : '#ffffff'};
+        color: ${textColor};
+        cursor: pointer;
+        font-size: 14px;
+      `;
+
+      const content = document.createElement('div');
+      content.style.cssText = `
+        background: ${isDark ? '#1a1a1a' : '#ffffff'};
+        border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
+        border-radius: 8px;
+        padding: 20px;
+        min-width: 360px;
+        max-width: 520px;
+        max-height: 80vh;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+        display: flex;
+        flex-direction: column;
+      `;
+
+      const title = document.createElement('h3');
+      title.textContent = titleText;
+      title.style.cssText = `
+        margin: 0 0 8px 0;
+        color: ${textColor};
+        font-size: 16px;
+        font-weight: 600;
+      `;
+
+      const text = document.createElement('div');
+      text.textContent = message;
+      text.style.cssText = `color: ${mutedColor}; font-size: 13px; margin-bottom: 8px;`;
+
+      const list = document.createElement('div');
+      list.style.cssText = `
+        overflow-y: auto;
+        max-height: 40vh;
+        color: ${textColor};
+        font-size: 12px;
+      `;
+      list.innerHTML = lines.map(line => `<div>• ${this.escapeHtml(line)}</div>`).join('');
+
+      const buttons = document.createElement('div');
+      buttons.style.cssText = 'display: flex; gap: 8px; justify-content: flex-end; margin-top: 16px;';
+
+      const close = (value: string | null) => {
+        dialog.remove();
+        resolve(value);
+      };
+
+      choices.forEach(choice => {
+        const btn = document.createElement('button');
+        btn.textContent = choice.label;
+        btn.style.cssText = buttonStyle;
+        btn.onclick = () => close(choice.value);
+        buttons.appendChild(btn);
+      });
+
+      const cancelBtn = document.createElement('button');
+      cancelBtn.textContent = choices.length > 0 ? t('Cancel') : t('Close');
+      cancelBtn.style.cssText = buttonStyle;
+      cancelBtn.onclick = () => close(null);
+      buttons.appendChild(cancelBtn);
+
+      dialog.onclick = (e) => {
+        if (e.target === dialog) close(null);
+      };
+
+      content.appendChild(title);
+      content.appendChild(text);
+      content.appendChild(list);
+      content.appendChild(buttons);
+      dialog.appendChild(content);
+      document.body.appendChild(dialog);
+    });
+  }
 
-      // 重新分配order值
-      const reorderedNotebooks = notebooks.map((notebook, index) => ({
-        ...notebook,
-        order: index
-      }));
+  /**
+   * 检查对应块已被删除的项目，并提供批量移除或按名称重新链接
+   */
+  async checkBlockLinks(): Promise<void> {
+    const result = await this.core.checkBlockLinks();
+    if (!result.ok) {
+      this.notifyError(result.error);
+      return;
+    }
+    const broken = result.value;
+    if (broken.length === 0) {
+      this.notify('success', t('No broken links found'));
+      return;
+    }
 
-      // 保存排序
-      const success = await this.core.reorderNotebooks(reorderedNotebooks.map((nb) => nb.id));
+    const choice = await this.showListDialog(
+      t('Broken links'),
+      t('The blocks of the following ${count} items have been deleted. Move them all to the trash, or try relinking them by name (alias); single items can also be handled from their context menu:', { count: String(broken.length) }),
+      broken.map(item => item.name),
+      [
+        { value: 'relink', label: t('Relink by name') },
+        { value: 'remove', label: t('Remove all') },
+      ]
+    );
 
-      if (success) {
-        // 强制重新渲染
-        this.render();
+    if (choice === 'remove') {
+      await this.removeBrokenItems(broken.map(item => item.id));
+    } else if (choice === 'relink') {
+      // 先查找所有别名，再一次性重新链接，整个过程只产生一条撤销记录
+      const links: Array<{ itemId: string; blockId: string }> = [];
+      for (const item of broken) {
+        try {
+          const blockId = await findBlockIdByAlias(item.name);
+          if (blockId) links.push({ itemId: item.id, blockId });
+        } catch (error) {
+          console.warn('[Folder Tree] 按名称查找块失败:', item.name, error);
+        }
       }
 
-      return success;
-    } catch (error) {
-      console.error('笔记本排序失败:', error);
-      return false;
+      const relinkResult = links.length > 0 ? await this.core.relinkItems(links) : ok(0);
+      if (!relinkResult.ok) {
+        this.notifyError(relinkResult.error);
+        return;
+      }
+      const relinked = relinkResult.value;
+      const message = relinked < broken.length
+        ? t('Relinked ${relinked} items, no matching alias found for ${missing}', { relinked: String(relinked), missing: String(broken.length - relinked) })
+        : t('Relinked ${relinked} items', { relinked: String(relinked) });
+      if (relinked > 0) {
+        this.notifyWithUndo(message);
+      } else {
+        this.notify('warn', message);
+      }
     }
   }
 
-  private async reorderDocuments(draggedId: string, targetId: string, targetParent: string): Promise<boolean> {
-    try {
-      // 确定父级和子文档列表
-      let parentId: string;
-      let siblingIds: string[];
+  /**
+   * 把项目重新链接到用户指定的块（块ID、((块ID)) 或别名）
+   */
+  private relinkItem(itemId: string): void {
+    const item = this.core.getItemById(itemId);
+    if (!item) return;
 
-      if (targetParent.startsWith('notebook_')) {
-        // 在笔记本级别
-        parentId = targetParent;
-        const notebook = this.core.getItemById(parentId);
-        siblingIds = notebook && notebook.children ? [...notebook.children] : [];
-      } else {
-        // 在文件夹级别
-        parentId = targetParent;
-        const parentDoc = this.core.getItemById(parentId);
-        siblingIds = parentDoc && parentDoc.children ? [...parentDoc.children] : [];
-      }
+    const input = this.createInputDialog(t('Relink'), t('Enter a block ID, ((block ID)) or alias:'), '');
+    input.show(async (value: string) => {
+      const text = value.trim();
+      if (!text) return;
 
-      // 获取当前排序
-      const draggedIndex = siblingIds.indexOf(draggedId);
-      const targetIndex = siblingIds.indexOf(targetId);
+      const idMatch = text.match(/^(?:\(\()?(\d+)(?:\)\))?$/);
+      let blockId: string | null = idMatch ? idMatch[1] : null;
+      if (!blockId) {
+        try {
+          blockId = await findBlockIdByAlias(text.replace(/^\[\[(.+)\]\]$/, '$1'));
+        } catch (error) {
+          console.warn('[Folder Tree] 按别名查找块失败:', text, error);
+        }
+      }
 
-      if (draggedIndex === -1 || targetIndex === -1) {
-        console.error('无法找到文档进行排序');
-        return false;
+      if (!blockId) {
+        this.notify('error', t('Block not found: ${text}', { text }));
+        return;
+      }
+      const result = await this.core.relinkItem(itemId, blockId);
+      if (result.ok) {
+        this.notifyWithUndo(t('Relinked "${name}"', { name: item.name }));
+      } else {
+        this.notifyError(result.error);
       }
+    });
+  }
 
-      // 移动被拖拽的文档到目标位置
-      const [movedId] = siblingIds.splice(draggedIndex, 1);
-      siblingIds.splice(targetIndex, 0, movedId);
+  /**
+   * 把对应块已被删除的项目移到回收站（一次可撤销的操作）
+   */
+  private async removeBrokenItems(itemIds: string[]): Promise<void> {
+    const result = await this.core.deleteItems(itemIds, { label: t('Remove broken link') });
+    if (!result.ok) {
+      this.notifyError(result.error);
+    } else if (result.value > 0) {
+      this.notifyWithUndo(t('Moved ${count} broken links to the trash', { count: String(result.value) }));
+    }
+  }
 
-      // 保存排序
-      const success = await this.core.reorderDocuments(parentId, siblingIds);
+  /**
+   * 检查数据完整性，确认后修复发现的问题
+   */
+  async checkIntegrity(): Promise<void> {
+    const issues = this.core.checkIntegrity();
+    if (issues.length === 0) {
+      this.notify('success', t('The folder tree data is consistent, no problems found'));
+      return;
+    }
 
-      if (success) {
-        // 强制重新渲染
-        this.render();
-      }
+    const choice = await this.showListDialog(
+      t('Data integrity check'),
+      t('Found ${count} problems. Fixing moves items with a missing parent or a cycle to the top level, rebuilds child lists and sort order, and removes invalid references from the settings:', { count: String(issues.length) }),
+      issues.map(issue => issue.message),
+      [{ value: 'repair', label: t('Fix') }]
+    );
+    if (choice !== 'repair') return;
 
-      return success;
-    } catch (error) {
-      console.error('文档排序失败:', error);
-      return false;
-    }
+    const fixed = this.core.repairIntegrity();
+    this.notifyWithUndo(t('Fixed ${count} problems', { count: String(fixed) }));
   }
 
   /**
@@ -2773,7 +4503,7 @@ class FolderTreeRenderer {
 
     const menuItems: Array<{ label: string; icon: string; action: () => void; className?: string }> = [
       {
-        label: '创建笔记本',
+        label: t('Create notebook'),
         icon: '📓',
         action: () => this.showCreateNotebookInput()
       }
@@ -2783,7 +4513,7 @@ class FolderTreeRenderer {
     const rootItems = this.core.getRootItems();
     if (rootItems.length > 1) {
       menuItems.push({
-        label: '自然排序',
+        label: t('Sort naturally'),
         icon: '🔢',
         action: () => {
           this.naturalSortChildren(null);
@@ -2791,6 +4521,32 @@ class FolderTreeRenderer {
       });
     }
 
+    menuItems.push(...this.getExportMenuItems(null));
+
+    menuItems.push({
+      label: t('Import...'),
+      icon: '📥',
+      action: () => this.importTree(null)
+    });
+
+    menuItems.push({
+      label: t('Backup and restore'),
+      icon: '💾',
+      action: () => this.showBackupDialog()
+    });
+
+    menuItems.push({
+      label: t('Check broken links'),
+      icon: '🔗',
+      action: () => this.checkBlockLinks()
+    });
+
+    menuItems.push({
+      label: t('Check data integrity'),
+      icon: '🩺',
+      action: () => this.checkIntegrity()
+    });
+
     // 创建菜单项
     menuItems.forEach(item => {
       const menuItem = document.createElement('div');
@@ -2830,6 +4586,12 @@ class FolderTreeRenderer {
    * 显示右键菜单
    */
   private showContextMenu(e: MouseEvent, itemId: string, itemType: 'notebook' | 'folder' | 'document'): void {
+    // 在多选的项目上右键时显示批量操作菜单
+    if (this.isInMultiSelection(itemId)) {
+      this.showSelectionContextMenu(e);
+      return;
+    }
+
     // 移除已存在的菜单
     const existingMenu = document.querySelector('.folder-tree-context-menu');
     if (existingMenu) {
@@ -2848,7 +4610,7 @@ class FolderTreeRenderer {
     // 笔记本和文件夹可以创建子文件夹
     if (itemType === 'notebook' || itemType === 'folder') {
       menuItems.push({
-        label: '新建文件夹',
+        label: t('New folder'),
         icon: '📂',
         action: () => {
           if (itemType === 'notebook') {
@@ -2858,23 +4620,23 @@ class FolderTreeRenderer {
             }
           } else {
             // 在文件夹中创建子文件夹
-            const dialog = this.createInputDialog('新建文件夹', '请输入文件夹名称:', '');
+            const dialog = this.createInputDialog(t('New folder'), t('Folder name:'), '');
             dialog.show(async (name: string) => {
               if (name && name.trim()) {
-                const folder = await this.core.createDocument(name.trim(), null, itemId, 'folder');
-                if (folder) {
-                  (window as any).orca.notify('success', '文件夹创建成功');
+                const created = await this.core.createDocument(name.trim(), null, itemId, 'folder');
+                if (created.ok) {
+                  this.notify('success', t('Folder created'));
                   // 展开父文件夹
                   if (!this.expandedItems.has(itemId)) {
                     this.expandedItems.add(itemId);
                     await this.core.setExpandedState( Array.from(this.expandedItems));
                   }
                   // 展开新创建的文件夹
-                  this.expandedItems.add(folder.id);
+                  this.expandedItems.add(created.value.id);
                   await this.core.setExpandedState( Array.from(this.expandedItems));
                   this.render();
                 } else {
-                  (window as any).orca.notify('error', '文件夹创建失败');
+                  this.notifyError(created.error);
                 }
               }
             });
@@ -2888,7 +4650,7 @@ class FolderTreeRenderer {
     if (currentItem && currentItem.parentId !== null) {
       if (this.focusedItemId === itemId) {
         menuItems.push({
-          label: '退出聚焦',
+          label: t('Exit focus'),
           icon: '🔍',
           action: () => {
             this.exitFocus();
@@ -2896,14 +4658,14 @@ class FolderTreeRenderer {
         });
       } else {
         menuItems.push({
-          label: '聚焦',
+          label: t('Focus'),
           icon: '🔍',
           action: () => {
             this.focusItem(itemId, false);
           }
         });
         menuItems.push({
-          label: '聚焦并折叠其他',
+          label: t('Focus and collapse others'),
           icon: '🎯',
           action: () => {
             this.focusItem(itemId, true);
@@ -2918,7 +4680,7 @@ class FolderTreeRenderer {
       if (closedNotebooks.includes(itemId)) {
         // 如果已经关闭，显示恢复选项
         menuItems.push({
-          label: '恢复',
+          label: t('Restore'),
           icon: '📖',
           action: () => {
             this.restoreNotebook(itemId);
@@ -2927,7 +4689,7 @@ class FolderTreeRenderer {
       } else {
         // 如果未关闭，显示关闭选项
         menuItems.push({
-          label: '关闭',
+          label: t('Close'),
           icon: '📕',
           action: () => {
             this.closeNotebook(itemId);
@@ -2941,7 +4703,7 @@ class FolderTreeRenderer {
       const children = this.core.getItemChildren(itemId);
       if (children.length > 1) {
         menuItems.push({
-          label: '自然排序',
+          label: t('Sort naturally'),
           icon: '🔢',
           action: () => {
             this.naturalSortChildren(itemId);
@@ -2950,9 +4712,42 @@ class FolderTreeRenderer {
       }
     }
 
+    // 导出选项（笔记本和文件夹可以导出其子树）
+    if (itemType === 'notebook' || itemType === 'folder') {
+      menuItems.push(...this.getExportMenuItems(itemId));
+      menuItems.push({
+        label: t('Import here...'),
+        icon: '📥',
+        action: () => this.importTree(itemId)
+      });
+    }
+
+    // 对应块已被删除的项目
+    if (this.core.isBlockMissing(itemId)) {
+      menuItems.push({
+        label: t('Relink to another block...'),
+        icon: '🔗',
+        action: () => this.relinkItem(itemId)
+      });
+      menuItems.push({
+        label: t('Remove broken link'),
+        icon: '✂️',
+        action: () => this.removeBrokenItems([itemId])
+      });
+    }
+
+    // 复制块引用
+    if (currentItem && currentItem.blockId) {
+      menuItems.push({
+        label: t('Copy as block reference'),
+        icon: '📋',
+        action: () => this.copyAsBlockReferences([currentItem])
+      });
+    }
+
     // 重命名选项
     menuItems.push({
-      label: '重命名',
+      label: t('Rename'),
       icon: '✏️',
       action: () => {
         if (itemType === 'notebook') {
@@ -2965,7 +4760,7 @@ class FolderTreeRenderer {
 
     // 删除选项
     menuItems.push({
-      label: '删除',
+      label: t('Delete'),
       icon: '🗑️',
       action: () => {
         if (itemType === 'notebook') {
@@ -3031,7 +4826,7 @@ class FolderTreeRenderer {
       const block = await (window as any).orca.invokeBackend('get-block', blockId);
       if (block && block.backRefs && block.backRefs.length > 0) {
         const menuItem = {
-          label: '显示包含于列表',
+          label: t('Show included in'),
           icon: '🔗',
           action: () => {
             this.showContainedInList(blockId);
@@ -3067,7 +4862,7 @@ class FolderTreeRenderer {
     try {
       const block = await (window as any).orca.invokeBackend('get-block', blockId);
       if (!block || !block.backRefs || block.backRefs.length === 0) {
-        (window as any).orca.notify('info', '该块没有被其他块包含');
+        this.notify('info', t('This block is not included in any other block'));
         return;
       }
 
@@ -3075,14 +4870,14 @@ class FolderTreeRenderer {
       const containedInBlockIds = block.backRefs.map((ref: any) => ref.from).filter((id: any) => id != null);
       
       if (containedInBlockIds.length === 0) {
-        (window as any).orca.notify('info', '该块没有被其他块包含');
+        this.notify('info', t('This block is not included in any other block'));
         return;
       }
 
       // 批量获取块信息
       const blocks = await (window as any).orca.invokeBackend('get-blocks', containedInBlockIds);
       if (!blocks || blocks.length === 0) {
-        (window as any).orca.notify('info', '无法获取包含于块信息');
+        this.notify('info', t('Failed to get the including blocks'));
         return;
       }
 
@@ -3090,7 +4885,7 @@ class FolderTreeRenderer {
       this.showContainedInDialog(blocks);
     } catch (error) {
       console.error('[Folder Tree] 显示包含于列表失败:', error);
-      (window as any).orca.notify('error', '显示包含于列表失败');
+      this.notify('error', t('Failed to show the including blocks'));
     }
   }
 
@@ -3136,7 +4931,7 @@ class FolderTreeRenderer {
     `;
 
     const title = document.createElement('h3');
-    title.textContent = '包含于列表';
+    title.textContent = t('Included in');
     title.style.cssText = `
       margin: 0 0 16px 0;
       color: ${isDark ? '#ffffff' : '#212529'};
@@ -3173,11 +4968,11 @@ class FolderTreeRenderer {
       };
 
       // 获取块名称
-      let blockName = `块 ${block.id}`;
+      let blockName = t('Block ${id}', { id: String(block.id) });
       if (block.aliases && block.aliases.length > 0) {
         blockName = block.aliases[0];
       } else if (block.text) {
-        blockName = block.text.length > 50 ? block.text.substring(0, 50) + '...' : block.text;
+        blockName = this.core.getBlockName(block.text);
       }
 
       item.innerHTML = `
@@ -3197,7 +4992,7 @@ class FolderTreeRenderer {
     });
 
     const closeBtn = document.createElement('button');
-    closeBtn.textContent = '关闭';
+    closeBtn.textContent = t('Close');
     closeBtn.style.cssText = `
       padding: 8px 16px;
       border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
@@ -3228,6 +5023,285 @@ class FolderTreeRenderer {
 
     document.body.appendChild(dialog);
   }
+
+  /**
+   * 显示备份与恢复对话框
+   */
+  async showBackupDialog(): Promise<void> {
+    // 移除已存在的对话框
+    const existingDialog = document.querySelector('.folder-tree-backup-dialog');
+    if (existingDialog) {
+      existingDialog.remove();
+    }
+
+    const backups = await this.core.listBackups();
+
+    const dialog = document.createElement('div');
+    dialog.className = 'folder-tree-backup-dialog';
+    dialog.style.cssText = `
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 10001;
+    `;
+
+    const isDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+    const textColor = isDark ? '#ffffff' : '#212529';
+    const mutedColor = isDark ? '#adb5bd' : '#6c757d';
+    const rowBackground = isDark ? '#2d2d2d' : '#f8f9fa';
+    const buttonStyle = `
+      padding: 4px 10px;
+      border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
+      border-radius: 4px;
+      background: ${isDark ? '#2d2d2d' : '#ffffff'};
+      color: ${textColor};
+      cursor: pointer;
+      font-size: 12px;
+    `;
+
+    const content = document.createElement('div');
+    content.style.cssText = `
+      background: ${isDark ? '#1a1a1a' : '#ffffff'};
+      border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
+      border-radius: 8px;
+      padding: 20px;
+      min-width: 460px;
+      max-width: 640px;
+      max-height: 80vh;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      display: flex;
+      flex-direction: column;
+    `;
+
+    const title = document.createElement('h3');
+    title.textContent = t('Backup and restore');
+    title.style.cssText = `
+      margin: 0 0 8px 0;
+      color: ${textColor};
+      font-size: 16px;
+      font-weight: 600;
+    `;
+
+    // 工具栏：创建备份、设置保留数量
+    const toolbar = document.createElement('div');
+    toolbar.style.cssText = `
+      display: flex;
+      gap: 8px;
+      align-items: center;
+      margin-bottom: 12px;
+      color: ${mutedColor};
+      font-size: 12px;
+    `;
+
+    const createBtn = document.createElement('button');
+    createBtn.textContent = t('Back up now');
+    createBtn.style.cssText = buttonStyle;
+    createBtn.onclick = async () => {
+      const result = await this.core.createBackup();
+      if (result.ok) {
+        this.notify('success', t('Backup created'));
+        this.showBackupDialog();
+      } else {
+        this.notifyError(result.error);
+      }
+    };
+
+    const countBtn = document.createElement('button');
+    countBtn.textContent = t('Keep ${count}', { count: String(this.core.getBackupCount()) });
+    countBtn.style.cssText = buttonStyle;
+    countBtn.onclick = () => {
+      const input = this.createInputDialog(t('Backups to keep'), t('Number of backups to keep:'), String(this.core.getBackupCount()));
+      input.show(async (value: string) => {
+        const result = await this.core.setBackupCount(parseInt(value, 10));
+        if (!result.ok) {
+          this.notifyError(result.error);
+          return;
+        }
+        this.showBackupDialog();
+      });
+    };
+
+    const logBtn = document.createElement('button');
+    logBtn.textContent = t('Migration log');
+    logBtn.style.cssText = buttonStyle;
+    logBtn.onclick = async () => {
+      const log = await this.core.getMigrationLog();
+      if (log.length === 0) {
+        diffPanel.innerHTML = `<div style="color: ${mutedColor};">${t('No migration records')}</div>`;
+        return;
+      }
+      diffPanel.innerHTML = log.map(entry => `
+        <div style="margin-bottom: 4px;">
+          ${entry.success ? '✅' : '❌'} v${entry.from} → v${entry.to} ${this.escapeHtml(t(entry.description))}
+          <span style="color: ${mutedColor};">· ${this.escapeHtml(new Date(entry.migratedAt).toLocaleString())} · ${t('${count} items', { count: String(entry.itemCount) })}${entry.backupId ? '' : ` · ${t('Backup failed')}`}</span>
+          ${entry.error ? `<div style="color: #dc3545;">${this.escapeHtml(entry.error)}</div>` : ''}
+        </div>
+      `).join('');
+    };
+
+    toolbar.appendChild(createBtn);
+    toolbar.appendChild(countBtn);
+    toolbar.appendChild(logBtn);
+
+    const list = document.createElement('div');
+    list.style.cssText = `
+      flex: 1;
+      overflow-y: auto;
+      max-height: 30vh;
+    `;
+
+    // 差异显示区域
+    const diffPanel = document.createElement('div');
+    diffPanel.style.cssText = `
+      margin-top: 12px;
+      overflow-y: auto;
+      max-height: 25vh;
+      color: ${textColor};
+      font-size: 12px;
+    `;
+
+    if (backups.length === 0) {
+      const empty = document.createElement('div');
+      empty.textContent = t('No backups yet');
+      empty.style.cssText = `color: ${mutedColor}; padding: 8px 0;`;
+      list.appendChild(empty);
+    }
+
+    backups.forEach(backup => {
+      const row = document.createElement('div');
+      row.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 12px;
+        border-radius: 4px;
+        margin-bottom: 4px;
+        background: ${rowBackground};
+        color: ${textColor};
+      `;
+
+      const info = document.createElement('div');
+      info.style.cssText = 'flex: 1;';
+      info.innerHTML = `
+        <div>${this.escapeHtml(new Date(backup.createdAt).toLocaleString())}</div>
+        <div style="font-size: 11px; color: ${mutedColor};">${this.escapeHtml(backup.reason)} · ${t('${count} items', { count: String(backup.itemCount) })}</div>
+      `;
+
+      const diffBtn = document.createElement('button');
+      diffBtn.textContent = t('Compare');
+      diffBtn.style.cssText = buttonStyle;
+      diffBtn.onclick = async () => {
+        const diff = await this.core.getBackupDiff(backup.id);
+        this.renderBackupDiff(diffPanel, diff, mutedColor);
+      };
+
+      const restoreBtn = document.createElement('button');
+      restoreBtn.textContent = t('Restore');
+      restoreBtn.style.cssText = buttonStyle;
+      restoreBtn.onclick = async () => {
+        if (!confirm(t('Restore the backup from ${time}? The current data is backed up automatically first.', { time: new Date(backup.createdAt).toLocaleString() }))) {
+          return;
+        }
+        const result = await this.core.restoreBackup(backup.id);
+        if (result.ok) {
+          dialog.remove();
+          this.notify('success', t('Restored from the backup'));
+        } else {
+          this.notifyError(result.error);
+        }
+      };
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.textContent = t('Delete');
+      deleteBtn.style.cssText = buttonStyle;
+      deleteBtn.onclick = async () => {
+        if (!confirm(t('Delete this backup?'))) return;
+        const result = await this.core.deleteBackup(backup.id);
+        if (!result.ok) {
+          this.notifyError(result.error);
+        }
+        this.showBackupDialog();
+      };
+
+      row.appendChild(info);
+      row.appendChild(diffBtn);
+      row.appendChild(restoreBtn);
+      row.appendChild(deleteBtn);
+      list.appendChild(row);
+    });
+
+    const closeBtn = document.createElement('button');
+    closeBtn.textContent = t('Close');
+    closeBtn.style.cssText = `
+      padding: 8px 16px;
+      border: 1px solid ${isDark ? '#404040' : '#dee2e6'};
+      border-radius: 4px;
+      background: ${isDark ? '#2d2d2d' : '#ffffff'};
+      color: ${textColor};
+      cursor: pointer;
+      font-size: 14px;
+      margin-top: 16px;
+      align-self: flex-end;
+    `;
+    closeBtn.onclick = () => {
+      dialog.remove();
+    };
+
+    content.appendChild(title);
+    content.appendChild(toolbar);
+    content.appendChild(list);
+    content.appendChild(diffPanel);
+    content.appendChild(closeBtn);
+    dialog.appendChild(content);
+
+    // 点击背景关闭
+    dialog.onclick = (e: MouseEvent) => {
+      if (e.target === dialog) {
+        dialog.remove();
+      }
+    };
+
+    document.body.appendChild(dialog);
+  }
+
+  /**
+   * 显示备份与当前数据的差异
+   */
+  private renderBackupDiff(panel: HTMLElement, diff: any, mutedColor: string): void {
+    if (!diff) {
+      panel.innerHTML = `<div>${t('Cannot read this backup')}</div>`;
+      return;
+    }
+
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+      panel.innerHTML = `<div style="color: ${mutedColor};">${t('This backup is identical to the current data')}</div>`;
+      return;
+    }
+
+    const MAX_NAMES = 20;
+    const renderNames = (items: any[]) => {
+      const names = items.slice(0, MAX_NAMES).map(item => this.escapeHtml(item.name)).join(t(', '));
+      return items.length > MAX_NAMES ? t('${names} and more', { names }) : names;
+    };
+
+    const sections: string[] = [];
+    if (diff.added.length > 0) {
+      sections.push(`<div><b>${t('Reappear after restoring (${count}):', { count: String(diff.added.length) })}</b>${renderNames(diff.added)}</div>`);
+    }
+    if (diff.removed.length > 0) {
+      sections.push(`<div><b>${t('Disappear after restoring (${count}):', { count: String(diff.removed.length) })}</b>${renderNames(diff.removed)}</div>`);
+    }
+    if (diff.changed.length > 0) {
+      sections.push(`<div><b>${t('Change after restoring (${count}):', { count: String(diff.changed.length) })}</b>${renderNames(diff.changed.map((c: any) => c.before))}</div>`);
+    }
+    panel.innerHTML = sections.join('<div style="height: 6px;"></div>');
+  }
 }
 
 // Export the class globally
@@ -0,0 +1,109 @@
+/**
+ * 文档树插件 - 搜索模块
+ * 负责按名称匹配项目：不区分大小写的子串匹配，以及中文名称的拼音首字母匹配（如 "wdsh" 匹配"文档树"）
+ */
+
+/**
+ * 名称中匹配的范围（UTF-16 下标，end 不包含）
+ */
+interface MatchRange {
+  start: number;
+  end: number;
+}
+
+// 各拼音首字母（没有 i、u、v 开头的拼音）在拼音排序中的第一个汉字，用于通过排序规则推算汉字的拼音首字母
+const PINYIN_INITIALS = "abcdefghjklmnopqrstwxyz";
+const PINYIN_BOUNDARIES = "阿八嚓哒妸发旮哈讥咔垃痳拏噢妑七呥扨它穵夕丫帀";
+
+let collator: Intl.Collator | null | undefined;
+const initialsCache = new Map<string, Initials>();
+
+/**
+ * 名称的首字母序列及每个首字母在名称中的下标
+ */
+interface Initials {
+  text: string;
+  positions: number[];
+}
+
+/**
+ * 按拼音排序的中文排序规则，运行环境不支持时为 null
+ */
+function getPinyinCollator(): Intl.Collator | null {
+  if (collator === undefined) {
+    try {
+      const candidate = new Intl.Collator("zh-Hans-CN-u-co-pinyin");
+      collator = candidate.resolvedOptions().locale.startsWith("zh") ? candidate : null;
+    } catch {
+      collator = null;
+    }
+  }
+  return collator;
+}
+
+/**
+ * 单个汉字的拼音首字母，无法确定时为 null
+ */
+function getCharInitial(char: string, pinyinCollator: Intl.Collator): string | null {
+  if (pinyinCollator.compare(char, PINYIN_BOUNDARIES[0]) < 0) return null;
+  for (let i = PINYIN_BOUNDARIES.length - 1; i >= 0; i--) {
+    if (pinyinCollator.compare(char, PINYIN_BOUNDARIES[i]) >= 0) {
+      return PINYIN_INITIALS[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * 把名称转换为首字母序列：汉字转为拼音首字母，字母和数字转为小写，跳过其他字符（如空格和标点）
+ */
+function getInitials(text: string): Initials | null {
+  const pinyinCollator = getPinyinCollator();
+  if (!pinyinCollator || !/[一-鿿]/.test(text)) return null;
+
+  let initials = initialsCache.get(text);
+  if (!initials) {
+    initials = { text: "", positions: [] };
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const initial = /[一-鿿]/.test(char)
+        ? getCharInitial(char, pinyinCollator)
+        : /[a-z0-9]/i.test(char) ? char.toLowerCase() : null;
+      if (initial) {
+        initials.text += initial;
+        initials.positions.push(i);
+      }
+    }
+    initialsCache.set(text, initials);
+  }
+  return initials;
+}
+
+/**
+ * 在名称中查找关键词
+ * @returns 匹配的范围，不匹配时为 null
+ */
+function matchName(name: string, keyword: string): MatchRange | null {
+  const query = keyword.trim().toLowerCase();
+  if (!query) return null;
+
+  const index = name.toLowerCase().indexOf(query);
+  if (index !== -1) {
+    return { start: index, end: index + query.length };
+  }
+
+  // 只由字母和数字组成的关键词再尝试拼音首字母匹配
+  if (/^[a-z0-9]+$/.test(query)) {
+    const initials = getInitials(name);
+    const initialsIndex = initials ? initials.text.indexOf(query) : -1;
+    if (initials && initialsIndex !== -1) {
+      return {
+        start: initials.positions[initialsIndex],
+        end: initials.positions[initialsIndex + query.length - 1] + 1,
+      };
+    }
+  }
+  return null;
+}
+
+export { matchName, type MatchRange };
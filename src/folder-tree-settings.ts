@@ -0,0 +1,147 @@
+/**
+ * 文档树插件 - 设置模块
+ * 负责插件设置的定义（在 Orca 设置面板中显示的 schema）、默认值和校验
+ */
+
+import type { PluginSettingsSchema } from "./orca";
+import { t } from "./libs/l10n";
+
+/**
+ * 提示级别：全部提示、只提示警告和错误、只提示错误
+ */
+type NotificationLevel = "all" | "warnings" | "errors";
+
+type NotificationType = "success" | "info" | "warn" | "error";
+
+interface FolderTreeSettings {
+  notificationLevel: NotificationLevel;
+  defaultNotebook: string; // 添加块的默认笔记本名称，为空时使用第一个笔记本
+  nameMaxLength: number; // 用块文本作为名称时的最大长度
+  queryPageSize: number; // 同步查询结果时每次查询的数量上限
+  showChildCounts: boolean; // 在名称后显示子项数量
+  openInNewPanel: boolean; // 点击项目时在新面板中打开块
+  followActiveBlock: boolean; // 在文档树中自动定位当前面板显示的块
+}
+
+const DEFAULT_SETTINGS: FolderTreeSettings = {
+  notificationLevel: "all",
+  defaultNotebook: "",
+  nameMaxLength: 50,
+  queryPageSize: 500,
+  showChildCounts: true,
+  openInNewPanel: false,
+  followActiveBlock: false,
+};
+
+/**
+ * 设置面板的 schema（标签随语言变化，切换语言时需重新设置）
+ */
+function getSettingsSchema(): PluginSettingsSchema {
+  return {
+    notificationLevel: {
+      label: t("Notifications"),
+      description: t("Which notifications the folder tree shows"),
+      type: "singleChoice",
+      defaultValue: DEFAULT_SETTINGS.notificationLevel,
+      choices: [
+        { label: t("All"), value: "all" },
+        { label: t("Warnings and errors"), value: "warnings" },
+        { label: t("Errors only"), value: "errors" },
+      ],
+    },
+    defaultNotebook: {
+      label: t("Default notebook"),
+      description: t("Name of the notebook that is preselected when adding blocks from the block menu, and that blocks dropped on the empty area of the folder tree are added to. Leave empty to use the first notebook"),
+      type: "string",
+      defaultValue: DEFAULT_SETTINGS.defaultNotebook,
+    },
+    nameMaxLength: {
+      label: t("Name length"),
+      description: t("Maximum number of characters taken from a block's text when it is used as a name"),
+      type: "number",
+      defaultValue: DEFAULT_SETTINGS.nameMaxLength,
+    },
+    queryPageSize: {
+      label: t("Query page size"),
+      description: t("Maximum number of results read when syncing a query block"),
+      type: "number",
+      defaultValue: DEFAULT_SETTINGS.queryPageSize,
+    },
+    showChildCounts: {
+      label: t("Show child counts"),
+      description: t("Show the number of child items after the names of top-level items and trash entries"),
+      type: "boolean",
+      defaultValue: DEFAULT_SETTINGS.showChildCounts,
+    },
+    openInNewPanel: {
+      label: t("Open in new panel"),
+      description: t("Open blocks in another panel instead of the current one when an item is clicked"),
+      type: "boolean",
+      defaultValue: DEFAULT_SETTINGS.openInNewPanel,
+    },
+    followActiveBlock: {
+      label: t("Follow the active block"),
+      description: t("Select the item of the block shown in the active panel whenever it changes, expanding its parents"),
+      type: "boolean",
+      defaultValue: DEFAULT_SETTINGS.followActiveBlock,
+    },
+  };
+}
+
+/**
+ * 把 Orca 保存的设置转换为完整的设置（缺少或无效的值使用默认值）
+ */
+function normalizeSettings(raw: Record<string, any> | null | undefined): FolderTreeSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!raw) return settings;
+
+  if (raw.notificationLevel === "all" || raw.notificationLevel === "warnings" || raw.notificationLevel === "errors") {
+    settings.notificationLevel = raw.notificationLevel;
+  }
+  if (typeof raw.defaultNotebook === "string") {
+    settings.defaultNotebook = raw.defaultNotebook.trim();
+  }
+  const positiveInteger = (value: any): number | null => {
+    const number = Math.floor(Number(value));
+    return Number.isFinite(number) && number >= 1 ? number : null;
+  };
+  settings.nameMaxLength = positiveInteger(raw.nameMaxLength) ?? DEFAULT_SETTINGS.nameMaxLength;
+  settings.queryPageSize = positiveInteger(raw.queryPageSize) ?? DEFAULT_SETTINGS.queryPageSize;
+  if (typeof raw.showChildCounts === "boolean") {
+    settings.showChildCounts = raw.showChildCounts;
+  }
+  if (typeof raw.openInNewPanel === "boolean") {
+    settings.openInNewPanel = raw.openInNewPanel;
+  }
+  if (typeof raw.followActiveBlock === "boolean") {
+    settings.followActiveBlock = raw.followActiveBlock;
+  }
+  return settings;
+}
+
+/**
+ * 当前提示级别下是否显示该类型的提示
+ */
+function shouldNotify(level: NotificationLevel, type: NotificationType): boolean {
+  if (level === "errors") return type === "error";
+  if (level === "warnings") return type === "error" || type === "warn";
+  return true;
+}
+
+/**
+ * 截断过长的名称
+ */
+function truncateName(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + "..." : text;
+}
+
+export {
+  DEFAULT_SETTINGS,
+  getSettingsSchema,
+  normalizeSettings,
+  shouldNotify,
+  truncateName,
+  type FolderTreeSettings,
+  type NotificationLevel,
+  type NotificationType,
+};
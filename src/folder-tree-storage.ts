@@ -0,0 +1,158 @@
+/**
+ * 文档树插件 - 存储适配器模块
+ * 负责把持久化、备份、迁移日志和工作区列表的读写与具体存储解耦：
+ * 在 Orca 中使用插件数据，在 Node 等没有 Orca 的环境中可以使用内存或 JSON 文件
+ */
+
+/**
+ * 键值存储（值均为字符串）
+ */
+interface StorageAdapter {
+  getKeys(): Promise<string[]>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Orca 插件数据存储（默认）
+ */
+class OrcaStorageAdapter implements StorageAdapter {
+  private pluginKey: string;
+
+  constructor(pluginKey: string = "folder-tree") {
+    this.pluginKey = pluginKey;
+  }
+
+  async getKeys(): Promise<string[]> {
+    return (await orca.plugins.getDataKeys(this.pluginKey)) || [];
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await orca.plugins.getData(this.pluginKey, key);
+    return value == null ? null : String(value);
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return orca.plugins.setData(this.pluginKey, key, value);
+  }
+
+  remove(key: string): Promise<void> {
+    return orca.plugins.removeData(this.pluginKey, key);
+  }
+}
+
+/**
+ * 内存存储，用于在没有 Orca 的环境中运行和验证核心逻辑
+ */
+class MemoryStorageAdapter implements StorageAdapter {
+  private entries: Map<string, string>;
+
+  constructor(initial: Record<string, string> = {}) {
+    this.entries = new Map(Object.entries(initial));
+  }
+
+  async getKeys(): Promise<string[]> {
+    return Array.from(this.entries.keys());
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 当前存储的全部内容
+   */
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.entries);
+  }
+}
+
+/**
+ * JSON 文件存储需要的文件读写函数（在 Node 中传入 fs/promises 即可）
+ */
+interface JsonFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+}
+
+/**
+ * JSON 文件存储：所有键值保存在一个 JSON 对象文件中
+ * 首次访问时读取文件（文件不存在时视为空），每次写入后整体写回
+ */
+class JsonFileStorageAdapter implements StorageAdapter {
+  private path: string;
+  private fs: JsonFileSystem;
+  private memory: Promise<MemoryStorageAdapter> | null = null; // 同时发起的首次访问共用同一次读取
+  private writing: Promise<void> = Promise.resolve(); // 按顺序写回文件
+
+  constructor(path: string, fs: JsonFileSystem) {
+    this.path = path;
+    this.fs = fs;
+  }
+
+  private load(): Promise<MemoryStorageAdapter> {
+    if (!this.memory) {
+      this.memory = this.readFile();
+      // 读取失败时允许下次访问重新读取
+      this.memory.catch(() => {
+        this.memory = null;
+      });
+    }
+    return this.memory;
+  }
+
+  private async readFile(): Promise<MemoryStorageAdapter> {
+    let initial: Record<string, string> = {};
+    try {
+      initial = JSON.parse(await this.fs.readFile(this.path, "utf8"));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+    return new MemoryStorageAdapter(initial);
+  }
+
+  private persist(memory: MemoryStorageAdapter): Promise<void> {
+    const write = this.writing.then(() =>
+      this.fs.writeFile(this.path, JSON.stringify(memory.toJSON(), null, 2), "utf8")
+    );
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async getKeys(): Promise<string[]> {
+    return (await this.load()).getKeys();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const memory = await this.load();
+    await memory.set(key, value);
+    await this.persist(memory);
+  }
+
+  async remove(key: string): Promise<void> {
+    const memory = await this.load();
+    await memory.remove(key);
+    await this.persist(memory);
+  }
+}
+
+export {
+  OrcaStorageAdapter,
+  MemoryStorageAdapter,
+  JsonFileStorageAdapter,
+  type StorageAdapter,
+  type JsonFileSystem,
+};
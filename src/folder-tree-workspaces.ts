@@ -0,0 +1,180 @@
+/**
+ * 文档树插件 - 工作区模块
+ * 负责管理多个命名的文档树：每个工作区有独立的项目、设置和备份，可以只属于当前仓库，也可以在所有仓库中共享
+ */
+
+import { OrcaStorageAdapter, type StorageAdapter } from "./folder-tree-storage";
+import { t } from "./libs/l10n";
+
+type WorkspaceScope = "repo" | "app";
+
+interface WorkspaceInfo {
+  id: string;
+  name: string;
+  scope: WorkspaceScope;
+  repo?: string; // scope 为 repo 时所属的仓库
+  created: string;
+}
+
+interface WorkspaceRegistry {
+  workspaces: WorkspaceInfo[];
+  active: Record<string, string>; // 仓库 -> 该仓库当前使用的工作区ID
+}
+
+// 默认工作区使用没有前缀的键（即加入工作区之前的数据），不能删除
+const DEFAULT_WORKSPACE_ID = "default";
+
+/**
+ * 工作区的显示名称（未命名的默认工作区显示为当前语言的"默认"）
+ */
+function getWorkspaceName(workspace: WorkspaceInfo): string {
+  return workspace.name || t("Default");
+}
+
+/**
+ * 工作区数据在存储中的键前缀
+ */
+function getWorkspaceKeyPrefix(workspaceId: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? "" : `ws:${workspaceId}:`;
+}
+
+class FolderTreeWorkspaces {
+  private readonly REGISTRY_KEY = "workspaces";
+  private registry: WorkspaceRegistry = { workspaces: [], active: {} };
+  private repo: string;
+  private storage: StorageAdapter;
+
+  constructor(repo: string, storage: StorageAdapter = new OrcaStorageAdapter()) {
+    this.repo = repo;
+    this.storage = storage;
+  }
+
+  /**
+   * 读取工作区列表（其他窗口可能已修改，列出前应重新读取）
+   */
+  async load(): Promise<void> {
+    try {
+      const registryStr = await this.storage.get(this.REGISTRY_KEY);
+      const raw = registryStr ? JSON.parse(registryStr) : {};
+      this.registry = {
+        workspaces: Array.isArray(raw.workspaces) ? raw.workspaces : [],
+        active: raw.active && typeof raw.active === "object" ? raw.active : {},
+      };
+    } catch (error) {
+      console.error("[Folder Tree] 读取工作区列表失败:", error);
+      this.registry = { workspaces: [], active: {} };
+    }
+
+    if (!this.registry.workspaces.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID)) {
+      this.registry.workspaces.unshift({
+        id: DEFAULT_WORKSPACE_ID,
+        name: "", // 显示时使用当前语言的"默认"
+        scope: "app",
+        created: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async save(): Promise<void> {
+    await this.storage.set(this.REGISTRY_KEY, JSON.stringify(this.registry));
+  }
+
+  /**
+   * 当前仓库可用的工作区（共享的工作区和属于当前仓库的工作区）
+   */
+  list(): WorkspaceInfo[] {
+    return this.registry.workspaces.filter(workspace => this.isVisible(workspace));
+  }
+
+  get(workspaceId: string): WorkspaceInfo | null {
+    const workspace = this.registry.workspaces.find(w => w.id === workspaceId);
+    return workspace && this.isVisible(workspace) ? workspace : null;
+  }
+
+  private isVisible(workspace: WorkspaceInfo): boolean {
+    return workspace.scope === "app" || workspace.repo === this.repo;
+  }
+
+  /**
+   * 当前仓库使用的工作区，未选择或已不可用时为默认工作区
+   */
+  getActive(): WorkspaceInfo {
+    const activeId = this.registry.active[this.repo];
+    return (activeId && this.get(activeId)) || this.get(DEFAULT_WORKSPACE_ID)!;
+  }
+
+  async setActive(workspaceId: string): Promise<void> {
+    this.registry.active[this.repo] = workspaceId;
+    await this.save();
+  }
+
+  async create(name: string, scope: WorkspaceScope): Promise<WorkspaceInfo> {
+    const workspace: WorkspaceInfo = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+      name,
+      scope,
+      created: new Date().toISOString(),
+    };
+    if (scope === "repo") {
+      workspace.repo = this.repo;
+    }
+    this.registry.workspaces.push(workspace);
+    await this.save();
+    return workspace;
+  }
+
+  async rename(workspaceId: string, name: string): Promise<boolean> {
+    const workspace = this.get(workspaceId);
+    if (!workspace) return false;
+    workspace.name = name;
+    await this.save();
+    return true;
+  }
+
+  /**
+   * 修改工作区的范围：改为仅当前仓库时归属于当前仓库
+   */
+  async setScope(workspaceId: string, scope: WorkspaceScope): Promise<boolean> {
+    const workspace = this.get(workspaceId);
+    if (!workspace || workspace.id === DEFAULT_WORKSPACE_ID) return false;
+    workspace.scope = scope;
+    if (scope === "repo") {
+      workspace.repo = this.repo;
+    } else {
+      delete workspace.repo;
+    }
+    await this.save();
+    return true;
+  }
+
+  /**
+   * 删除工作区及其所有数据（包括备份）
+   */
+  async remove(workspaceId: string): Promise<boolean> {
+    if (workspaceId === DEFAULT_WORKSPACE_ID || !this.get(workspaceId)) return false;
+
+    this.registry.workspaces = this.registry.workspaces.filter(w => w.id !== workspaceId);
+    Object.keys(this.registry.active).forEach(repo => {
+      if (this.registry.active[repo] === workspaceId) {
+        delete this.registry.active[repo];
+      }
+    });
+    await this.save();
+
+    const prefix = getWorkspaceKeyPrefix(workspaceId);
+    const keys: string[] = await this.storage.getKeys();
+    await Promise.all(
+      keys.filter(key => key.startsWith(prefix)).map(key => this.storage.remove(key))
+    );
+    return true;
+  }
+}
+
+export {
+  FolderTreeWorkspaces,
+  DEFAULT_WORKSPACE_ID,
+  getWorkspaceKeyPrefix,
+  getWorkspaceName,
+  type WorkspaceInfo,
+  type WorkspaceScope,
+};
@@ -1,8 +1,10 @@
 import { setupL10N, t } from "./libs/l10n";
 import zhCN from "./translations/zhCN";
 import { FolderTreeCore } from "./folder-tree-core";
+import { getSettingsSchema, shouldNotify, type NotificationType } from "./folder-tree-settings";
+import { FolderTreeTargetPicker } from "./folder-tree-picker";
 // @ts-ignore
-import { injectFolderTreeShell, cleanupFolderTreeShell } from "./folder-tree-container.js";
+import { injectFolderTreeShell, cleanupFolderTreeShell, updateFolderTreeShellLabel, showFolderTree } from "./folder-tree-container.js";
 import "./folder-tree-renderer";
 
 // 导入样式
@@ -11,6 +13,9 @@ import "./styles/folder-tree.css";
 let pluginName: string;
 let core: FolderTreeCore | null = null;
 let renderer: any = null;
+let unsubscribeLocale: (() => void) | null = null;
+let unsubscribeSettings: (() => void) | null = null;
+let unsubscribeActivePanel: (() => void) | null = null;
 
 /**
  * 插件加载
@@ -27,17 +32,21 @@ export async function load(_name: string) {
     // 注入样式 - 使用Orca的CSS注入方法
     orca.themes.injectCSSResource(`${pluginName}/dist/style.css`, pluginName);
 
-    // 初始化核心模块
+    // 注册设置面板
+    await orca.plugins.setSettingsSchema(pluginName, getSettingsSchema());
+
+    // 初始化核心模块（先应用设置）
     core = new FolderTreeCore();
+    core.applySettings(orca.state.plugins[pluginName]?.settings);
     const initialized = await core.initialize();
     if (!initialized) {
-      throw new Error("核心模块初始化失败");
+      throw new Error(t("Failed to initialize the core module"));
     }
 
     // 注入UI容器
     const shell = await injectFolderTreeShell();
     if (!shell) {
-      throw new Error("UI容器注入失败");
+      throw new Error(t("Failed to inject the UI container"));
     }
 
     // 初始化渲染器
@@ -47,12 +56,40 @@ export async function load(_name: string) {
     // 注册块菜单命令
     registerBlockMenuCommands();
 
+    // 注册命令及撤销/重做的默认快捷键
+    registerCommands();
+    await assignDefaultShortcuts();
+
+    // 切换语言时更新界面，修改设置时立即生效，开启"跟随当前块"时自动定位
+    watchLocale();
+    watchSettings();
+    watchActivePanel();
+
+    // 数据损坏时不会保存任何修改，提示用户从备份恢复
+    if (core.hasLoadError()) {
+      notify("error", t("Failed to read the folder tree data. Saving is paused to protect existing data; restore from a backup"), {
+        action: () => renderer?.showBackupDialog(),
+      });
+    } else if (core.checkIntegrity().length > 0) {
+      // 启动检查只在发现问题时提示，修复需要用户确认
+      notify("warn", t("The folder tree data is inconsistent. Click to review and fix"), {
+        action: () => renderer?.checkIntegrity(),
+      });
+    }
+
+    // 后台检查对应块已被删除的项目，结果只用于在树中标记
+    if (!core.hasLoadError()) {
+      core.checkBlockLinks();
+    }
+
     console.log(`${pluginName} 加载成功`);
-    orca.notify("success", "文档树插件加载成功");
+    notify("success", t("Folder tree plugin loaded"));
 
   } catch (error) {
     console.error(`[${pluginName}] 加载失败:`, error);
-    orca.notify("error", `文档树插件加载失败: ${error instanceof Error ? error.message : String(error)}`);
+    orca.notify("error", t("Failed to load the folder tree plugin: ${reason}", {
+      reason: error instanceof Error ? error.message : String(error),
+    }));
   }
 }
 
@@ -64,41 +101,15 @@ function registerBlockMenuCommands() {
   orca.blockMenuCommands.registerBlockMenuCommand("folder-tree-add-block", {
     worksOnMultipleBlocks: false,
     render: (blockId: number, rootBlockId: number, close: () => void) => {
-      const handleAddToFolderTree = async () => {
-        try {
-          if (!core) {
-            orca.notify("error", "文档树插件未初始化");
-            close();
-            return;
-          }
-
-          // 获取所有笔记本
-          const notebooks = core.getRootNotebooks();
-          if (notebooks.length === 0) {
-            orca.notify("error", "请先创建笔记本");
-            close();
-            return;
-          }
-
-          // 添加到第一个笔记本
-          const success = await core.addDocumentToNotebook(blockId.toString(), notebooks[0].id);
-          if (success) {
-            orca.notify("success", "已添加到文档树");
-          } else {
-            orca.notify("error", "添加失败");
-          }
-          close();
-        } catch (error) {
-          console.error("Add to folder tree error:", error);
-          orca.notify("error", "添加到文档树失败");
-          close();
-        }
+      const handleAddToFolderTree = () => {
+        close();
+        addBlocksToFolderTree([blockId.toString()]);
       };
 
       return window.React.createElement('div', {
         onClick: handleAddToFolderTree,
         style: { cursor: "pointer", padding: "8px" }
-      }, window.React.createElement('span', null, '📋'), ' 添加到文档树');
+      }, window.React.createElement('span', null, '📋'), ` ${t("Add to folder tree...")}`);
     },
   });
 
@@ -106,49 +117,248 @@ function registerBlockMenuCommands() {
   orca.blockMenuCommands.registerBlockMenuCommand("folder-tree-add-blocks", {
     worksOnMultipleBlocks: true,
     render: (blockIds: number[], rootBlockId: number, close: () => void) => {
-      const handleAddMultipleToFolderTree = async () => {
-        try {
-          if (!core) {
-            orca.notify("error", "文档树插件未初始化");
-            close();
-            return;
-          }
-
-          const notebooks = core.getRootNotebooks();
-          if (notebooks.length === 0) {
-            orca.notify("error", "请先创建笔记本");
-            close();
-            return;
-          }
-
-          // 批量添加块
-          let successCount = 0;
-          for (const blockId of blockIds) {
-            const success = await core.addDocumentToNotebook(blockId.toString(), notebooks[0].id);
-            if (success) successCount++;
-          }
-
-          if (successCount > 0) {
-            orca.notify("success", `已添加 ${successCount} 个块到文档树`);
-          } else {
-            orca.notify("error", "添加失败");
-          }
-          close();
-        } catch (error) {
-          console.error("Add multiple to folder tree error:", error);
-          orca.notify("error", "批量添加到文档树失败");
-          close();
-        }
+      const handleAddMultipleToFolderTree = () => {
+        close();
+        addBlocksToFolderTree(blockIds.map(blockId => blockId.toString()));
       };
 
       return window.React.createElement('div', {
         onClick: handleAddMultipleToFolderTree,
         style: { cursor: "pointer", padding: "8px" }
-      }, window.React.createElement('span', null, '📋'), ` 添加 ${blockIds.length} 个块到文档树`);
+      }, window.React.createElement('span', null, '📋'), ` ${t("Add ${count} blocks to folder tree...", { count: String(blockIds.length) })}`);
     },
   });
 }
 
+/**
+ * 选择目标笔记本或文件夹，并按顺序把块添加进去（一次保存、一次撤销）
+ */
+async function addBlocksToFolderTree(blockIds: string[]) {
+  try {
+    if (!core) {
+      notify("error", t("The folder tree plugin is not initialized"));
+      return;
+    }
+
+    const targetId = await new FolderTreeTargetPicker(core).pick(
+      blockIds.length > 1
+        ? t("Add ${count} blocks to folder tree", { count: String(blockIds.length) })
+        : t("Add to folder tree")
+    );
+    if (!targetId) return;
+
+    const result = await core.addBlocksToNotebook(blockIds, targetId);
+    if (!result.ok) {
+      notify("error", result.error.message);
+    } else if (result.value === 0) {
+      notify("error", t("Nothing was added: none of the selected blocks exist any more"));
+    } else if (blockIds.length > 1) {
+      notify("success", t("Added ${count} blocks to the folder tree", { count: String(result.value) }));
+    } else {
+      notify("success", t("Added to the folder tree"));
+    }
+  } catch (error) {
+    console.error("Add to folder tree error:", error);
+    notify("error", t("Failed to add to the folder tree"));
+  }
+}
+
+/**
+ * 注册命令（命令名称随语言变化，切换语言时需重新注册）
+ */
+function registerCommands() {
+  orca.commands.registerCommand(
+    "folder-tree.undo",
+    async () => {
+      await renderer?.undo();
+    },
+    t("Folder Tree: Undo")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.redo",
+    async () => {
+      await renderer?.redo();
+    },
+    t("Folder Tree: Redo")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.focus",
+    () => {
+      // 切换到文档树标签页后聚焦当前行，之后可用方向键等操作文档树
+      showFolderTree();
+      renderer?.focusTree();
+    },
+    t("Folder Tree: Focus folder tree")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.filter",
+    () => {
+      showFolderTree();
+      renderer?.focusFilter();
+    },
+    t("Folder Tree: Filter folder tree")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.reveal",
+    async () => {
+      const blockId = getActiveBlockId();
+      if (!blockId) {
+        notify("info", t("The active panel does not show a block"));
+        return;
+      }
+      showFolderTree();
+      // 重复执行时依次定位到同一个块的其他位置
+      await renderer?.revealBlock(blockId, { cycle: true, focus: true });
+    },
+    t("Folder Tree: Reveal active block")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.backups",
+    async () => {
+      await renderer?.showBackupDialog();
+    },
+    t("Folder Tree: Backup and restore")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.check-block-links",
+    async () => {
+      await renderer?.checkBlockLinks();
+    },
+    t("Folder Tree: Check broken links")
+  );
+
+  orca.commands.registerCommand(
+    "folder-tree.check-integrity",
+    async () => {
+      await renderer?.checkIntegrity();
+    },
+    t("Folder Tree: Check data integrity")
+  );
+}
+
+function unregisterCommands() {
+  orca.commands.unregisterCommand("folder-tree.undo");
+  orca.commands.unregisterCommand("folder-tree.redo");
+  orca.commands.unregisterCommand("folder-tree.focus");
+  orca.commands.unregisterCommand("folder-tree.filter");
+  orca.commands.unregisterCommand("folder-tree.reveal");
+  orca.commands.unregisterCommand("folder-tree.backups");
+  orca.commands.unregisterCommand("folder-tree.check-integrity");
+  orca.commands.unregisterCommand("folder-tree.check-block-links");
+}
+
+/**
+ * 监听 orca.state.locale：语言变化时更新翻译、重新注册命令并重新渲染文档树
+ */
+function watchLocale() {
+  let locale = orca.state.locale;
+  unsubscribeLocale = window.Valtio.subscribe(orca.state, () => {
+    if (orca.state.locale === locale) return;
+    locale = orca.state.locale;
+
+    setupL10N(locale, { "zh-CN": zhCN });
+    unregisterCommands();
+    registerCommands();
+    orca.plugins.setSettingsSchema(pluginName, getSettingsSchema()).catch(error => {
+      console.error("[Folder Tree] 更新设置面板失败:", error);
+    });
+    updateFolderTreeShellLabel();
+    renderer?.render();
+  });
+}
+
+/**
+ * 监听插件设置：在 Orca 设置面板中修改后立即应用到核心模块（渲染器通过设置监听器重新渲染）
+ */
+function watchSettings() {
+  unsubscribeSettings = window.Valtio.subscribe(orca.state.plugins, () => {
+    core?.applySettings(orca.state.plugins[pluginName]?.settings);
+  });
+}
+
+/**
+ * 监听当前面板：开启"跟随当前块"时，面板显示的块变化后在文档树中定位
+ */
+function watchActivePanel() {
+  let lastBlockId: string | null = null;
+  let watchedPanels: unknown = null;
+  let unsubscribePanels: (() => void) | null = null;
+
+  const revealActiveBlock = () => {
+    if (!core?.getSettings().followActiveBlock) {
+      lastBlockId = null;
+      return;
+    }
+    const blockId = getActiveBlockId();
+    if (!blockId || blockId === lastBlockId) return;
+    lastBlockId = blockId;
+    renderer?.revealBlock(blockId, { silent: true });
+  };
+
+  // 面板内导航只修改 panels 内部，单独订阅；切换布局时 panels 会被整体替换，需要重新订阅
+  const watchPanels = () => {
+    if (watchedPanels === orca.state.panels) return;
+    unsubscribePanels?.();
+    watchedPanels = orca.state.panels;
+    unsubscribePanels = window.Valtio.subscribe(orca.state.panels, revealActiveBlock);
+  };
+  watchPanels();
+
+  // activePanel 是字符串无法单独订阅，只处理 activePanel 和 panels 本身被赋值的变化（同 valtio/utils 的 subscribeKey）
+  const unsubscribeKeys = window.Valtio.subscribe(orca.state, (ops: any[]) => {
+    const changed = ops.some(op => op[1].length === 1 && (op[1][0] === "activePanel" || op[1][0] === "panels"));
+    if (!changed) return;
+    watchPanels();
+    revealActiveBlock();
+  });
+
+  unsubscribeActivePanel = () => {
+    unsubscribeKeys();
+    unsubscribePanels?.();
+  };
+}
+
+/**
+ * 当前面板显示的块ID（日志等不显示块的面板返回 null）
+ */
+function getActiveBlockId(): string | null {
+  const panel = orca.nav.findViewPanel(orca.state.activePanel, orca.state.panels);
+  if (!panel || panel.view !== "block" || panel.viewArgs?.blockId == null) return null;
+  return String(panel.viewArgs.blockId);
+}
+
+/**
+ * 按设置的提示级别显示提示
+ */
+function notify(type: NotificationType, message: string, options?: { action?: () => void | Promise<void> }) {
+  if (shouldNotify(core?.getSettings().notificationLevel ?? "all", type)) {
+    orca.notify(type, message, options);
+  }
+}
+
+/**
+ * 设置撤销/重做的默认快捷键
+ */
+async function assignDefaultShortcuts() {
+  // 仅在用户尚未绑定快捷键时设置默认快捷键
+  const defaultShortcuts: Record<string, string> = {
+    "folder-tree.undo": "ctrl+alt+z",
+    "folder-tree.redo": "ctrl+alt+shift+z",
+  };
+  const boundCommands = new Set(Object.values(orca.state.shortcuts));
+  for (const [command, shortcut] of Object.entries(defaultShortcuts)) {
+    if (!boundCommands.has(command) && !orca.state.shortcuts[shortcut]) {
+      await orca.shortcuts.assign(shortcut, command);
+    }
+  }
+}
+
 /**
  * 插件卸载
  */
@@ -164,19 +374,34 @@ export async function unload() {
       console.log('清理块菜单命令时出错:', error);
     }
 
+    // 停止监听语言、设置和当前面板的变化
+    unsubscribeLocale?.();
+    unsubscribeLocale = null;
+    unsubscribeSettings?.();
+    unsubscribeSettings = null;
+    unsubscribeActivePanel?.();
+    unsubscribeActivePanel = null;
+
+    // 清理命令
+    unregisterCommands();
+
     // 清理渲染器
     renderer = null;
 
     // 清理UI容器
     cleanupFolderTreeShell();
 
-    // 清理核心模块
+    // 清理核心模块（先等待排队的操作和未完成的保存）
+    if (core) {
+      await core.idle();
+      core.dispose();
+    }
     core = null;
 
     // Orca会自动管理样式清理，无需手动移除
 
     console.log(`${pluginName} 卸载成功`);
-    orca.notify("info", "文档树插件已卸载");
+    orca.notify("info", t("Folder tree plugin unloaded"));
 
   } catch (error) {
     console.error(`[${pluginName}] 卸载失败:`, error);
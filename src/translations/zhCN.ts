@@ -1,25 +1,364 @@
 const zhCN = {
-  "your plugin code starts here": "您的插件代码从此开始",
-  "folder tree": "文档树",
-  "notebook created successfully": "笔记本创建成功",
-  "notebook creation failed": "笔记本创建失败",
-  "document imported successfully": "文档导入成功",
-  "document import failed": "文档导入失败",
-      "plugin loaded successfully": "插件加载成功",
-  "plugin unloaded": "插件已卸载",
-  "failed to get block information": "无法获取块信息",
-  "unnamed document": "未命名文档",
-  "create notebook": "创建笔记本",
-      "document tree manager": "文档树管理器",
-  "no notebooks": "暂无笔记本",
-  "drag blocks here or click the + button above to create": "拖拽块到此处或点击上方 + 按钮创建",
-  "rename": "重命名",
-  "delete": "删除",
-  "confirm delete notebook": "确定要删除笔记本 \"{name}\" 吗？此操作将删除该笔记本下的所有文档。",
-  "confirm delete document": "确定要删除{type} \"{name}\" 吗？",
-  "document": "文档",
-  "folder": "文件夹",
-    "notebook name": "笔记本名称",
+  // 插件与命令
+  "Folder Tree": "文档树",
+  "Folder tree plugin loaded": "文档树插件加载成功",
+  "Folder tree plugin unloaded": "文档树插件已卸载",
+  "Failed to load the folder tree plugin: ${reason}": "文档树插件加载失败：${reason}",
+  "The folder tree plugin is not initialized": "文档树插件未初始化",
+  "Failed to initialize the core module": "核心模块初始化失败",
+  "Failed to inject the UI container": "UI 容器注入失败",
+  "Failed to read the folder tree data. Saving is paused to protect existing data; restore from a backup": "读取文档树数据失败，已暂停保存以保护现有数据，请从备份恢复",
+  "The folder tree data is inconsistent. Click to review and fix": "文档树数据存在不一致，点击查看并修复",
+  "Folder Tree: Undo": "文档树：撤销",
+  "Folder Tree: Redo": "文档树：重做",
+  "Folder Tree: Focus folder tree": "文档树：聚焦文档树",
+  "Folder Tree: Filter folder tree": "文档树：过滤文档树",
+  "Folder Tree: Reveal active block": "文档树：定位当前块",
+  "The active panel does not show a block": "当前面板没有显示块",
+  "Folder Tree: Backup and restore": "文档树：备份与恢复",
+  "Folder Tree: Check broken links": "文档树：检查失效链接",
+  "Folder Tree: Check data integrity": "文档树：检查数据完整性",
+
+  // 设置
+  "Notifications": "提示",
+  "Which notifications the folder tree shows": "文档树显示哪些提示",
+  "All": "全部",
+  "Warnings and errors": "警告和错误",
+  "Errors only": "仅错误",
+  "Default notebook": "默认笔记本",
+  "Name of the notebook that is preselected when adding blocks from the block menu, and that blocks dropped on the empty area of the folder tree are added to. Leave empty to use the first notebook": "从块菜单添加块时默认选中、把块拖到文档树空白处时添加到的笔记本名称，留空时使用第一个笔记本",
+  "Name length": "名称长度",
+  "Maximum number of characters taken from a block's text when it is used as a name": "用块文本作为名称时最多保留的字符数",
+  "Query page size": "查询数量上限",
+  "Maximum number of results read when syncing a query block": "同步查询块时最多读取的结果数量",
+  "Show child counts": "显示子项数量",
+  "Show the number of child items after the names of top-level items and trash entries": "在根级项目和回收站条目的名称后显示子项数量",
+  "Open in new panel": "在新面板中打开",
+  "Open blocks in another panel instead of the current one when an item is clicked": "点击项目时在其他面板而不是当前面板中打开块",
+  "Follow the active block": "跟随当前块",
+  "Select the item of the block shown in the active panel whenever it changes, expanding its parents": "当前面板显示的块变化时，在文档树中展开其父级并选中对应的项目",
+
+  // 块菜单
+  "Add to folder tree": "添加到文档树",
+  "Add ${count} blocks to folder tree": "添加 ${count} 个块到文档树",
+  "Added to the folder tree": "已添加到文档树",
+  "Failed to add to the folder tree": "添加到文档树失败",
+  "Added ${count} blocks to the folder tree": "已添加 ${count} 个块到文档树",
+  "Nothing was added: none of the selected blocks exist any more": "没有添加任何块：选中的块都已不存在",
+  "Add to folder tree...": "添加到文档树...",
+  "Add ${count} blocks to folder tree...": "添加 ${count} 个块到文档树...",
+  "Search notebooks and folders": "搜索笔记本和文件夹",
+  "Recent": "最近使用",
+  "No matching notebooks or folders": "没有匹配的笔记本或文件夹",
+  "New folder in \"${name}\"": "在\"${name}\"中新建文件夹",
+
+  // 操作名称（撤销历史、错误记录）
+  "Save": "保存",
+  "Switch workspace": "切换工作区",
+  "Create workspace": "创建工作区",
+  "Rename workspace": "重命名工作区",
+  "Change workspace scope": "修改工作区范围",
+  "Delete workspace": "删除工作区",
+  "Fix data integrity": "修复数据完整性",
+  "Check broken links": "检查失效链接",
+  "Relink": "重新链接",
+  "Relink \"${name}\"": "重新链接\"${name}\"",
+  "Create backup": "创建备份",
+  "Delete backup": "删除备份",
+  "Restore from backup": "从备份恢复",
+  "Set backup count": "设置备份数量",
+  "Create item": "创建项目",
+  "Create \"${name}\"": "创建\"${name}\"",
+  "Delete item": "删除项目",
+  "Delete \"${name}\"": "删除\"${name}\"",
+  "Delete ${count} items": "删除 ${count} 个项目",
+  "Restore from trash": "从回收站恢复",
+  "Restore \"${name}\"": "恢复\"${name}\"",
+  "Delete permanently": "彻底删除",
+  "Permanently delete \"${name}\"": "彻底删除\"${name}\"",
+  "Empty trash": "清空回收站",
+  "Set trash retention": "设置回收站保留天数",
+  "Rename": "重命名",
+  "Rename \"${name}\"": "重命名\"${name}\"",
+  "Update item": "更新项目",
+  "Edit \"${name}\"": "编辑\"${name}\"",
+  "Move item": "移动项目",
+  "Move \"${name}\"": "移动\"${name}\"",
+  "Move ${count} items": "移动 ${count} 个项目",
+  "Sort": "排序",
+  "Convert to folder": "转换为文件夹",
+  "Convert \"${name}\" to a folder": "把\"${name}\"转换为文件夹",
+  "Change icon": "修改图标",
+  "Change the icon of \"${name}\"": "修改\"${name}\"的图标",
+  "Change the icon of ${count} items": "修改 ${count} 个项目的图标",
+  "Change color": "修改颜色",
+  "Change the color of ${count} items": "修改 ${count} 个项目的颜色",
+  "Close notebook": "关闭笔记本",
+  "Close \"${name}\"": "关闭\"${name}\"",
+  "Close ${count} notebooks": "关闭 ${count} 个笔记本",
+  "Restore notebook": "恢复笔记本",
+  "Sort naturally": "自然排序",
+  "Add ${count} blocks": "添加 ${count} 个块",
+  "Import": "导入",
+  "Remove broken link": "移除失效链接",
+
+  // 项目名称
+  "Untitled document": "未命名文档",
+  "Block ${id}": "块 ${id}",
+  "Document ${id}": "文档 ${id}",
+  "Query results": "查询结果",
+
+  // 备份与迁移
+  "Automatic backup": "自动备份",
+  "Manual backup": "手动备份",
+  "Backup before restore": "恢复前备份",
+  "Backup before migration (v${from} → v${to})": "迁移前备份（v${from} → v${to}）",
+  "Data version ${version} is newer than the version ${supported} supported by the plugin. Please update the plugin": "数据版本 ${version} 高于插件支持的版本 ${supported}，请更新插件",
+  "The migrated data has an invalid format": "迁移后的数据格式无效",
+  "Convert notebooks/documents into a single item list": "把笔记本/文档转换为统一的项目列表",
+  "Add the trash": "添加回收站",
+  "The data has not been initialized": "数据尚未初始化",
+  "Backup and restore": "备份与恢复",
+  "Back up now": "立即备份",
+  "Backup created": "已创建备份",
+  "Keep ${count}": "保留 ${count} 个",
+  "Backups to keep": "备份数量",
+  "Number of backups to keep:": "保留的备份数量:",
+  "Migration log": "迁移记录",
+  "No migration records": "暂无数据迁移记录",
+  "${count} items": "${count} 个项目",
+  "Backup failed": "未能备份",
+  "No backups yet": "暂无备份",
+  "Compare": "对比",
+  "Restore": "恢复",
+  "Restore the backup from ${time}? The current data is backed up automatically first.": "确定要恢复到 ${time} 的备份吗？当前数据会先自动备份。",
+  "Restored from the backup": "已从备份恢复",
+  "Delete this backup?": "确定要删除该备份吗？",
+  "Cannot read this backup": "无法读取该备份",
+  "This backup is identical to the current data": "该备份与当前数据相同",
+  ", ": "、",
+  "${names} and more": "${names} 等",
+  "Reappear after restoring (${count}):": "恢复后将重新出现 (${count})：",
+  "Disappear after restoring (${count}):": "恢复后将消失 (${count})：",
+  "Change after restoring (${count}):": "恢复后将改变 (${count})：",
+
+  // 工作区
+  "Default": "默认",
+  "Workspace: ${name}": "工作区：${name}",
+  "Workspace: ${name} (current repository only)": "工作区：${name}（仅当前仓库）",
+  "${name} (current repository only)": "${name}（仅当前仓库）",
+  "New workspace...": "新建工作区...",
+  "Rename current workspace...": "重命名当前工作区...",
+  "Share with all repositories": "在所有仓库中共享",
+  "Limit to current repository": "仅在当前仓库中显示",
+  "Delete current workspace": "删除当前工作区",
+  "New workspace": "新建工作区",
+  "Workspace name:": "工作区名称:",
+  "Workspace scope": "工作区范围",
+  "Should \"${name}\" only appear in the current repository, or be shared by all repositories?": "\"${name}\" 只在当前仓库中显示，还是在所有仓库中共享？",
+  "Current repository only": "仅当前仓库",
+  "Shared by all repositories": "所有仓库共享",
+  "Created and switched to workspace \"${name}\"": "已创建并切换到工作区\"${name}\"",
+  "New name:": "新名称:",
+  "\"${name}\" now only appears in the current repository": "\"${name}\" 现在只在当前仓库中显示",
+  "\"${name}\" is now shared by all repositories": "\"${name}\" 现在在所有仓库中共享",
+  "Delete workspace \"${name}\"? All of its items and backups will be deleted. This cannot be undone.": "确定要删除工作区\"${name}\"吗？其中的所有项目和备份都会被删除，且无法撤销。",
+  "Deleted workspace \"${name}\"": "已删除工作区\"${name}\"",
+
+  // 文档树界面
+  "Error log (${count})": "错误记录（${count}）",
+  "Filter": "过滤",
+  "Clear filter": "清除过滤",
+  "No matching items": "没有匹配的项目",
+  "Exit focus": "退出聚焦",
+  "Collapse others": "折叠其他",
+  "Collapse all": "全部折叠",
+  "Expand all": "全部展开",
+  "Create notebook": "创建笔记本",
+  "The item does not exist": "项目不存在",
+  "Select an item first": "请先选择一个项目",
+  "The selected item does not exist": "选中的项目不存在",
+  "No notebooks yet": "暂无笔记本",
+  "Drag blocks here or click the + button to create one": "拖拽块到此处或点击 + 按钮创建",
+  "Closed notebooks": "已关闭的笔记本",
+  "Trash": "回收站",
+  "Deleted at ${time}": "删除于 ${time}",
+  "Retention (${days} days)": "保留天数（${days} 天）",
+  "Restored from the trash": "已从回收站恢复",
+  "Permanently delete \"${name}\"?": "确定要彻底删除\"${name}\"吗？",
+  "Permanently deleted": "已彻底删除",
+  "Empty the trash?": "确定要清空回收站吗？",
+  "Trash emptied": "已清空回收站",
+  "Trash retention": "回收站保留天数",
+  "Items older than this many days are deleted permanently:": "超过此天数的项目会被彻底删除:",
+  "Trash retention set to ${days} days": "回收站保留天数已设置为 ${days} 天",
+  "Notebook closed": "笔记本已关闭",
+  "Notebook restored": "笔记本已恢复",
+  "No errors recorded": "暂无错误记录",
+  "Error log": "错误记录",
+  "${count} errors in this session (newest first):": "本次运行中共有 ${count} 条错误（最新的在前）：",
+  "${time} ${operation}: ${message}": "${time} ${operation}：${message}",
+  "Clear log": "清空记录",
+  "Undone: ${label}": "已撤销：${label}",
+  "This operation has already been undone or was followed by other changes": "该操作已被撤销或之后已有其他修改",
+  "Nothing to undo": "没有可撤销的操作",
+  "Redone: ${label}": "已重做：${label}",
+  "Nothing to redo": "没有可重做的操作",
+  "Sorted": "已排序",
+  "The block has been deleted": "对应的块已被删除",
+  "Moved to the top level": "已移动到根级",
+  "Moved": "已移动",
+  "Rename notebook": "重命名笔记本",
+  "New notebook name:": "请输入新的笔记本名称:",
+  "Rename folder": "重命名文件夹",
+  "New folder name:": "请输入新的文件夹名称:",
+  "Rename document": "重命名文档",
+  "New document name:": "请输入新的文档名称:",
+  "Renamed": "重命名成功",
+  "Notebook name:": "笔记本名称:",
+  "Notebook created": "笔记本创建成功",
+  "Create a notebook first": "请先创建笔记本",
+  "New folder": "新建文件夹",
+  "Create a folder in \"${name}\":": "在\"${name}\"中创建文件夹:",
+  "Folder name:": "文件夹名称:",
+  "Folder created": "文件夹创建成功",
+  "Notebook renamed": "笔记本重命名成功",
+  "Delete notebook \"${name}\"? The notebook and all of its documents will be moved to the trash.": "确定要删除笔记本\"${name}\"吗？该笔记本及其下的所有文档将移到回收站。",
+  "Notebook moved to the trash": "笔记本已移到回收站",
+  "Moved to the trash": "已移到回收站",
+  "Items reordered": "项目排序成功",
+  "Documents reordered": "文档排序成功",
+  "Cancel": "取消",
+  "OK": "确定",
+  "Close": "关闭",
+  "Delete": "删除",
+  "Focus": "聚焦",
+  "Focus and collapse others": "聚焦并折叠其他",
+  "Show included in": "显示被包含于",
+  "This block is not included in any other block": "该块没有被其他块包含",
+  "Failed to get the including blocks": "获取包含块失败",
+  "Failed to show the including blocks": "显示包含块失败",
+  "Included in": "被包含于",
+  "This block is not in the folder tree": "该块不在文档树中",
+  "Location ${index} of ${count}. Reveal again to go to the next one": "第 ${index} 个位置（共 ${count} 个），再次定位可跳到下一个位置",
+
+  // 多选与批量操作
+  "Move ${count} items to...": "移动 ${count} 个项目到...",
+  "Move ${count} items to": "移动 ${count} 个项目到",
+  "Moved ${count} items": "已移动 ${count} 个项目",
+  "Delete ${count} items? Selected notebooks and all of their documents will be moved to the trash.": "确定要删除 ${count} 个项目吗？选中的笔记本及其下的所有文档将移到回收站。",
+  "Delete ${count} items? They will be moved to the trash.": "确定要删除 ${count} 个项目吗？它们将移到回收站。",
+  "Moved ${count} items to the trash": "已将 ${count} 个项目移到回收站",
+  "Closed ${count} notebooks": "已关闭 ${count} 个笔记本",
+  "Change icon...": "修改图标...",
+  "Change color...": "修改颜色...",
+  "Tabler icon class (such as \"ti ti-star\") or emoji. Leave empty to reset:": "Tabler 图标类名（如\"ti ti-star\"）或 emoji，留空恢复默认：",
+  "CSS color (such as \"#e03131\"). Leave empty to reset:": "CSS 颜色（如\"#e03131\"），留空恢复默认：",
+  "Copy as block reference": "复制为块引用",
+  "Copy as block references": "复制为块引用",
+  "The selected items have no blocks": "选中的项目没有对应的块",
+  "Copied ${count} block references": "已复制 ${count} 个块引用",
+  "Failed to copy to the clipboard": "复制到剪贴板失败",
+  "Clear selection": "取消选择",
+
+  // 拖放与添加块
+  "Unrecognized dragged item": "无法识别拖拽的内容",
+  "Drag the block by its handle (the icon on the left) into the folder tree": "请拖拽块的手柄（左侧图标）到文档树",
+  "Failed to handle the drop": "处理拖放失败",
+  "Failed to get the block": "无法获取块",
+  "Document added": "文档添加成功",
+  "Failed to add the document": "文档添加失败",
+  "Cannot get block information (ID: ${id})": "无法获取块信息 (ID: ${id})",
+  "Failed to import the document: ${reason}": "文档导入失败: ${reason}",
+  "Cannot get query block information (ID: ${id})": "无法获取查询块信息 (ID: ${id})",
+  "Query block added": "查询块添加成功",
+  "Failed to process the query block: ${reason}": "查询块处理失败: ${reason}",
+  "Sync query results": "同步查询结果",
+  "Query failed: ${reason}": "查询执行失败: ${reason}",
+  "Failed to update the query results: ${reason}": "更新查询结果失败: ${reason}",
+
+  // 导入导出
+  "Export as JSON": "导出为 JSON",
+  "Export as OPML": "导出为 OPML",
+  "Export as Markdown": "导出为 Markdown",
+  "Export failed: the item does not exist": "导出失败：项目不存在",
+  "Exported ${filename}": "已导出 ${filename}",
+  "Export failed": "导出失败",
+  "Import...": "导入...",
+  "Import here...": "导入到此处...",
+  "Not a JSON file exported from the folder tree": "不是文档树导出的 JSON 文件",
+  "The import file version ${version} is newer than the supported version ${supported}": "导入文件的版本 ${version} 高于支持的版本 ${supported}",
+  "Malformed OPML file": "OPML 文件格式错误",
+  "The OPML file has no body": "OPML 文件缺少 body",
+  "Cannot parse ${filename}: ${reason}": "无法解析 ${filename}：${reason}",
+  "${filename} has no entries to import": "${filename} 中没有可导入的条目",
+  "Notebooks already exist": "笔记本已存在",
+  "The following notebooks already exist. Merging keeps their content and adds missing items; replacing moves the existing notebooks to the trash:": "以下笔记本已存在。合并会保留已有内容并添加缺少的项目；替换会把已有的笔记本移到回收站：",
+  "Merge": "合并",
+  "Replace": "替换",
+  "Imported ${created} items": "已导入 ${created} 个项目",
+  "Imported ${created} items, skipped ${skipped} existing items": "已导入 ${created} 个项目，跳过 ${skipped} 个已存在的项目",
+  "Import finished": "导入完成",
+  "${message}. The following ${count} entries were not imported as written:": "${message}。以下 ${count} 个条目未能按原样导入：",
+  "Could not create \"${name}\", its children were skipped: ${reason}": "无法创建“${name}”，其子项也已跳过：${reason}",
+  "No block found for \"${name}\", skipped or imported as a folder": "未找到“${name}”对应的块，已跳过或作为文件夹导入",
+  "Import failed": "导入失败",
+
+  // 失效链接
+  "No broken links found": "没有发现失效链接",
+  "Broken links": "失效链接",
+  "The blocks of the following ${count} items have been deleted. Move them all to the trash, or try relinking them by name (alias); single items can also be handled from their context menu:": "以下 ${count} 个项目对应的块已被删除。可以全部移到回收站，或尝试按名称（别名）重新链接；也可以在单个项目的右键菜单中处理：",
+  "Relink by name": "按名称重新链接",
+  "Relink ${count} items": "重新链接 ${count} 个项目",
+  "Remove all": "全部移除",
+  "Relinked ${relinked} items": "已重新链接 ${relinked} 个项目",
+  "Relinked ${relinked} items, no matching alias found for ${missing}": "已重新链接 ${relinked} 个项目，${missing} 个未找到同名别名",
+  "Enter a block ID, ((block ID)) or alias:": "输入块ID、((块ID)) 或别名:",
+  "Block not found: ${text}": "找不到块：${text}",
+  "Relinked \"${name}\"": "已重新链接\"${name}\"",
+  "Moved ${count} broken links to the trash": "已将 ${count} 个失效链接移到回收站",
+  "The block for \"${name}\" has been deleted. Click to relink": "\"${name}\" 对应的块已被删除，点击重新链接",
+  "Relink to another block...": "重新链接到其他块...",
+
+  // 数据完整性
+  "The folder tree data is consistent, no problems found": "文档树数据一致，没有发现问题",
+  "Data integrity check": "数据完整性检查",
+  "Check data integrity": "检查数据完整性",
+  "Found ${count} problems. Fixing moves items with a missing parent or a cycle to the top level, rebuilds child lists and sort order, and removes invalid references from the settings:": "发现 ${count} 个问题。修复会把找不到父级或形成循环的项目移到根级、重建子项列表和排序、清理无效的设置引用：",
+  "Fix": "修复",
+  "Fixed ${count} problems": "已修复 ${count} 个问题",
+  "${item}'s parent ${parent} does not exist": "${item} 的父级 ${parent} 不存在",
+  "${item}'s parent chain forms a cycle": "${item} 的父级链形成循环",
+  "${item}'s child list is inconsistent (${missing} missing, ${extra} extra)": "${item} 的子项列表不一致（缺少 ${missing} 个，多出 ${extra} 个）",
+  "${item}'s child list is inconsistent (${missing} missing, ${extra} extra, with duplicates)": "${item} 的子项列表不一致（缺少 ${missing} 个，多出 ${extra} 个，有重复）",
+  "Items under ${parent} have duplicate or invalid sort values": "${parent} 下的项目排序值重复或无效",
+  "the top level": "根级",
+  "The settings reference a missing or invalid item ${id}": "设置中引用了不存在或无效的项目 ${id}",
+
+  // 错误提示
+  "The folder tree data has not been loaded yet": "文档树数据尚未加载",
+  "${target} does not exist": "${target}不存在",
+  "Invalid input: ${reason}": "输入无效：${reason}",
+  "Cannot move \"${name}\": ${reason}": "无法移动\"${name}\"：${reason}",
+  "Cannot move \"${name}\" into itself or one of its subfolders": "不能把\"${name}\"移动到自身或其子项中",
+  "Saving is paused because the folder tree data failed to load. Restore a backup first": "文档树数据加载失败，已暂停保存。请先从备份恢复",
+  "Failed to save the folder tree: ${reason}": "文档树保存失败：${reason}",
+  "Block ${blockId} does not exist": "块 ${blockId} 不存在",
+  "Orca request failed: ${reason}": "Orca 请求失败：${reason}",
+  "Item ${id}": "项目 ${id}",
+  "Workspace ${id}": "工作区 ${id}",
+  "Backup ${id}": "备份 ${id}",
+  "Trash entry ${id}": "回收站记录 ${id}",
+  "the name cannot be empty": "名称不能为空",
+  "the number of days must be at least 1": "天数必须大于 0",
+  "the count must be at least 1": "数量必须大于 0",
+  "the default workspace is always shared": "默认工作区始终在所有仓库中共享",
+  "the default workspace cannot be deleted": "默认工作区不能删除",
+  "the backup could not be written": "备份无法写入",
+  "only notebooks can be closed": "只有笔记本可以关闭",
+  "notebooks can only be at the top level": "笔记本只能在根级",
+  "\"${name}\" cannot contain items": "\"${name}\"不能包含子项",
+  "it is not in the folder being sorted": "它不在正在排序的文件夹中",
 };
 
 export default zhCN;
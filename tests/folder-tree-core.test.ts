@@ -0,0 +1,244 @@
+/**
+ * 文档树核心模块测试：使用内存和 JSON 文件存储，在 Node 中直接运行（npm test）
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FolderTreeCore } from "../src/folder-tree-core";
+import { MemoryStorageAdapter, JsonFileStorageAdapter, type JsonFileSystem } from "../src/folder-tree-storage";
+
+async function createCore(storage: MemoryStorageAdapter = new MemoryStorageAdapter()): Promise<FolderTreeCore> {
+  const core = new FolderTreeCore({ storage, repo: "test" });
+  assert.equal(await core.initialize(), true);
+  return core;
+}
+
+async function createItem(
+  core: FolderTreeCore,
+  name: string,
+  type: "notebook" | "folder" | "document",
+  parentId: string | null = null
+) {
+  const result = await core.createItem(name, type, type === "document" ? "1" : null, parentId);
+  assert.ok(result.ok, "创建项目失败");
+  return result.value;
+}
+
+describe("移动校验", () => {
+  it("不能移动到自身或自己的子项中", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const parent = await createItem(core, "父文件夹", "folder", notebook.id);
+    const child = await createItem(core, "子文件夹", "folder", parent.id);
+
+    const result = await core.moveItem(parent.id, child.id);
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.error.code, "cycle");
+    assert.equal(core.getItemById(parent.id)?.parentId, notebook.id);
+  });
+
+  it("笔记本不能移动到其他项目中", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const other = await createItem(core, "另一个笔记本", "notebook");
+    const folder = await createItem(core, "文件夹", "folder", other.id);
+
+    const result = await core.moveItem(notebook.id, folder.id);
+    assert.equal(!result.ok && result.error.code, "invalid-move");
+    assert.equal(core.getItemById(notebook.id)?.parentId, null);
+  });
+
+  it("移动到文件夹中并插入到指定位置", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const first = await createItem(core, "文档一", "document", notebook.id);
+    const second = await createItem(core, "文档二", "document", notebook.id);
+
+    assert.ok((await core.moveItem(second.id, notebook.id, 0)).ok);
+    assert.deepEqual(core.getItemChildren(notebook.id).map(item => item.id), [second.id, first.id]);
+  });
+
+  it("移动前的校验与移动的规则相同且不修改数据", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const folder = await createItem(core, "文件夹", "folder", notebook.id);
+    const doc = await createItem(core, "文档", "document", notebook.id);
+
+    assert.ok(core.checkMove(doc.id, folder.id).ok);
+    assert.equal(core.getItemById(doc.id)?.parentId, notebook.id);
+    const other = await createItem(core, "另一个笔记本", "notebook");
+    const checked = core.checkMove(other.id, folder.id);
+    assert.equal(!checked.ok && checked.error.code, "invalid-move");
+    const cycle = core.checkMove(notebook.id, folder.id);
+    assert.equal(!cycle.ok && cycle.error.code, "cycle");
+  });
+
+  it("只对打开的根级项目排序时，已关闭的笔记本保持原位且排序号不重复", async () => {
+    const core = await createCore();
+    const first = await createItem(core, "笔记本一", "notebook");
+    const closed = await createItem(core, "笔记本二", "notebook");
+    const third = await createItem(core, "笔记本三", "notebook");
+    assert.ok((await core.closeNotebook(closed.id)).ok);
+
+    assert.ok((await core.reorderItems(null, [third.id, first.id])).ok);
+    assert.deepEqual(core.getRootItems().map(item => item.id), [third.id, first.id]);
+    assert.deepEqual(core.getItemChildren(null).map(item => item.id), [third.id, closed.id, first.id]);
+    assert.deepEqual(core.checkIntegrity(), []);
+  });
+});
+
+describe("回收站和撤销", () => {
+  it("删除的项目及其子项进入回收站，撤销后恢复", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const folder = await createItem(core, "文件夹", "folder", notebook.id);
+    const doc = await createItem(core, "文档", "document", folder.id);
+
+    assert.ok((await core.deleteItem(folder.id)).ok);
+    assert.equal(core.getItemById(doc.id), null);
+    assert.equal(core.getTrashEntries().length, 1);
+
+    await core.undo();
+    assert.equal(core.getItemById(doc.id)?.parentId, folder.id);
+    assert.deepEqual(core.getItemChildren(notebook.id).map(item => item.id), [folder.id]);
+    assert.equal(core.getTrashEntries().length, 0);
+
+    await core.redo();
+    assert.equal(core.getItemById(folder.id), null);
+  });
+
+  it("指定记录编号时只撤销仍在最上面的那次操作", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    await core.renameItem(notebook.id, "第一次");
+    const entryId = core.getUndoEntryId()!;
+    await core.renameItem(notebook.id, "第二次");
+
+    assert.equal(await core.undo(entryId), null);
+    assert.equal(core.getItemById(notebook.id)?.name, "第二次");
+    await core.undo();
+    assert.ok(await core.undo(entryId));
+    assert.equal(core.getItemById(notebook.id)?.name, "笔记本");
+  });
+
+  it("从回收站恢复到原来的位置", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const first = await createItem(core, "文档一", "document", notebook.id);
+    const second = await createItem(core, "文档二", "document", notebook.id);
+
+    await core.deleteItem(first.id);
+    const entry = core.getTrashEntries()[0];
+    assert.ok((await core.restoreFromTrash(entry.id)).ok);
+    assert.deepEqual(core.getItemChildren(notebook.id).map(item => item.id), [first.id, second.id]);
+  });
+
+  it("原父级不能容纳项目时恢复到最近的可用祖先", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const folder = await createItem(core, "文件夹", "folder", notebook.id);
+    const subfolder = await createItem(core, "子文件夹", "folder", folder.id);
+    const doc = await createItem(core, "文档", "document", subfolder.id);
+
+    await core.deleteItem(doc.id);
+    await core.deleteItem(subfolder.id);
+    const entry = core.getTrashEntries().find(trashEntry => trashEntry.id === doc.id)!;
+    assert.ok((await core.restoreFromTrash(entry.id)).ok);
+    assert.equal(core.getItemById(doc.id)?.parentId, folder.id);
+  });
+});
+
+describe("迁移和重新加载", () => {
+  it("旧版 notebooks/documents 数据迁移为按项目存储", async () => {
+    const storage = new MemoryStorageAdapter({
+      data: JSON.stringify({
+        notebooks: [{ id: "notebook_1", name: "旧笔记本", order: 0, documents: ["document_1"], created: "", modified: "" }],
+        documents: [{ id: "document_1", name: "旧文档", blockId: "42", parentId: "notebook_1", order: 0, created: "", modified: "" }],
+        settings: { expandedNotebooks: ["notebook_1"] },
+      }),
+    });
+    const core = await createCore(storage);
+
+    assert.equal(core.getItemById("document_1")?.parentId, "notebook_1");
+    assert.deepEqual(core.getExpandedItems(), ["notebook_1"]);
+    const keys = await storage.getKeys();
+    assert.ok(keys.includes("item:notebook_1"));
+    assert.ok(!keys.includes("data"));
+  });
+
+  it("保存后重新加载得到相同的数据", async () => {
+    const storage = new MemoryStorageAdapter();
+    const core = await createCore(storage);
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const doc = await createItem(core, "文档", "document", notebook.id);
+    await core.deleteItem(doc.id);
+    await core.idle();
+
+    const reloaded = await createCore(storage);
+    assert.equal(reloaded.getItemById(notebook.id)?.name, "笔记本");
+    assert.equal(reloaded.getItemById(doc.id), null);
+    assert.equal(reloaded.getTrashEntries().length, 1);
+  });
+});
+
+describe("JSON 文件存储", () => {
+  it("同时发起的首次访问共用同一次读取", async () => {
+    const files = new Map<string, string>();
+    let reads = 0;
+    const fs: JsonFileSystem = {
+      async readFile(path) {
+        reads++;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const content = files.get(path);
+        if (content === undefined) throw Object.assign(new Error("not found"), { code: "ENOENT" });
+        return content;
+      },
+      async writeFile(path, data) {
+        files.set(path, data);
+      },
+    };
+
+    const storage = new JsonFileStorageAdapter("tree.json", fs);
+    await Promise.all([storage.set("a", "1"), storage.set("b", "2"), storage.get("a")]);
+    assert.equal(reads, 1);
+    assert.deepEqual(JSON.parse(files.get("tree.json")!), { a: "1", b: "2" });
+  });
+});
+
+describe("批量操作", () => {
+  it("批量操作等待期间的其他操作单独撤销", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const other = await createItem(core, "另一个笔记本", "notebook");
+
+    let resume!: () => void;
+    const waiting = new Promise<void>(resolve => (resume = resolve));
+    const batch = core.batch("批量创建", async step => {
+      await step(() => core.createItem("文档一", "document", "1", notebook.id));
+      await waiting;
+      await step(() => core.createItem("文档二", "document", "2", notebook.id));
+    });
+
+    // 批量操作等待期间重命名：立即生效并单独记录
+    assert.ok((await core.renameItem(other.id, "新名称")).ok);
+    resume();
+    await batch;
+    assert.equal(core.getItemChildren(notebook.id).length, 2);
+
+    await core.undo();
+    assert.equal(core.getItemChildren(notebook.id).length, 0);
+    assert.equal(core.getItemById(other.id)?.name, "新名称");
+    await core.undo();
+    assert.equal(core.getItemById(other.id)?.name, "另一个笔记本");
+  });
+
+  it("不记入历史的批量操作丢弃涉及相同项目的撤销记录", async () => {
+    const core = await createCore();
+    const notebook = await createItem(core, "笔记本", "notebook");
+    const doc = await createItem(core, "文档", "document", notebook.id);
+
+    await core.batch("同步", step => step(() => core.deleteItem(doc.id, { permanent: true })), { recordHistory: false });
+    assert.equal(core.getItemById(doc.id), null);
+    assert.equal(core.canUndo(), false);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * 导入文件解析测试
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseImportFile } from "../src/folder-tree-import";
+
+describe("解析 Markdown 导入文件", () => {
+  it("还原导出时转义的方括号和反斜杠", () => {
+    const { title, nodes } = parseImportFile("tree.md", "# 文档树\n\n- \\[Draft\\] 笔记\n  - a\\\\b\n  - ((42))\n");
+
+    assert.equal(title, "文档树");
+    assert.equal(nodes[0].name, "[Draft] 笔记");
+    assert.equal(nodes[0].children[0].name, "a\\b");
+    assert.equal(nodes[0].children[1].blockId, "42");
+  });
+
+  it("旧版导出的块链接同样还原名称", () => {
+    const { nodes } = parseImportFile("tree.md", "- [\\[1\\] 文档](orca-block:7)\n");
+    assert.deepEqual({ name: nodes[0].name, blockId: nodes[0].blockId }, { name: "[1] 文档", blockId: "7" });
+  });
+});
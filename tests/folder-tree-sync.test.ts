@@ -0,0 +1,105 @@
+/**
+ * 跨窗口同步测试：两个核心实例共用同一个存储，模拟两个窗口
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FolderTreeCore } from "../src/folder-tree-core";
+import { MemoryStorageAdapter } from "../src/folder-tree-storage";
+
+async function openWindow(storage: MemoryStorageAdapter): Promise<FolderTreeCore> {
+  const core = new FolderTreeCore({ storage, repo: "test" });
+  assert.equal(await core.initialize(), true);
+  return core;
+}
+
+describe("合并其他窗口的修改", () => {
+  it("两个窗口修改同一项目的不同字段时都保留", async () => {
+    const storage = new MemoryStorageAdapter();
+    const windowA = await openWindow(storage);
+    const created = await windowA.createItem("笔记本", "notebook", null, null);
+    assert.ok(created.ok);
+    const notebookId = created.value.id;
+    await windowA.idle();
+    const windowB = await openWindow(storage);
+
+    assert.ok((await windowA.renameItem(notebookId, "新名称")).ok);
+    await windowA.idle();
+    // 窗口 B 还没有收到重命名，就在同一个笔记本中新建文档
+    const doc = await windowB.createItem("文档", "document", "1", notebookId);
+    assert.ok(doc.ok);
+    await windowB.idle();
+
+    assert.equal(windowB.getItemById(notebookId)?.name, "新名称");
+    assert.deepEqual(windowB.getItemById(notebookId)?.children, [doc.value.id]);
+
+    const reloaded = await openWindow(storage);
+    assert.equal(reloaded.getItemById(notebookId)?.name, "新名称");
+    assert.deepEqual(reloaded.getItemById(notebookId)?.children, [doc.value.id]);
+  });
+
+  it("其他窗口修改的设置和本窗口修改的设置都保留", async () => {
+    const storage = new MemoryStorageAdapter();
+    const windowA = await openWindow(storage);
+    const windowB = await openWindow(storage);
+
+    assert.ok((await windowA.setTrashRetentionDays(7)).ok);
+    await windowA.idle();
+    await windowB.setExpandedState(["notebook_x"]);
+    await windowB.idle();
+
+    const reloaded = await openWindow(storage);
+    assert.equal(reloaded.getTrashRetentionDays(), 7);
+    assert.deepEqual(reloaded.getExpandedItems(), ["notebook_x"]);
+  });
+});
+
+describe("撤销和其他窗口的修改", () => {
+  it("撤销本窗口的旧操作不会还原其他窗口的删除", async () => {
+    const storage = new MemoryStorageAdapter();
+    const windowA = await openWindow(storage);
+    const notebook = await windowA.createItem("笔记本", "notebook", null, null);
+    assert.ok(notebook.ok);
+    const other = await windowA.createItem("另一个笔记本", "notebook", null, null);
+    assert.ok(other.ok);
+    const doc = await windowA.createItem("文档", "document", "1", other.value.id);
+    assert.ok(doc.ok);
+    assert.ok((await windowA.renameItem(notebook.value.id, "新名称")).ok);
+    await windowA.idle();
+
+    const windowB = await openWindow(storage);
+    assert.ok((await windowB.deleteItem(doc.value.id)).ok);
+    await windowB.idle();
+    // 窗口 A 下次保存时合并窗口 B 的删除
+    await windowA.setExpandedState([notebook.value.id]);
+    await windowA.idle();
+    assert.equal(windowA.getItemById(doc.value.id), null);
+
+    assert.ok(await windowA.undo());
+    assert.equal(windowA.getItemById(notebook.value.id)?.name, "笔记本");
+    assert.equal(windowA.getTrashEntries().length, 1);
+    await windowA.idle();
+
+    const reloaded = await openWindow(storage);
+    assert.equal(reloaded.getItemById(doc.value.id), null);
+    assert.deepEqual(reloaded.getTrashEntries().map(entry => entry.id), [doc.value.id]);
+  });
+
+  it("其他窗口修改过的项目不能再撤销本窗口之前的操作", async () => {
+    const storage = new MemoryStorageAdapter();
+    const windowA = await openWindow(storage);
+    const notebook = await windowA.createItem("笔记本", "notebook", null, null);
+    assert.ok(notebook.ok);
+    assert.ok((await windowA.renameItem(notebook.value.id, "窗口 A 的名称")).ok);
+    await windowA.idle();
+
+    const windowB = await openWindow(storage);
+    assert.ok((await windowB.renameItem(notebook.value.id, "窗口 B 的名称")).ok);
+    await windowB.idle();
+    await windowA.setExpandedState([]);
+    await windowA.idle();
+
+    assert.equal(windowA.getItemById(notebook.value.id)?.name, "窗口 B 的名称");
+    assert.equal(windowA.canUndo(), false);
+  });
+});